@@ -0,0 +1,94 @@
+import { execFile } from 'node:child_process';
+import { close, constants, open } from 'node:fs';
+import { isatty, ReadStream, WriteStream } from 'node:tty';
+import { promisify } from 'node:util';
+import { Emitter } from '../src/device/Emitter';
+import type { Transport, TransportEvents } from '../src/device/Transport';
+
+const run = promisify(execFile);
+const openFile = promisify(open);
+const closeFile = promisify(close);
+
+export const DEFAULT_BAUD_RATE = 115200;
+
+// Serial link through a device file such as /dev/ttyACM0. The line settings
+// are applied with stty, so any tty works, including a pseudo-terminal. Reads
+// and writes go through separate non-blocking tty streams that close cleanly.
+export class NodeSerialTransport extends Emitter<TransportEvents> implements Transport {
+    readonly label: string;
+    readonly path: string;
+    private readonly baudRate: number;
+    private input: ReadStream | null = null;
+    private output: WriteStream | null = null;
+    private closing = false;
+
+    constructor(path: string, baudRate = DEFAULT_BAUD_RATE) {
+        super();
+        this.path = path;
+        this.baudRate = baudRate;
+        this.label = path;
+    }
+
+    async open(): Promise<void> {
+        if (this.input) {
+            throw new Error('The port is already open.');
+        }
+        await this.configure();
+
+        const flags = constants.O_RDWR | constants.O_NOCTTY;
+        const [readFd, writeFd] = await Promise.all([openFile(this.path, flags), openFile(this.path, flags)]);
+        if (!isatty(readFd)) {
+            await Promise.all([readFd, writeFd].map(fd => closeFile(fd)));
+            throw new Error(`${this.path} is not a serial device`);
+        }
+
+        this.closing = false;
+        this.input = new ReadStream(readFd);
+        this.output = new WriteStream(writeFd);
+        this.input.on('data', chunk => this.emit('data', new Uint8Array(chunk as Buffer)));
+        this.input.on('error', error => this.fail(error));
+        this.input.on('end', () => this.fail(new Error('Reading stream ended')));
+        this.output.on('error', error => this.fail(error));
+    }
+
+    async write(data: Uint8Array): Promise<void> {
+        const output = this.output;
+        if (!output) {
+            throw new Error('Serial port is not open');
+        }
+        await new Promise<void>((resolve, reject) => {
+            output.write(data, error => error ? reject(error) : resolve());
+        });
+    }
+
+    async close(): Promise<void> {
+        if (!this.input) return;
+        this.closing = true;
+        this.release();
+        this.emit('close', undefined);
+    }
+
+    // Raw 8N1 without echo or line translation, as the browser opens the port
+    private async configure(): Promise<void> {
+        const flag = process.platform === 'darwin' ? '-f' : '-F';
+        try {
+            await run('stty', [flag, this.path, String(this.baudRate), 'raw', '-echo', 'cs8', '-cstopb', '-parenb']);
+        } catch (error) {
+            const message = (error as { stderr?: string }).stderr?.trim() || (error as Error).message;
+            throw new Error(`Cannot configure ${this.path}: ${message}`);
+        }
+    }
+
+    private release(): void {
+        this.input?.destroy();
+        this.output?.destroy();
+        this.input = null;
+        this.output = null;
+    }
+
+    private fail(cause: Error): void {
+        if (this.closing || !this.input) return;
+        this.release();
+        this.emit('close', cause);
+    }
+}
@@ -0,0 +1,232 @@
+import { parseArgs } from 'node:util';
+import { CommandError } from '../src/device/CommandQueue';
+import { DeviceSession, type DeviceSnapshot } from '../src/device/DeviceSession';
+import type { LaserDevice } from '../src/device/LaserDevice';
+import { SimulatedTransport } from '../src/device/SimulatedTransport';
+import type { Transport } from '../src/device/Transport';
+import { PWM_MAX, PWM_MIN } from '../src/device/protocol';
+import { formatUptime } from '../src/utils/format';
+import type { ConsoleEntry } from '../src/types/console';
+import { DEFAULT_BAUD_RATE, NodeSerialTransport } from './NodeSerialTransport';
+
+const USAGE = `Usage: laserctl [options] <command>
+
+Commands:
+  on                  Switch the laser on
+  off                 Switch the laser off
+  pwm <${PWM_MIN}-${PWM_MAX}>         Set the laser brightness in percent
+  status              Print the device state
+  monitor             Print everything the device sends until interrupted
+
+Options:
+  -p, --port <path>   Serial device (default: $LASERCTL_PORT or /dev/ttyACM0)
+  -b, --baud <rate>   Baud rate (default: ${DEFAULT_BAUD_RATE})
+  -t, --timeout <ms>  Time to wait for the initial state (default: 5000)
+      --json          Print machine-readable JSON
+      --simulator     Talk to the built-in firmware simulator instead of a port
+  -v, --verbose       Log the protocol exchange to stderr
+  -h, --help          Show this help
+
+Exit status: 0 on success, 1 when the device did not confirm, 2 on a usage
+error, 3 when the port could not be opened.`;
+
+const EXIT_OK = 0;
+const EXIT_UNCONFIRMED = 1;
+const EXIT_USAGE = 2;
+const EXIT_CONNECTION = 3;
+
+const DEFAULT_PORT = '/dev/ttyACM0';
+const DEFAULT_SYNC_TIMEOUT = 5000;
+
+interface Options {
+    command: string;
+    pwm?: number;
+    transport: Transport;
+    syncTimeoutMs: number;
+    json: boolean;
+    verbose: boolean;
+}
+
+function parseNumber(value: string | undefined, name: string, fallback: number): number {
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return number;
+}
+
+function parseOptions(argv: string[]): Options | null {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            port: { type: 'string', short: 'p' },
+            baud: { type: 'string', short: 'b' },
+            timeout: { type: 'string', short: 't' },
+            json: { type: 'boolean' },
+            simulator: { type: 'boolean' },
+            verbose: { type: 'boolean', short: 'v' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (values.help) return null;
+
+    const [command, ...args] = positionals;
+    const expected = command === 'pwm' ? 1 : 0;
+    if (!['on', 'off', 'pwm', 'status', 'monitor'].includes(command)) {
+        throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+    }
+    if (args.length !== expected) {
+        throw new Error(command === 'pwm' ? 'pwm takes one value' : `${command} takes no arguments`);
+    }
+
+    let pwm: number | undefined;
+    if (command === 'pwm') {
+        pwm = Number(args[0]);
+        if (!Number.isInteger(pwm) || pwm < PWM_MIN || pwm > PWM_MAX) {
+            throw new Error(`Brightness must be a whole number between ${PWM_MIN} and ${PWM_MAX}, got ${args[0]}`);
+        }
+    }
+
+    const port = values.port ?? process.env.LASERCTL_PORT ?? DEFAULT_PORT;
+    const baudRate = parseNumber(values.baud, 'baud rate', DEFAULT_BAUD_RATE);
+    return {
+        command,
+        pwm,
+        transport: values.simulator ? new SimulatedTransport() : new NodeSerialTransport(port, baudRate),
+        syncTimeoutMs: parseNumber(values.timeout, 'timeout', DEFAULT_SYNC_TIMEOUT),
+        json: values.json ?? false,
+        verbose: values.verbose ?? false
+    };
+}
+
+// Resolves once the state request queued by connect() is answered
+function waitForSync(device: LaserDevice, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const finish = (synced: boolean): void => {
+            clearTimeout(timer);
+            cleanup.forEach(unsubscribe => unsubscribe());
+            resolve(synced);
+        };
+        const timer = setTimeout(() => finish(false), timeoutMs);
+        const cleanup = [
+            device.on('acknowledged', ({ command }) => {
+                if (command === 'GET_INITIAL_STATE') finish(true);
+            }),
+            device.on('error', error => {
+                if (error instanceof CommandError && error.command === 'GET_INITIAL_STATE') finish(false);
+            }),
+            device.on('disconnect', () => finish(false))
+        ];
+    });
+}
+
+// Same field names as the firmware's own reports
+function stateJson(port: string, snapshot: DeviceSnapshot) {
+    const { laserOn, laserBrightness, deviceStats } = snapshot;
+    return {
+        port,
+        version: deviceStats.firmwareVersion,
+        laser_state: laserOn,
+        laser_brightness: laserBrightness,
+        uptime_ms: deviceStats.uptime * 1000,
+        free_heap_bytes: deviceStats.freeHeap
+    };
+}
+
+function printState(options: Options, session: DeviceSession): void {
+    const { snapshot } = session;
+    if (options.json) {
+        console.log(JSON.stringify(stateJson(options.transport.label, snapshot)));
+        return;
+    }
+    const { laserOn, laserBrightness, deviceStats } = snapshot;
+    console.log(`Port:       ${options.transport.label}`);
+    console.log(`Firmware:   ${deviceStats.firmwareVersion}`);
+    console.log(`Laser:      ${laserOn ? 'ON' : 'OFF'}`);
+    console.log(`Brightness: ${laserBrightness}%`);
+    console.log(`Uptime:     ${formatUptime(deviceStats.uptime)}`);
+    console.log(`Free heap:  ${(deviceStats.freeHeap / 1024).toFixed(1)} KB`);
+}
+
+// Streams every parsed line to stdout until interrupted or the link drops
+function monitor(options: Options, device: LaserDevice): Promise<number> {
+    const print = (entry: object, text: string): void => {
+        const time = new Date().toISOString();
+        console.log(options.json ? JSON.stringify({ time, ...entry }) : `${time}  ${text}`);
+    };
+    device.on('message', message => print({ message }, JSON.stringify(message)));
+    device.on('text', ({ text, info }) => print({ text, info }, text));
+    device.on('parse_issue', issue => print({ issue }, `[${issue.kind}: ${issue.reason}] ${issue.text}`));
+
+    return new Promise(resolve => {
+        device.on('disconnect', cause => resolve(cause ? EXIT_CONNECTION : EXIT_OK));
+        process.once('SIGINT', () => {
+            device.disconnect({ switchOff: false }).finally(() => resolve(EXIT_OK));
+        });
+    });
+}
+
+async function execute(options: Options): Promise<number> {
+    const logMessage = (message: string, type: ConsoleEntry['type'] = 'info'): void => {
+        if (options.verbose || type === 'error') console.error(message);
+    };
+    const session = new DeviceSession(options.transport, {
+        id: options.transport.label,
+        key: options.transport.label,
+        name: options.transport.label,
+        logMessage
+    });
+    const { device } = session;
+
+    const synced = waitForSync(device, options.syncTimeoutMs);
+    if (!await session.connect()) return EXIT_CONNECTION;
+
+    if (options.command === 'monitor') {
+        return monitor(options, device);
+    }
+
+    let exitCode = EXIT_OK;
+    if (!await synced) {
+        console.error('laserctl: the device did not report its state');
+        exitCode = EXIT_UNCONFIRMED;
+    } else if (options.command === 'on' || options.command === 'off') {
+        if (!await session.setLaser(options.command === 'on')) exitCode = EXIT_UNCONFIRMED;
+    } else if (options.pwm !== undefined) {
+        session.setLocalBrightness(options.pwm);
+        if (!await session.sendBrightness(options.pwm)) exitCode = EXIT_UNCONFIRMED;
+    }
+
+    if (exitCode === EXIT_OK) {
+        printState(options, session);
+    }
+
+    // Leave the laser as commanded; only the browser app switches it off on exit
+    await device.disconnect({ switchOff: false }).catch(() => undefined);
+    return exitCode;
+}
+
+async function main(): Promise<number> {
+    let options: Options | null;
+    try {
+        options = parseOptions(process.argv.slice(2));
+    } catch (error) {
+        console.error(`laserctl: ${(error as Error).message}\nTry 'laserctl --help' for more information.`);
+        return EXIT_USAGE;
+    }
+    if (!options) {
+        console.log(USAGE);
+        return EXIT_OK;
+    }
+    return execute(options);
+}
+
+// Exit explicitly: a blocking read on the port would otherwise keep Node alive
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(`laserctl: ${(error as Error).message}`);
+        process.exit(EXIT_CONNECTION);
+    }
+);
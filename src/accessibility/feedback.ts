@@ -0,0 +1,27 @@
+// Audible confirmation of laser state changes, for operators whose goggles
+// hide the beam and the on-screen colours
+
+let context: AudioContext | null = null;
+
+// Rising two-tone chirp for on, falling for off
+export function playStateTone(on: boolean): void {
+    try {
+        context ??= new AudioContext();
+        const start = context.currentTime;
+        const [first, second] = on ? [660, 990] : [990, 495];
+
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.type = 'sine';
+        oscillator.frequency.setValueAtTime(first, start);
+        oscillator.frequency.setValueAtTime(second, start + 0.09);
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(0.2, start + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.2);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + 0.22);
+    } catch (error) {
+        console.error('Failed to play confirmation tone:', error);
+    }
+}
@@ -0,0 +1,135 @@
+// Keyboard shortcuts for the laser controls and the feedback given when the
+// laser changes state. Bindings are key codes with modifiers, e.g.
+// "Shift+Equal", so they don't depend on the keyboard layout.
+
+export type ShortcutAction =
+    | 'toggleLaser'
+    | 'brightnessUp'
+    | 'brightnessDown'
+    | 'brightnessUpLarge'
+    | 'brightnessDownLarge'
+    | 'preset1'
+    | 'preset2'
+    | 'preset3'
+    | 'preset4';
+
+export type PresetAction = 'preset1' | 'preset2' | 'preset3' | 'preset4';
+
+export interface AccessibilitySettings {
+    bindings: Record<ShortcutAction, string>;
+    // Brightness (PWM %) of the preset shortcuts, in order
+    presets: [number, number, number, number];
+    // Tone when the laser is confirmed on or off
+    sound: boolean;
+    // Flash of the laser card on the same changes
+    flash: boolean;
+}
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+    toggleLaser: 'Switch laser on/off',
+    brightnessUp: 'Brightness +1%',
+    brightnessDown: 'Brightness −1%',
+    brightnessUpLarge: 'Brightness +10%',
+    brightnessDownLarge: 'Brightness −10%',
+    preset1: 'Preset 1',
+    preset2: 'Preset 2',
+    preset3: 'Preset 3',
+    preset4: 'Preset 4'
+};
+
+export const PRESET_ACTIONS: PresetAction[] = ['preset1', 'preset2', 'preset3', 'preset4'];
+
+// Brightness change per shortcut
+export const BRIGHTNESS_STEPS: Partial<Record<ShortcutAction, number>> = {
+    brightnessUp: 1,
+    brightnessDown: -1,
+    brightnessUpLarge: 10,
+    brightnessDownLarge: -10
+};
+
+// Escape and Space always trigger the emergency stop
+export const RESERVED_KEYS = ['Escape', 'Space'];
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+    bindings: {
+        toggleLaser: 'KeyL',
+        brightnessUp: 'Equal',
+        brightnessDown: 'Minus',
+        brightnessUpLarge: 'Shift+Equal',
+        brightnessDownLarge: 'Shift+Minus',
+        preset1: 'Digit1',
+        preset2: 'Digit2',
+        preset3: 'Digit3',
+        preset4: 'Digit4'
+    },
+    presets: [10, 25, 50, 100],
+    sound: true,
+    flash: true
+};
+
+const STORAGE_KEY = 'laserController.accessibility';
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+// Binding for a key press, or undefined for a lone modifier
+export function eventBinding(event: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | undefined {
+    if (!event.code || MODIFIER_CODES.includes(event.code)) return undefined;
+    const modifiers = [
+        event.ctrlKey && 'Ctrl',
+        event.altKey && 'Alt',
+        event.shiftKey && 'Shift',
+        event.metaKey && 'Meta'
+    ].filter(Boolean);
+    return [...modifiers, event.code].join('+');
+}
+
+// Readable form of a binding, e.g. "Shift+=" for "Shift+Equal"
+export function formatBinding(binding: string): string {
+    return binding.split('+').map(part => part
+        .replace(/^Key([A-Z])$/, '$1')
+        .replace(/^Digit(\d)$/, '$1')
+        .replace(/^Numpad(\d)$/, 'Num $1')
+        .replace(/^Equal$/, '=')
+        .replace(/^Minus$/, '-')
+        .replace(/^Arrow(\w+)$/, '$1')).join('+');
+}
+
+export function findAction(bindings: Record<ShortcutAction, string>, binding: string): ShortcutAction | undefined {
+    return (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === binding);
+}
+
+function isPresetLevel(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+}
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return DEFAULT_ACCESSIBILITY_SETTINGS;
+        const parsed = JSON.parse(stored) as Partial<AccessibilitySettings>;
+        const bindings = { ...DEFAULT_ACCESSIBILITY_SETTINGS.bindings };
+        for (const action of Object.keys(bindings) as ShortcutAction[]) {
+            const binding = parsed.bindings?.[action];
+            if (typeof binding === 'string' && !RESERVED_KEYS.includes(binding)) bindings[action] = binding;
+        }
+        const presets = Array.isArray(parsed.presets) && parsed.presets.length === 4 && parsed.presets.every(isPresetLevel)
+            ? parsed.presets
+            : DEFAULT_ACCESSIBILITY_SETTINGS.presets;
+        return {
+            bindings,
+            presets,
+            sound: typeof parsed.sound === 'boolean' ? parsed.sound : DEFAULT_ACCESSIBILITY_SETTINGS.sound,
+            flash: typeof parsed.flash === 'boolean' ? parsed.flash : DEFAULT_ACCESSIBILITY_SETTINGS.flash
+        };
+    } catch (error) {
+        console.error('Failed to load accessibility settings:', error);
+        return DEFAULT_ACCESSIBILITY_SETTINGS;
+    }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Failed to save accessibility settings:', error);
+    }
+}
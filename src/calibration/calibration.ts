@@ -0,0 +1,177 @@
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+// Optical output of a laser diode against the PWM duty it is driven with.
+// Diodes are far from linear (nothing below the lasing threshold, then a
+// steep rise) and differ between units, so each device gets its own curve.
+
+export type BrightnessUnit = 'pwm' | 'mw' | 'perceptual';
+
+// One measurement: output power at a PWM value
+export interface CalibrationPoint {
+    pwm: number;
+    powerMw: number;
+}
+
+export interface Calibration {
+    // Device identity, see deviceKey()
+    device: string;
+    // Firmware the device ran when it was measured
+    firmwareVersion?: string;
+    createdAt: number;
+    // Measurements as entered, sorted by PWM
+    points: CalibrationPoint[];
+}
+
+// Monotonic curve through the measurements, with PWM 0 as 0 mW
+export interface CalibrationCurve {
+    points: CalibrationPoint[];
+    maxPowerMw: number;
+}
+
+const FILE_VERSION = 1;
+
+// Default PWM values stepped through when measuring
+export const DEFAULT_CALIBRATION_STEPS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+// Fits a non-decreasing curve to the measurements (pool adjacent violators),
+// so noisy readings can't make the power-to-PWM conversion ambiguous
+export function fitCurve(points: readonly CalibrationPoint[]): CalibrationCurve {
+    const sorted = [...points].sort((a, b) => a.pwm - b.pwm);
+    if (sorted[0]?.pwm !== PWM_MIN) sorted.unshift({ pwm: PWM_MIN, powerMw: 0 });
+
+    const blocks: Array<{ pwms: number[]; sum: number }> = [];
+    for (const point of sorted) {
+        blocks.push({ pwms: [point.pwm], sum: point.powerMw });
+        while (blocks.length > 1) {
+            const last = blocks[blocks.length - 1];
+            const previous = blocks[blocks.length - 2];
+            if (previous.sum / previous.pwms.length <= last.sum / last.pwms.length) break;
+            blocks.pop();
+            previous.pwms.push(...last.pwms);
+            previous.sum += last.sum;
+        }
+    }
+
+    const fitted = blocks.flatMap(block => block.pwms.map(pwm => ({ pwm, powerMw: block.sum / block.pwms.length })));
+    return { points: fitted, maxPowerMw: fitted[fitted.length - 1]?.powerMw ?? 0 };
+}
+
+// Interpolated output at a PWM value
+export function powerAt(curve: CalibrationCurve, pwm: number): number {
+    const { points } = curve;
+    if (points.length === 0) return 0;
+    if (pwm <= points[0].pwm) return points[0].powerMw;
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (pwm <= b.pwm) {
+            return b.pwm === a.pwm ? b.powerMw : a.powerMw + (b.powerMw - a.powerMw) * (pwm - a.pwm) / (b.pwm - a.pwm);
+        }
+    }
+    // Beyond the last measurement the output is assumed to stay flat
+    return points[points.length - 1].powerMw;
+}
+
+// Lowest PWM value that gives at least `powerMw`, as a whole PWM step
+export function pwmForPower(curve: CalibrationCurve, powerMw: number): number {
+    const { points } = curve;
+    if (powerMw <= 0 || points.length === 0) return PWM_MIN;
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (powerMw <= b.powerMw && b.powerMw > a.powerMw) {
+            const pwm = a.pwm + (b.pwm - a.pwm) * (powerMw - a.powerMw) / (b.powerMw - a.powerMw);
+            return Math.min(PWM_MAX, Math.max(PWM_MIN, Math.round(pwm)));
+        }
+    }
+    return points[points.length - 1].pwm;
+}
+
+// Perceived brightness follows CIE lightness (L*) rather than power, so
+// "perceptual %" is L* of the output relative to the maximum
+function lightness(relative: number): number {
+    return relative > 216 / 24389 ? 116 * Math.cbrt(relative) - 16 : relative * 24389 / 27;
+}
+
+function relativeLuminance(lightnessPercent: number): number {
+    return lightnessPercent > 8 ? ((lightnessPercent + 16) / 116) ** 3 : lightnessPercent * 27 / 24389;
+}
+
+// PWM value in the chosen unit
+export function fromPwm(curve: CalibrationCurve | null, unit: BrightnessUnit, pwm: number): number {
+    if (!curve || unit === 'pwm') return pwm;
+    const power = powerAt(curve, pwm);
+    if (unit === 'mw') return power;
+    return curve.maxPowerMw > 0 ? lightness(power / curve.maxPowerMw) : 0;
+}
+
+// Value in the chosen unit as the PWM value that produces it
+export function toPwm(curve: CalibrationCurve | null, unit: BrightnessUnit, value: number): number {
+    if (!curve || unit === 'pwm') return Math.round(value);
+    const power = unit === 'mw' ? value : relativeLuminance(Math.min(100, Math.max(0, value))) * curve.maxPowerMw;
+    return pwmForPower(curve, power);
+}
+
+// Value with the unit, e.g. "12.5 mW"
+export function formatBrightness(unit: BrightnessUnit, value: number): string {
+    switch (unit) {
+        case 'pwm':
+            return `${Math.round(value)}%`;
+        case 'mw':
+            return `${value.toFixed(value < 10 ? 2 : 1)} mW`;
+        case 'perceptual':
+            return `${Math.round(value)}% perceived`;
+    }
+}
+
+function isNumber(value: unknown, min: number, max = Infinity): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function validatePoint(value: unknown, index: number): CalibrationPoint {
+    const point = value as Record<string, unknown>;
+    if (!point || typeof point !== 'object') throw new Error(`Point ${index + 1} is not an object`);
+    if (!isNumber(point.pwm, PWM_MIN, PWM_MAX)) {
+        throw new Error(`Point ${index + 1}: pwm must be between ${PWM_MIN} and ${PWM_MAX}`);
+    }
+    if (!isNumber(point.powerMw, 0)) throw new Error(`Point ${index + 1}: powerMw must be 0 or more`);
+    return { pwm: point.pwm, powerMw: point.powerMw };
+}
+
+// Validates untrusted JSON (e.g. an imported file) as a Calibration
+export function validateCalibration(value: unknown): Calibration {
+    const calibration = value as Record<string, unknown>;
+    if (!calibration || typeof calibration !== 'object') throw new Error('Calibration is not an object');
+    if (typeof calibration.device !== 'string' || !calibration.device) throw new Error('Calibration has no device');
+    if (!Array.isArray(calibration.points)) throw new Error('Calibration has no points');
+
+    const points = calibration.points.map(validatePoint).sort((a, b) => a.pwm - b.pwm);
+    if (points.filter(point => point.powerMw > 0).length < 2) {
+        throw new Error('Calibration needs at least two points with a measured output');
+    }
+    return {
+        device: calibration.device,
+        firmwareVersion: typeof calibration.firmwareVersion === 'string' ? calibration.firmwareVersion : undefined,
+        createdAt: isNumber(calibration.createdAt, 0) ? calibration.createdAt : Date.now(),
+        points
+    };
+}
+
+export function exportCalibration(calibration: Calibration): string {
+    return JSON.stringify({ version: FILE_VERSION, calibration }, null, 2);
+}
+
+// Accepts an exported file or a bare calibration
+export function importCalibration(text: string): Calibration {
+    const parsed: unknown = JSON.parse(text);
+    const file = parsed as { version?: unknown; calibration?: unknown };
+    if (file && typeof file === 'object' && 'calibration' in file) {
+        if (typeof file.version === 'number' && file.version > FILE_VERSION) {
+            throw new Error(`Unsupported calibration file version ${file.version}`);
+        }
+        return validateCalibration(file.calibration);
+    }
+    return validateCalibration(parsed);
+}
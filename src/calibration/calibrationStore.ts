@@ -0,0 +1,52 @@
+import { validateCalibration, type BrightnessUnit, type Calibration } from './calibration';
+
+const STORAGE_KEY = 'laserController.calibrations';
+const UNIT_KEY = 'laserController.brightnessUnit';
+
+// Calibrations by device key. An entry that no longer validates is skipped
+// on its own, so saving afterwards does not take the other devices with it.
+export function loadCalibrations(): Record<string, Calibration> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : {};
+        if (typeof parsed !== 'object' || parsed === null) return {};
+        const calibrations: Record<string, Calibration> = {};
+        for (const [key, value] of Object.entries(parsed)) {
+            try {
+                const calibration = validateCalibration(value);
+                calibrations[calibration.device] = calibration;
+            } catch (error) {
+                console.error(`Skipped the stored calibration for ${key}:`, error);
+            }
+        }
+        return calibrations;
+    } catch (error) {
+        console.error('Failed to load calibrations:', error);
+        return {};
+    }
+}
+
+export function saveCalibrations(calibrations: Record<string, Calibration>): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(calibrations));
+    } catch (error) {
+        console.error('Failed to save calibrations:', error);
+    }
+}
+
+export function loadBrightnessUnit(): BrightnessUnit {
+    try {
+        const stored = localStorage.getItem(UNIT_KEY);
+        return stored === 'mw' || stored === 'perceptual' ? stored : 'pwm';
+    } catch {
+        return 'pwm';
+    }
+}
+
+export function saveBrightnessUnit(unit: BrightnessUnit): void {
+    try {
+        localStorage.setItem(UNIT_KEY, unit);
+    } catch (error) {
+        console.error('Failed to save brightness unit:', error);
+    }
+}
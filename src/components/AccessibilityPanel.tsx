@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Keyboard, RotateCcw } from 'lucide-react';
+import styles from './AccessibilityPanel.module.css';
+import {
+    PRESET_ACTIONS,
+    RESERVED_KEYS,
+    SHORTCUT_LABELS,
+    eventBinding,
+    findAction,
+    formatBinding,
+    type AccessibilitySettings,
+    type ShortcutAction
+} from '../accessibility/shortcuts';
+
+interface AccessibilityPanelProps {
+    settings: AccessibilitySettings;
+    onChange: (changes: Partial<AccessibilitySettings>) => void;
+    onReset: () => void;
+}
+
+// Shortcut bindings, preset levels and state change feedback
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ settings, onChange, onReset }) => {
+    // Action waiting for its new key
+    const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleCapture = (action: ShortcutAction, e: React.KeyboardEvent<HTMLButtonElement>): void => {
+        // Escape and Space keep working as the emergency stop
+        if (RESERVED_KEYS.includes(e.code)) {
+            // Space would otherwise click the button and start over
+            if (e.code === 'Space') e.preventDefault();
+            setError('Esc and Space are reserved for the emergency stop');
+            setCapturing(null);
+            return;
+        }
+        if (e.key === 'Tab') return;
+
+        const binding = eventBinding(e);
+        if (!binding) return;
+        e.preventDefault();
+
+        const taken = findAction(settings.bindings, binding);
+        if (taken && taken !== action) {
+            setError(`${formatBinding(binding)} is already used for ${SHORTCUT_LABELS[taken]}`);
+            return;
+        }
+        onChange({ bindings: { ...settings.bindings, [action]: binding } });
+        setCapturing(null);
+        setError(null);
+    };
+
+    const updatePreset = (index: number, value: string): void => {
+        const level = Number(value);
+        if (!Number.isInteger(level) || level < 0 || level > 100) return;
+        const presets = [...settings.presets] as AccessibilitySettings['presets'];
+        presets[index] = level;
+        onChange({ presets });
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Keyboard size={18} /> Keyboard &amp; Feedback</h2>
+                <button onClick={onReset} className={styles.button}>
+                    <RotateCcw size={14} /> Defaults
+                </button>
+            </div>
+
+            <p className={styles.note}>
+                Shortcuts work anywhere outside form controls. <kbd>Esc</kbd>, or <kbd>Space</kbd> outside form
+                controls, is always the emergency stop.
+            </p>
+
+            <table className={styles.table}>
+                <thead>
+                    <tr>
+                        <th scope="col">Action</th>
+                        <th scope="col">Shortcut</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => {
+                        const preset = PRESET_ACTIONS.indexOf(action as typeof PRESET_ACTIONS[number]);
+                        return (
+                            <tr key={action}>
+                                <th scope="row">
+                                    {SHORTCUT_LABELS[action]}
+                                    {preset >= 0 && (
+                                        <label className={styles.preset}>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={100}
+                                                value={settings.presets[preset]}
+                                                onChange={e => updatePreset(preset, e.target.value)}
+                                                className={styles.input}
+                                                aria-label={`${SHORTCUT_LABELS[action]} brightness`}
+                                            />
+                                            %
+                                        </label>
+                                    )}
+                                </th>
+                                <td>
+                                    <button
+                                        onClick={() => {
+                                            setCapturing(capturing === action ? null : action);
+                                            setError(null);
+                                        }}
+                                        onKeyDown={capturing === action ? e => handleCapture(action, e) : undefined}
+                                        onBlur={() => setCapturing(prev => prev === action ? null : prev)}
+                                        className={`${styles.binding} ${capturing === action ? styles.capturing : ''}`}
+                                        aria-label={`${SHORTCUT_LABELS[action]}: ${formatBinding(settings.bindings[action])}. Activate to change`}
+                                    >
+                                        {capturing === action ? 'Press a key…' : <kbd>{formatBinding(settings.bindings[action])}</kbd>}
+                                    </button>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {error && <div className={styles.error} role="alert">{error}</div>}
+
+            <div className={styles.options}>
+                <label className={styles.checkbox}>
+                    <input type="checkbox" checked={settings.sound} onChange={e => onChange({ sound: e.target.checked })} />
+                    Tone when the laser switches
+                </label>
+                <label className={styles.checkbox}>
+                    <input type="checkbox" checked={settings.flash} onChange={e => onChange({ flash: e.target.checked })} />
+                    Flash the laser card when it switches
+                </label>
+            </div>
+        </div>
+    );
+};
+
+export default AccessibilityPanel;
@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { Download, Gauge, Trash2, Upload } from 'lucide-react';
+import styles from './CalibrationPanel.module.css';
+import type { Calibration, CalibrationCurve } from '../calibration/calibration';
+import type { CalibrationRun } from '../hooks/useCalibration';
+
+interface CalibrationPanelProps {
+    deviceName: string | null;
+    calibration: Calibration | null;
+    curve: CalibrationCurve | null;
+    firmwareChanged: boolean;
+    run: CalibrationRun | null;
+    // Measuring needs a connected device with the laser on
+    canStart: boolean;
+    onStart: () => void;
+    onRecord: (powerMw: number) => void;
+    onBack: () => void;
+    onCancel: () => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+    onDelete: () => void;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 6;
+
+// Measured points and the fitted curve, PWM across and power up
+const CurveChart: React.FC<{ calibration: Calibration; curve: CalibrationCurve }> = ({ calibration, curve }) => {
+    const max = curve.maxPowerMw || 1;
+    const x = (pwm: number): number => CHART_PADDING + pwm / 100 * (CHART_WIDTH - 2 * CHART_PADDING);
+    const y = (power: number): number => CHART_HEIGHT - CHART_PADDING - power / max * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={styles.chart} role="img" aria-label="Output power against PWM">
+            <polyline
+                points={curve.points.map(point => `${x(point.pwm)},${y(point.powerMw)}`).join(' ')}
+                className={styles.curve}
+            />
+            {calibration.points.map(point => (
+                <circle key={`${point.pwm}-${point.powerMw}`} cx={x(point.pwm)} cy={y(point.powerMw)} r={3} className={styles.point} />
+            ))}
+        </svg>
+    );
+};
+
+// Measures, shows and transfers the PWM-to-power curve of the selected device
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+    deviceName,
+    calibration,
+    curve,
+    firmwareChanged,
+    run,
+    canStart,
+    onStart,
+    onRecord,
+    onBack,
+    onCancel,
+    onImport,
+    onExport,
+    onDelete
+}) => {
+    const [reading, setReading] = useState<string>('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleRecord = (e: React.FormEvent): void => {
+        e.preventDefault();
+        const powerMw = Number(reading);
+        if (reading.trim() === '' || !(powerMw >= 0)) return;
+        onRecord(powerMw);
+        setReading('');
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Gauge size={18} /> Output Calibration</h2>
+                <span className={styles.device}>{deviceName ?? 'No device'}</span>
+            </div>
+
+            {run ? (
+                <form onSubmit={handleRecord} className={styles.run}>
+                    <div className={styles.step}>
+                        Step {run.index + 1} of {run.steps.length}: the laser is at <strong>PWM {run.steps[run.index]}%</strong>.
+                        Enter the power meter reading.
+                    </div>
+                    <div className={styles.controls}>
+                        <label className={styles.field}>
+                            Measured
+                            <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={reading}
+                                onChange={e => setReading(e.target.value)}
+                                className={styles.input}
+                                autoFocus
+                            />
+                            mW
+                        </label>
+                        <button type="submit" disabled={reading.trim() === ''} className={`${styles.button} ${styles.primary}`}>
+                            {run.index + 1 === run.steps.length ? 'Record & finish' : 'Record & next'}
+                        </button>
+                        <button type="button" onClick={onBack} disabled={run.index === 0} className={styles.button}>
+                            Back
+                        </button>
+                        <button type="button" onClick={onCancel} className={styles.button}>
+                            Cancel
+                        </button>
+                    </div>
+                    {run.readings.length > 0 && (
+                        <div className={styles.readings}>
+                            {run.readings.map(point => `${point.pwm}% → ${point.powerMw} mW`).join(' · ')}
+                        </div>
+                    )}
+                </form>
+            ) : (
+                <>
+                    {calibration && curve ? (
+                        <>
+                            <div className={styles.summary}>
+                                Up to <strong>{curve.maxPowerMw.toFixed(1)} mW</strong> from {calibration.points.length} points,
+                                measured {new Date(calibration.createdAt).toLocaleDateString()}
+                                {calibration.firmwareVersion ? ` on firmware v${calibration.firmwareVersion}` : ''}
+                            </div>
+                            {firmwareChanged && (
+                                <div className={styles.warning}>
+                                    The firmware changed since this calibration; measure again if the output looks off.
+                                </div>
+                            )}
+                            <CurveChart calibration={calibration} curve={curve} />
+                        </>
+                    ) : (
+                        <div className={styles.summary}>
+                            Not calibrated: brightness is set in PWM %. Switch the laser on, place a power meter in the
+                            beam and step through the PWM values to measure the output.
+                        </div>
+                    )}
+
+                    <div className={styles.controls}>
+                        <button onClick={onStart} disabled={!canStart} className={`${styles.button} ${styles.primary}`}>
+                            {calibration ? 'Recalibrate' : 'Start calibration'}
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} disabled={!deviceName} className={styles.button}>
+                            <Upload size={14} /> Import
+                        </button>
+                        <button onClick={onExport} disabled={!calibration} className={styles.button}>
+                            <Download size={14} /> Export
+                        </button>
+                        <button onClick={onDelete} disabled={!calibration} className={styles.button}>
+                            <Trash2 size={14} /> Delete
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import styles from './CommandLine.module.css';
+import {
+    commonPrefix,
+    completeCommand,
+    completionText,
+    findCommand
+} from '../device/commandCatalog';
+import type { CommandLineMode } from '../hooks/useCommandLine';
+
+interface CommandLineProps {
+    history: string[];
+    mode: CommandLineMode;
+    disabled: boolean;
+    // Commands go through another tab, which only takes text lines
+    textOnly?: boolean;
+    onModeChange: (mode: CommandLineMode) => void;
+    onSubmit: (input: string) => Promise<boolean>;
+}
+
+// Input line under the Data Console: ↑/↓ history, Tab completion, Enter sends
+const CommandLine: React.FC<CommandLineProps> = ({ history, mode, disabled, textOnly = false, onModeChange, onSubmit }) => {
+    const [input, setInput] = useState<string>('');
+    // Position in history while browsing with the arrow keys; null when editing
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+    const [draft, setDraft] = useState<string>('');
+
+    const matches = mode === 'text' && input.trim() ? completeCommand(input) : [];
+    const spec = mode === 'text' ? findCommand(input) : undefined;
+    const problem = spec && input.includes(':') ? spec.validate?.(input.trim()) : undefined;
+
+    const browseHistory = (direction: -1 | 1): void => {
+        if (history.length === 0) return;
+        const current = historyIndex ?? history.length;
+        const next = Math.min(history.length, Math.max(0, current + direction));
+        if (historyIndex === null) setDraft(input);
+        if (next === history.length) {
+            setHistoryIndex(null);
+            setInput(draft);
+        } else {
+            setHistoryIndex(next);
+            setInput(history[next]);
+        }
+    };
+
+    const complete = (): void => {
+        if (matches.length === 0) return;
+        const completed = matches.length === 1
+            ? completionText(matches[0])
+            : commonPrefix(matches.map(completionText));
+        if (completed.length > input.trim().length) setInput(completed);
+    };
+
+    const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>): Promise<void> => {
+        if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            browseHistory(-1);
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            browseHistory(1);
+        } else if (e.key === 'Tab' && mode === 'text' && matches.length > 0) {
+            e.preventDefault();
+            complete();
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (await onSubmit(input)) {
+                setInput('');
+                setDraft('');
+                setHistoryIndex(null);
+            }
+        }
+    };
+
+    const renderHint = () => {
+        if (mode === 'hex') {
+            return <span>Bytes in hex, e.g. <code>4C 41 53 45 52 5F 4F 4E 0A</code> (nothing is appended)</span>;
+        }
+        if (problem) {
+            return <span className={styles.problem}>{problem}</span>;
+        }
+        if (spec) {
+            return (
+                <span>
+                    <code>{spec.name}{spec.argument ? `:${spec.argument}` : ''}</code> — {spec.description}
+                </span>
+            );
+        }
+        if (matches.length > 0) {
+            return (
+                <span>
+                    Tab to complete: {matches.map(match => <code key={match.name}>{match.name}</code>)}
+                </span>
+            );
+        }
+        return <span>Type a command; ↑/↓ for history, Tab to complete</span>;
+    };
+
+    return (
+        <div className={styles.commandLine}>
+            <div className={styles.inputRow}>
+                <ChevronRight size={16} className={styles.prompt} />
+                <input
+                    value={input}
+                    onChange={e => {
+                        setInput(e.target.value);
+                        setHistoryIndex(null);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    disabled={disabled}
+                    placeholder={disabled ? 'Connect to send commands' : mode === 'hex' ? 'Hex bytes' : 'Command'}
+                    spellCheck={false}
+                    autoComplete="off"
+                    aria-label="Command to send"
+                    className={styles.input}
+                />
+                <div className={styles.modeToggle} role="group" aria-label="Input mode">
+                    {(['text', 'hex'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onModeChange(option)}
+                            disabled={textOnly && option === 'hex'}
+                            title={textOnly && option === 'hex' ? 'Only the tab that controls the devices can send raw bytes' : undefined}
+                            aria-pressed={mode === option}
+                            className={`${styles.modeBtn} ${mode === option ? styles.modeActive : ''}`}
+                        >
+                            {option === 'text' ? 'Text' : 'Hex'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className={styles.hint}>{renderHint()}</div>
+        </div>
+    );
+};
+
+export default CommandLine;
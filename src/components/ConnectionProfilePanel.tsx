@@ -0,0 +1,346 @@
+import React, { useState } from 'react';
+import { Cable, Copy, Pencil, Plus, Trash2, X } from 'lucide-react';
+import styles from './ConnectionProfilePanel.module.css';
+import {
+    BAUD_RATES,
+    DEFAULT_PROFILE_ID,
+    LINE_ENDINGS,
+    formatPortInfo,
+    formatSerialOptions,
+    formatUsbId,
+    parseUsbId,
+    serialOptions,
+    validateConnectionProfile,
+    type ConnectionProfile
+} from '../device/connectionProfiles';
+import type { LineEnding } from '../device/protocol';
+import type { SerialOptions, SerialPortInfo } from '../types/serial';
+
+// The open serial link of the selected device
+export interface ConnectedPort {
+    info: SerialPortInfo;
+    options: SerialOptions;
+    lineEnding: LineEnding;
+}
+
+interface ConnectionProfilePanelProps {
+    profiles: ConnectionProfile[];
+    selected: ConnectionProfile;
+    port: ConnectedPort | null;
+    onSelect: (id: string) => void;
+    onSave: (profile: ConnectionProfile) => void;
+    onDelete: (id: string) => void;
+}
+
+// Numbers and USB ids stay text while typed, as in the safety panel
+interface Draft extends Omit<ConnectionProfile, 'baudRate' | 'bufferSize' | 'filters'> {
+    baudRate: string;
+    bufferSize: string;
+    filters: Array<{ vendor: string; product: string }>;
+}
+
+function toDraft(profile: ConnectionProfile): Draft {
+    return {
+        ...profile,
+        baudRate: String(profile.baudRate),
+        bufferSize: String(profile.bufferSize),
+        filters: profile.filters.map(filter => ({
+            vendor: filter.usbVendorId !== undefined ? formatUsbId(filter.usbVendorId) : '',
+            product: filter.usbProductId !== undefined ? formatUsbId(filter.usbProductId) : ''
+        }))
+    };
+}
+
+// Throws on a USB id that is not hex
+function fromDraft(draft: Draft): ConnectionProfile {
+    const filters = draft.filters.map(({ vendor, product }) => {
+        const usbVendorId = parseUsbId(vendor);
+        const usbProductId = product.trim() ? parseUsbId(product) : undefined;
+        if (usbVendorId === undefined || (product.trim() && usbProductId === undefined)) {
+            throw new Error('USB ids are up to four hex digits, e.g. 2341');
+        }
+        return usbProductId === undefined ? { usbVendorId } : { usbVendorId, usbProductId };
+    });
+    return {
+        ...draft,
+        name: draft.name.trim(),
+        baudRate: Number(draft.baudRate),
+        bufferSize: Number(draft.bufferSize),
+        filters
+    };
+}
+
+function describeFilters(profile: ConnectionProfile): string {
+    if (profile.filters.length === 0) return 'Any port';
+    return profile.filters
+        .map(filter => `${formatUsbId(filter.usbVendorId ?? 0)}:${filter.usbProductId !== undefined ? formatUsbId(filter.usbProductId) : 'any'}`)
+        .join(', ');
+}
+
+// Picks, edits and saves the serial settings and port filters used to connect
+const ConnectionProfilePanel: React.FC<ConnectionProfilePanelProps> = ({
+    profiles,
+    selected,
+    port,
+    onSelect,
+    onSave,
+    onDelete
+}) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const isDefault = selected.id === DEFAULT_PROFILE_ID;
+    const usbVendorId = port?.info.usbVendorId;
+    const usbProductId = port?.info.usbProductId;
+
+    const startEditing = (profile: ConnectionProfile): void => {
+        setDraft(toDraft(profile));
+        setError(null);
+    };
+
+    // The built-in profile is only ever copied
+    const duplicate = (): void => {
+        startEditing({ ...selected, id: crypto.randomUUID(), name: `${selected.name} copy` });
+    };
+
+    const update = (changes: Partial<Draft>): void => {
+        setDraft(prev => prev && { ...prev, ...changes });
+    };
+
+    const updateFilter = (index: number, changes: Partial<Draft['filters'][number]>): void => {
+        setDraft(prev => prev && {
+            ...prev,
+            filters: prev.filters.map((filter, i) => i === index ? { ...filter, ...changes } : filter)
+        });
+    };
+
+    const addFilter = (vendor = '', product = ''): void => {
+        setDraft(prev => prev && { ...prev, filters: [...prev.filters, { vendor, product }] });
+    };
+
+    const removeFilter = (index: number): void => {
+        setDraft(prev => prev && { ...prev, filters: prev.filters.filter((_, i) => i !== index) });
+    };
+
+    const handleDelete = (): void => {
+        if (window.confirm(`Delete the ${selected.name} profile?`)) onDelete(selected.id);
+    };
+
+    const save = (e: React.FormEvent): void => {
+        e.preventDefault();
+        if (!draft) return;
+        try {
+            const profile = fromDraft(draft);
+            const problem = validateConnectionProfile(profile);
+            if (problem) {
+                setError(problem);
+                return;
+            }
+            onSave(profile);
+            setDraft(null);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Cable size={18} /> Connection</h2>
+                <select
+                    value={selected.id}
+                    onChange={e => onSelect(e.target.value)}
+                    disabled={draft !== null}
+                    className={styles.select}
+                    aria-label="Connection profile"
+                >
+                    {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                </select>
+            </div>
+
+            {port && (
+                <div className={styles.port}>
+                    Selected device: {formatPortInfo(port.info)} · {formatSerialOptions(port.options)} · {LINE_ENDINGS[port.lineEnding]}
+                    {port.options.bufferSize !== undefined && ` · ${port.options.bufferSize} B buffer`}
+                </div>
+            )}
+
+            {!draft ? (
+                <>
+                    <div className={styles.summary}>
+                        <span>{formatSerialOptions(serialOptions(selected))}</span>
+                        <span>{LINE_ENDINGS[selected.lineEnding]} line ending</span>
+                        <span>{selected.bufferSize} B buffer</span>
+                        <span>Ports: {describeFilters(selected)}</span>
+                    </div>
+                    <div className={styles.controls}>
+                        {!isDefault && (
+                            <button onClick={() => startEditing(selected)} className={styles.button}>
+                                <Pencil size={14} /> Edit
+                            </button>
+                        )}
+                        <button onClick={duplicate} className={styles.button}>
+                            <Copy size={14} /> {isDefault ? 'New profile from default' : 'Duplicate'}
+                        </button>
+                        {!isDefault && (
+                            <button onClick={handleDelete} className={styles.button}>
+                                <Trash2 size={14} /> Delete
+                            </button>
+                        )}
+                    </div>
+                    <div className={styles.note}>Profiles apply to the next connection; open ports keep their settings.</div>
+                </>
+            ) : (
+                <form onSubmit={save}>
+                    <div className={styles.grid}>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Name</span>
+                            <input
+                                value={draft.name}
+                                onChange={e => update({ name: e.target.value })}
+                                className={styles.input}
+                            />
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Baud rate</span>
+                            <input
+                                type="number"
+                                min={1}
+                                list="connection-baud-rates"
+                                value={draft.baudRate}
+                                onChange={e => update({ baudRate: e.target.value })}
+                                className={styles.input}
+                            />
+                            <datalist id="connection-baud-rates">
+                                {BAUD_RATES.map(rate => <option key={rate} value={rate} />)}
+                            </datalist>
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Data bits</span>
+                            <select
+                                value={draft.dataBits}
+                                onChange={e => update({ dataBits: Number(e.target.value) as Draft['dataBits'] })}
+                                className={styles.input}
+                            >
+                                <option value={8}>8</option>
+                                <option value={7}>7</option>
+                            </select>
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Stop bits</span>
+                            <select
+                                value={draft.stopBits}
+                                onChange={e => update({ stopBits: Number(e.target.value) as Draft['stopBits'] })}
+                                className={styles.input}
+                            >
+                                <option value={1}>1</option>
+                                <option value={2}>2</option>
+                            </select>
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Parity</span>
+                            <select
+                                value={draft.parity}
+                                onChange={e => update({ parity: e.target.value as Draft['parity'] })}
+                                className={styles.input}
+                            >
+                                <option value="none">None</option>
+                                <option value="even">Even</option>
+                                <option value="odd">Odd</option>
+                            </select>
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Flow control</span>
+                            <select
+                                value={draft.flowControl}
+                                onChange={e => update({ flowControl: e.target.value as Draft['flowControl'] })}
+                                className={styles.input}
+                            >
+                                <option value="none">None</option>
+                                <option value="hardware">Hardware (RTS/CTS)</option>
+                            </select>
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Buffer size (bytes)</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={draft.bufferSize}
+                                onChange={e => update({ bufferSize: e.target.value })}
+                                className={styles.input}
+                            />
+                        </label>
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Line ending</span>
+                            <select
+                                value={draft.lineEnding}
+                                onChange={e => update({ lineEnding: e.target.value as LineEnding })}
+                                className={styles.input}
+                            >
+                                {(Object.keys(LINE_ENDINGS) as LineEnding[]).map(ending => (
+                                    <option key={ending} value={ending}>{LINE_ENDINGS[ending]}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    <fieldset className={styles.filters}>
+                        <legend className={styles.fieldLabel}>Port picker filters (USB vendor / product id, hex)</legend>
+                        {draft.filters.length === 0 && <div className={styles.note}>No filters: the picker lists every serial port.</div>}
+                        {draft.filters.map((filter, index) => (
+                            <div key={index} className={styles.filterRow}>
+                                <input
+                                    value={filter.vendor}
+                                    onChange={e => updateFilter(index, { vendor: e.target.value })}
+                                    placeholder="Vendor, e.g. 2341"
+                                    className={styles.input}
+                                    aria-label={`Filter ${index + 1} vendor id`}
+                                />
+                                <input
+                                    value={filter.product}
+                                    onChange={e => updateFilter(index, { product: e.target.value })}
+                                    placeholder="Product (any)"
+                                    className={styles.input}
+                                    aria-label={`Filter ${index + 1} product id`}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => removeFilter(index)}
+                                    className={styles.iconButton}
+                                    aria-label={`Remove filter ${index + 1}`}
+                                >
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        ))}
+                        <div className={styles.controls}>
+                            <button type="button" onClick={() => addFilter()} className={styles.button}>
+                                <Plus size={14} /> Add filter
+                            </button>
+                            {usbVendorId !== undefined && (
+                                <button
+                                    type="button"
+                                    onClick={() => addFilter(
+                                        formatUsbId(usbVendorId),
+                                        usbProductId !== undefined ? formatUsbId(usbProductId) : ''
+                                    )}
+                                    className={styles.button}
+                                >
+                                    <Plus size={14} /> Add the selected device
+                                </button>
+                            )}
+                        </div>
+                    </fieldset>
+
+                    {error && <div className={styles.error} role="alert">{error}</div>}
+                    <div className={styles.controls}>
+                        <button type="submit" className={`${styles.button} ${styles.primary}`}>Save profile</button>
+                        <button type="button" onClick={() => setDraft(null)} className={styles.button}>Cancel</button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default ConnectionProfilePanel;
@@ -0,0 +1,267 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownToLine, Pause } from 'lucide-react';
+import styles from './DataConsole.module.css';
+import type { ConsoleLog } from '../console/ConsoleLog';
+import {
+    CONSOLE_ENTRY_TYPES,
+    DEFAULT_CONSOLE_FILTER,
+    buildRows,
+    compileSearch,
+    expandedText,
+    highlightParts,
+    type ConsoleEntryType,
+    type ConsoleFilter,
+    type ConsoleRow,
+    type DirectionFilter
+} from '../console/consoleFilter';
+import { useConsoleEntries } from '../hooks/useConsoleLog';
+
+interface DataConsoleProps {
+    consoleLog: ConsoleLog;
+    isConnected: boolean;
+    // Connected devices by id, with their current names
+    devices: Map<string, string>;
+    onClear: () => void;
+}
+
+// Must match .entry in DataConsole.module.css
+const LINE_HEIGHT = 20;
+const ROW_GAP = 4;
+// Rows rendered beyond the visible ones, so fast scrolling shows no gaps
+const OVERSCAN = 10;
+// Closer than this to the bottom counts as following
+const FOLLOW_THRESHOLD = 24;
+
+const TYPE_LABELS: Record<ConsoleEntryType, string> = {
+    info: 'Info',
+    success: 'Success',
+    warning: 'Warning',
+    error: 'Error',
+    json: 'JSON'
+};
+
+const DIRECTION_LABELS: Record<DirectionFilter, string> = {
+    all: 'All traffic',
+    sent: 'Sent',
+    received: 'Received',
+    app: 'App messages'
+};
+
+// Index of the first row whose bottom is below `top`
+function firstVisible(offsets: number[], top: number): number {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (offsets[middle + 1] <= top) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+// The app's log and device traffic, filtered, searchable and virtualised:
+// only the rows in view are rendered, so it can hold the full history
+const DataConsole: React.FC<DataConsoleProps> = ({ consoleLog, isConnected, devices, onClear }) => {
+    const entries = useConsoleEntries(consoleLog);
+    const [filter, setFilter] = useState<ConsoleFilter>(DEFAULT_CONSOLE_FILTER);
+    const [expandJson, setExpandJson] = useState<boolean>(false);
+    const [follow, setFollow] = useState<boolean>(true);
+    const [viewport, setViewport] = useState({ top: 0, height: 0 });
+    const viewportRef = useRef<HTMLDivElement>(null);
+
+    const updateFilter = (changes: Partial<ConsoleFilter>): void => setFilter(prev => ({ ...prev, ...changes }));
+
+    // Every device that logged something or is connected now, by current name
+    const sources = useMemo(() => {
+        const names = new Map<string, string>();
+        entries.forEach(entry => {
+            if (entry.source) names.set(entry.source.id, entry.source.name);
+        });
+        devices.forEach((name, id) => names.set(id, name));
+        return names;
+    }, [entries, devices]);
+
+    const search = useMemo(() => compileSearch(filter.search, filter.regex), [filter.search, filter.regex]);
+    const pattern = search.ok ? search.pattern : null;
+    const rows = useMemo(() => buildRows(entries, filter, pattern), [entries, filter, pattern]);
+
+    const text = (row: ConsoleRow): string => expandJson ? expandedText(row.entry) : row.entry.message;
+
+    // Top of every row, plus the total height at the end
+    const offsets = useMemo(() => {
+        const tops = [0];
+        let top = 0;
+        for (const row of rows) {
+            const lines = expandJson && row.entry.type === 'json' ? expandedText(row.entry).split('\n').length : 1;
+            top += lines * LINE_HEIGHT + ROW_GAP;
+            tops.push(top);
+        }
+        return tops;
+    }, [rows, expandJson]);
+
+    const start = Math.max(0, firstVisible(offsets, viewport.top) - OVERSCAN);
+    const end = Math.min(rows.length, firstVisible(offsets, viewport.top + viewport.height) + 1 + OVERSCAN);
+
+    const measure = (): void => {
+        const element = viewportRef.current;
+        if (element) setViewport({ top: element.scrollTop, height: element.clientHeight });
+    };
+
+    // Stick to the newest line while following
+    useLayoutEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+        if (follow) element.scrollTop = element.scrollHeight;
+        setViewport({ top: element.scrollTop, height: element.clientHeight });
+    }, [follow, offsets]);
+
+    // Scrolling up pauses; scrolling back to the bottom follows again
+    const handleScroll = (): void => {
+        const element = viewportRef.current;
+        if (!element) return;
+        const atBottom = element.scrollHeight - element.scrollTop - element.clientHeight < FOLLOW_THRESHOLD;
+        if (atBottom !== follow) setFollow(atBottom);
+        measure();
+    };
+
+    const toggleType = (type: ConsoleEntryType): void => {
+        updateFilter({
+            types: filter.types.includes(type) ? filter.types.filter(t => t !== type) : [...filter.types, type]
+        });
+    };
+
+    return (
+        <>
+            <div className={styles.header}>
+                <div className={styles.titleContainer}>
+                    <h2 className={styles.title}>Data Console</h2>
+                    <span className={`${styles.badge} ${isConnected ? styles.badgeOnline : styles.badgeOffline}`}>
+                        {isConnected ? 'ONLINE' : 'OFFLINE'}
+                    </span>
+                </div>
+                <div className={styles.actions}>
+                    {sources.size > 1 && (
+                        <select
+                            value={filter.source}
+                            onChange={e => updateFilter({ source: e.target.value })}
+                            className={styles.select}
+                            aria-label="Show console messages from"
+                        >
+                            <option value="">All devices</option>
+                            {[...sources].map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                        </select>
+                    )}
+                    <button onClick={onClear} className={styles.clearBtn}>
+                        Clear Console
+                    </button>
+                </div>
+            </div>
+
+            <div className={styles.toolbar}>
+                <div className={styles.search}>
+                    <input
+                        type="search"
+                        value={filter.search}
+                        onChange={e => updateFilter({ search: e.target.value })}
+                        placeholder={filter.regex ? 'Regular expression' : 'Search'}
+                        className={`${styles.searchInput} ${search.ok ? '' : styles.invalid}`}
+                        aria-label="Search the console"
+                        aria-invalid={!search.ok}
+                    />
+                    <button
+                        onClick={() => updateFilter({ regex: !filter.regex })}
+                        className={`${styles.toggle} ${filter.regex ? styles.active : ''}`}
+                        aria-pressed={filter.regex}
+                        title="Search with a regular expression"
+                    >
+                        .*
+                    </button>
+                </div>
+                <div className={styles.chips} role="group" aria-label="Message types">
+                    {CONSOLE_ENTRY_TYPES.map(type => (
+                        <button
+                            key={type}
+                            onClick={() => toggleType(type)}
+                            className={`${styles.toggle} ${filter.types.includes(type) ? styles.active : ''}`}
+                            aria-pressed={filter.types.includes(type)}
+                        >
+                            {TYPE_LABELS[type]}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={filter.direction}
+                    onChange={e => updateFilter({ direction: e.target.value as DirectionFilter })}
+                    className={styles.select}
+                    aria-label="Direction"
+                >
+                    {(Object.keys(DIRECTION_LABELS) as DirectionFilter[]).map(direction => (
+                        <option key={direction} value={direction}>{DIRECTION_LABELS[direction]}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => updateFilter({ collapseHeartbeats: !filter.collapseHeartbeats })}
+                    className={`${styles.toggle} ${filter.collapseHeartbeats ? styles.active : ''}`}
+                    aria-pressed={filter.collapseHeartbeats}
+                >
+                    Collapse heartbeats
+                </button>
+                <button
+                    onClick={() => setExpandJson(!expandJson)}
+                    className={`${styles.toggle} ${expandJson ? styles.active : ''}`}
+                    aria-pressed={expandJson}
+                >
+                    Expand JSON
+                </button>
+                <button
+                    onClick={() => setFollow(!follow)}
+                    className={`${styles.toggle} ${follow ? styles.active : ''}`}
+                    aria-pressed={follow}
+                    title={follow ? 'Pause autoscroll' : 'Follow new lines'}
+                >
+                    {follow ? <ArrowDownToLine size={12} /> : <Pause size={12} />} {follow ? 'Following' : 'Paused'}
+                </button>
+            </div>
+            {!search.ok && <div className={styles.searchError} role="alert">Invalid expression: {search.error}</div>}
+
+            <div
+                ref={viewportRef}
+                onScroll={handleScroll}
+                className={styles.console}
+                role="log"
+                aria-live="off"
+                aria-label="Data console"
+                tabIndex={0}
+            >
+                <div className={styles.content} style={{ height: offsets[rows.length] }}>
+                    <div className={styles.rows} style={{ top: offsets[start] }}>
+                        {rows.slice(start, end).map(row => (
+                            <div key={row.entry.id} className={styles.entry}>
+                                <span className={styles.timestamp}>
+                                    [{row.entry.timestamp.toLocaleTimeString()}]
+                                </span>{' '}
+                                {row.entry.source && sources.size > 1 && (
+                                    <span className={styles.source}>{sources.get(row.entry.source.id)}</span>
+                                )}
+                                {row.count > 1 && <span className={styles.count}>×{row.count}</span>}
+                                <span className={styles[row.entry.type]}>
+                                    {highlightParts(text(row), pattern).map((part, index) => part.match
+                                        ? <mark key={index} className={styles.match}>{part.text}</mark>
+                                        : part.text)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            <div className={styles.footer}>
+                {rows.length.toLocaleString()} of {entries.length.toLocaleString()} lines
+            </div>
+        </>
+    );
+};
+
+export default DataConsole;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Power, PowerOff, Unplug } from 'lucide-react';
+import styles from './DeviceList.module.css';
+import type { DeviceSession, DeviceSnapshot } from '../device/DeviceSession';
+import type { LinkHealth } from '../device/LinkHealthMonitor';
+import { formatUptime } from '../utils/format';
+
+interface DeviceListProps {
+    sessions: DeviceSession[];
+    snapshots: Record<string, DeviceSnapshot>;
+    linkHealth: Record<string, LinkHealth>;
+    selectedId: string | null;
+    maxPwm: number;
+    // Emergency stop latched: nothing may be switched on
+    locked: boolean;
+    // An exposure run or self-test holds the switches
+    switchLocked: boolean;
+    // The brightness is held by one of those, a sequence or a calibration run
+    levelLocked: boolean;
+    onSelect: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onToggle: (session: DeviceSession, on: boolean) => void;
+    onDisconnect: (id: string) => void;
+    onAll: (on: boolean) => void;
+    onSetAll: (brightness: number) => void;
+}
+
+// Every connected controller with its own stats, plus group actions
+const DeviceList: React.FC<DeviceListProps> = ({
+    sessions,
+    snapshots,
+    linkHealth,
+    selectedId,
+    maxPwm,
+    locked,
+    switchLocked,
+    levelLocked,
+    onSelect,
+    onRename,
+    onToggle,
+    onDisconnect,
+    onAll,
+    onSetAll
+}) => {
+    const [groupLevel, setGroupLevel] = useState<number>(50);
+
+    const commitName = (id: string, input: HTMLInputElement): void => {
+        const name = input.value.trim();
+        if (name && name !== snapshots[id]?.name) {
+            onRename(id, name);
+        } else {
+            input.value = snapshots[id]?.name ?? '';
+        }
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}>Devices</h2>
+                <span className={styles.count}>{sessions.length} connected</span>
+            </div>
+
+            <div className={styles.groupBar}>
+                <button onClick={() => onAll(true)} disabled={locked || switchLocked} className={styles.button}>
+                    <Power size={14} /> All on
+                </button>
+                <button onClick={() => onAll(false)} disabled={switchLocked} className={styles.button}>
+                    <PowerOff size={14} /> All off
+                </button>
+                <label className={styles.groupLevel}>
+                    Set all to
+                    <input
+                        type="number"
+                        min={0}
+                        max={maxPwm}
+                        value={groupLevel}
+                        onChange={e => setGroupLevel(Number(e.target.value))}
+                        className={styles.input}
+                    />
+                    %
+                </label>
+                <button onClick={() => onSetAll(Math.max(0, Math.min(groupLevel, maxPwm)))} disabled={levelLocked} className={styles.button}>
+                    Apply
+                </button>
+            </div>
+
+            <ul className={styles.list}>
+                {sessions.map(session => {
+                    const snapshot = snapshots[session.id] ?? session.snapshot;
+                    const selected = session.id === selectedId;
+                    const health = linkHealth[session.id];
+                    return (
+                        <li
+                            key={session.id}
+                            className={`${styles.device} ${selected ? styles.selected : ''}`}
+                            onClick={() => onSelect(session.id)}
+                            onKeyDown={e => {
+                                // Keys typed into the name field or the buttons are theirs
+                                if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+                                    e.preventDefault();
+                                    onSelect(session.id);
+                                }
+                            }}
+                            tabIndex={0}
+                            aria-current={selected}
+                        >
+                            <div className={styles.identity}>
+                                <input
+                                    key={snapshot.name}
+                                    defaultValue={snapshot.name}
+                                    onClick={e => e.stopPropagation()}
+                                    onBlur={e => commitName(session.id, e.currentTarget)}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') e.currentTarget.blur();
+                                    }}
+                                    className={styles.name}
+                                    aria-label="Device name"
+                                />
+                                <span className={styles.key}>{session.key}</span>
+                            </div>
+                            <div className={styles.stats}>
+                                <span>v{snapshot.deviceStats.firmwareVersion}</span>
+                                <span>up {formatUptime(snapshot.deviceStats.uptime)}</span>
+                                <span>{(snapshot.deviceStats.freeHeap / 1024).toLocaleString()} kB free</span>
+                                {health && health.status !== 'ok' && (
+                                    <span className={styles.issues} title={health.reasons.join('; ')}>link {health.status}</span>
+                                )}
+                                {snapshot.parseIssues.unknown + snapshot.parseIssues.malformed > 0 && (
+                                    <span className={styles.issues}>
+                                        {snapshot.parseIssues.unknown + snapshot.parseIssues.malformed} unparsed lines
+                                    </span>
+                                )}
+                            </div>
+                            <span className={`${styles.badge} ${snapshot.laserOn ? styles.badgeOn : ''}`}>
+                                {snapshot.laserOn ? `ON ${snapshot.laserBrightness}%` : 'OFF'}
+                            </span>
+                            <div className={styles.actions} onClick={e => e.stopPropagation()}>
+                                <button
+                                    onClick={() => onToggle(session, !snapshot.laserOn)}
+                                    disabled={(locked && !snapshot.laserOn) || switchLocked}
+                                    aria-busy={snapshot.pending.laser}
+                                    aria-label={`${snapshot.laserOn ? 'Turn off' : 'Turn on'} ${snapshot.name}`}
+                                    className={styles.button}
+                                >
+                                    {snapshot.laserOn ? 'Turn off' : 'Turn on'}
+                                </button>
+                                <button
+                                    onClick={() => onDisconnect(session.id)}
+                                    className={styles.iconBtn}
+                                    aria-label={`Disconnect ${snapshot.name}`}
+                                >
+                                    <Unplug size={14} />
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default DeviceList;
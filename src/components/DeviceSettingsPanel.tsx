@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import { Download, RefreshCw, Save, Settings2, Undo2, Upload } from 'lucide-react';
+import styles from './DeviceSettingsPanel.module.css';
+import { CONFIG_FIELDS, type NumericConfigKey } from '../device/deviceConfig';
+import type { DeviceConfig } from '../device/protocol';
+import type { DeviceConfigStatus } from '../hooks/useDeviceConfig';
+
+interface DeviceSettingsPanelProps {
+    deviceName: string | null;
+    status: DeviceConfigStatus;
+    config: DeviceConfig | null;
+    draft: DeviceConfig;
+    changes: Array<keyof DeviceConfig>;
+    error: string | undefined;
+    onRead: () => void;
+    onChange: (changes: DeviceConfig) => void;
+    onSave: () => void;
+    onRevert: () => void;
+    onBackup: () => void;
+    onRestore: (file: File) => void;
+}
+
+// Reads, edits and backs up the configuration stored on the selected device
+const DeviceSettingsPanel: React.FC<DeviceSettingsPanelProps> = ({
+    deviceName,
+    status,
+    config,
+    draft,
+    changes,
+    error,
+    onRead,
+    onChange,
+    onSave,
+    onRevert,
+    onBackup,
+    onRestore
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const busy = status === 'reading' || status === 'saving';
+
+    const handleSave = (): void => {
+        // A board that boots with the beam on needs a deliberate yes
+        if (changes.includes('boot_laser_state') && draft.boot_laser_state
+            && !window.confirm('The laser will switch on by itself whenever the board powers up. Save anyway?')) {
+            return;
+        }
+        onSave();
+    };
+
+    const handleRestore = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        if (file) onRestore(file);
+        e.target.value = '';
+    };
+
+    const numberField = (key: NumericConfigKey) => {
+        const { label, unit, min, max } = CONFIG_FIELDS[key];
+        const value = draft[key];
+        return (
+            <label key={key} className={styles.field}>
+                <span className={styles.fieldLabel}>{label}</span>
+                <span className={styles.inputRow}>
+                    <input
+                        type="number"
+                        min={min}
+                        max={max}
+                        value={value === undefined || Number.isNaN(value) ? '' : value}
+                        // An emptied field stays NaN so validation reports it
+                        onChange={e => onChange({ [key]: e.target.valueAsNumber })}
+                        disabled={busy}
+                        className={`${styles.input} ${changes.includes(key) ? styles.changed : ''}`}
+                    />
+                    {unit}
+                </span>
+            </label>
+        );
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Settings2 size={18} /> Device Settings</h2>
+                <span className={styles.device}>{deviceName ?? 'No device'}</span>
+            </div>
+
+            {!config ? (
+                <div className={styles.summary}>
+                    {status === 'unsupported'
+                        ? 'This firmware did not answer the configuration request; it may be too old to store settings.'
+                        : 'Read the settings the controller keeps across power cycles to review or change them.'}
+                </div>
+            ) : (
+                <>
+                    <div className={styles.grid}>
+                        {config.default_brightness !== undefined && numberField('default_brightness')}
+                        {config.heartbeat_interval_ms !== undefined && numberField('heartbeat_interval_ms')}
+                        {config.pwm_frequency_hz !== undefined && numberField('pwm_frequency_hz')}
+                        {config.boot_laser_state !== undefined && (
+                            <label className={styles.field}>
+                                <span className={styles.fieldLabel}>Laser at power-up</span>
+                                <select
+                                    value={draft.boot_laser_state ? 'on' : 'off'}
+                                    onChange={e => onChange({ boot_laser_state: e.target.value === 'on' })}
+                                    disabled={busy}
+                                    className={`${styles.input} ${changes.includes('boot_laser_state') ? styles.changed : ''}`}
+                                >
+                                    <option value="off">Off</option>
+                                    <option value="on">On</option>
+                                </select>
+                            </label>
+                        )}
+                    </div>
+                    {config.pwm_frequency_hz === undefined && (
+                        <div className={styles.note}>This firmware runs the laser at a fixed PWM frequency.</div>
+                    )}
+                    {error && <div className={styles.error} role="alert">{error}</div>}
+                    {draft.boot_laser_state && (
+                        <div className={styles.warning}>The laser switches on as soon as the board powers up.</div>
+                    )}
+                </>
+            )}
+
+            <div className={styles.controls}>
+                <button onClick={onRead} disabled={!deviceName || busy} className={styles.button}>
+                    <RefreshCw size={14} /> {status === 'reading' ? 'Reading…' : 'Read'}
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!config || busy || changes.length === 0 || !!error}
+                    className={`${styles.button} ${styles.primary}`}
+                >
+                    <Save size={14} /> {status === 'saving' ? 'Saving…' : 'Save to device'}
+                </button>
+                <button onClick={onRevert} disabled={!config || busy || changes.length === 0} className={styles.button}>
+                    <Undo2 size={14} /> Revert
+                </button>
+                <button onClick={onBackup} disabled={!config || busy} className={styles.button}>
+                    <Download size={14} /> Backup
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={!config || busy} className={styles.button}>
+                    <Upload size={14} /> Restore
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleRestore} hidden />
+            </div>
+        </div>
+    );
+};
+
+export default DeviceSettingsPanel;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { OctagonX } from 'lucide-react';
+import styles from './EmergencyStop.module.css';
+
+interface EmergencyStopProps {
+    stopped: boolean;
+    onStop: () => void;
+}
+
+// Always-visible E-STOP button, pinned to the corner of the viewport
+const EmergencyStop: React.FC<EmergencyStopProps> = ({ stopped, onStop }) => (
+    <button
+        onClick={onStop}
+        className={`${styles.eStop} ${stopped ? styles.latched : ''}`}
+        title="Emergency stop (Esc)"
+        aria-label={stopped ? 'Emergency stop (active)' : 'Emergency stop'}
+        aria-keyshortcuts="Escape"
+    >
+        <OctagonX size={28} />
+        <span className={styles.label}>E-STOP</span>
+        <span className={styles.hint}>Esc</span>
+    </button>
+);
+
+export default EmergencyStop;
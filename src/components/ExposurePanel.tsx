@@ -0,0 +1,140 @@
+import React from 'react';
+import { Square, Timer, Zap } from 'lucide-react';
+import styles from './ExposurePanel.module.css';
+import { summarizeJitter, validateExposurePlan, type ExposurePlan, type PulseResult } from '../exposure/exposure';
+import type { ExposureProgress } from '../exposure/ExposureRunner';
+
+interface ExposurePanelProps {
+    plan: ExposurePlan;
+    onPlanChange: (plan: ExposurePlan) => void;
+    running: boolean;
+    progress: ExposureProgress | null;
+    results: PulseResult[];
+    disabled: boolean;
+    maxPwm: number;
+    onFire: () => void;
+    onStop: () => void;
+}
+
+function formatSeconds(ms: number): string {
+    return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatDeviation(ms: number): string {
+    return `${ms >= 0 ? '+' : ''}${Math.round(ms)} ms`;
+}
+
+// Timed single exposure or pulse train with countdown and measured on-times
+const ExposurePanel: React.FC<ExposurePanelProps> = ({
+    plan,
+    onPlanChange,
+    running,
+    progress,
+    results,
+    disabled,
+    maxPwm,
+    onFire,
+    onStop
+}) => {
+    const pulseTrain = plan.pulses > 1;
+    const problem = validateExposurePlan(plan) ?? (plan.level > maxPwm ? `Brightness is above the ${maxPwm}% safety limit` : undefined);
+    const jitter = summarizeJitter(results);
+
+    const update = (changes: Partial<ExposurePlan>): void => {
+        onPlanChange({ ...plan, ...changes });
+    };
+
+    const numberField = (label: string, key: keyof ExposurePlan, min: number) => (
+        <label className={styles.field}>
+            <span className={styles.fieldLabel}>{label}</span>
+            <input
+                type="number"
+                min={min}
+                value={plan[key]}
+                disabled={running}
+                onChange={e => update({ [key]: Number(e.target.value) })}
+                className={styles.input}
+            />
+        </label>
+    );
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <Timer size={18} />
+                <span className={styles.title}>Timed Exposure</span>
+                <div className={styles.modeToggle}>
+                    <button
+                        onClick={() => update({ pulses: 1 })}
+                        disabled={running}
+                        className={`${styles.modeBtn} ${!pulseTrain ? styles.modeActive : ''}`}
+                    >
+                        Single
+                    </button>
+                    <button
+                        onClick={() => update({ pulses: Math.max(2, plan.pulses), periodMs: Math.max(plan.periodMs, plan.onMs * 2) })}
+                        disabled={running}
+                        className={`${styles.modeBtn} ${pulseTrain ? styles.modeActive : ''}`}
+                    >
+                        Pulse train
+                    </button>
+                </div>
+            </div>
+
+            <div className={styles.grid}>
+                {numberField('Brightness (%)', 'level', 0)}
+                {numberField('On-time (ms)', 'onMs', 1)}
+                {pulseTrain && numberField('Pulses', 'pulses', 2)}
+                {pulseTrain && numberField('Period (ms)', 'periodMs', 1)}
+            </div>
+
+            {problem && !running && <p className={styles.error}>{problem}</p>}
+
+            <div className={styles.actions}>
+                {running ? (
+                    <button onClick={onStop} className={styles.stopBtn}>
+                        <Square size={14} /> Stop
+                    </button>
+                ) : (
+                    <button onClick={onFire} disabled={disabled || problem !== undefined} className={styles.fireBtn}>
+                        <Zap size={14} /> Fire
+                    </button>
+                )}
+                {progress && (
+                    <div className={styles.countdown} aria-live="polite">
+                        <span className={progress.firing ? styles.firing : ''}>
+                            {progress.firing ? 'ON' : 'OFF'} {formatSeconds(progress.phaseRemainingMs)}
+                        </span>
+                        {progress.pulses > 1 && <span>Pulse {progress.pulse}/{progress.pulses}</span>}
+                        <span>Total {formatSeconds(progress.remainingMs)}</span>
+                    </div>
+                )}
+            </div>
+
+            {results.length > 0 && (
+                <div className={styles.results}>
+                    <div className={styles.resultsHeader}>
+                        <span>Measured on-time (device clock)</span>
+                        {jitter && (
+                            <span>
+                                Jitter {formatDeviation(jitter.meanMs)} mean, {formatDeviation(jitter.minMs)} … {formatDeviation(jitter.maxMs)}
+                            </span>
+                        )}
+                    </div>
+                    <div className={styles.pulses}>
+                        {results.map(result => (
+                            <span key={result.index} className={styles.pulse}>
+                                #{result.index + 1}{' '}
+                                {result.measuredMs === undefined
+                                    ? 'n/a'
+                                    : `${result.measuredMs} ms (${formatDeviation(result.measuredMs - result.requestedMs)})`}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExposurePanel;
@@ -0,0 +1,212 @@
+import React, { useRef } from 'react';
+import { Download, Gamepad2, Music, Plus, Radar, Trash2, Upload, X } from 'lucide-react';
+import styles from './InputMappingPanel.module.css';
+import {
+    CURVE_LABELS,
+    DEFAULT_BRIGHTNESS_ACTION,
+    allowsMomentary,
+    describeSource,
+    type BrightnessCurve,
+    type InputMapping,
+    type MappingAction
+} from '../input/inputMapping';
+import type { LearnTarget } from '../hooks/useInputMapping';
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+interface InputMappingPanelProps {
+    mappings: InputMapping[];
+    learning: LearnTarget | null;
+    midiSupported: boolean;
+    midiEnabled: boolean;
+    midiDevices: string[];
+    gamepads: string[];
+    onEnableMidi: () => void;
+    // Without an id the learned control gets a new mapping
+    onLearn: (mappingId?: string) => void;
+    onCancelLearn: () => void;
+    onChange: (mapping: InputMapping) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+}
+
+type ActionKind = MappingAction['kind'];
+
+const ACTION_OPTIONS: { value: string; label: string }[] = [
+    { value: 'brightness', label: 'Brightness' },
+    { value: 'toggle', label: 'Laser on/off' },
+    { value: 'preset:1', label: 'Preset 1' },
+    { value: 'preset:2', label: 'Preset 2' },
+    { value: 'preset:3', label: 'Preset 3' },
+    { value: 'preset:4', label: 'Preset 4' },
+    { value: 'emergency_stop', label: 'Emergency stop' }
+];
+
+function actionValue(action: MappingAction): string {
+    return action.kind === 'preset' ? `preset:${action.preset}` : action.kind;
+}
+
+function actionFromValue(value: string): MappingAction {
+    const [kind, preset] = value.split(':') as [ActionKind, string | undefined];
+    switch (kind) {
+        case 'brightness':
+            return DEFAULT_BRIGHTNESS_ACTION;
+        case 'preset':
+            return { kind: 'preset', preset: Number(preset) };
+        case 'toggle':
+        case 'emergency_stop':
+            return { kind };
+    }
+}
+
+function clampLevel(value: number): number {
+    return Math.max(PWM_MIN, Math.min(PWM_MAX, Math.round(value) || 0));
+}
+
+// Binds MIDI controls and gamepad inputs to brightness, the switch, presets
+// and the emergency stop
+const InputMappingPanel: React.FC<InputMappingPanelProps> = ({
+    mappings,
+    learning,
+    midiSupported,
+    midiEnabled,
+    midiDevices,
+    gamepads,
+    onEnableMidi,
+    onLearn,
+    onCancelLearn,
+    onChange,
+    onDelete,
+    onImport,
+    onExport
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    const connected = [...midiDevices, ...gamepads];
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Gamepad2 size={18} /> External Controllers</h2>
+                <div className={styles.actions}>
+                    <button onClick={onExport} disabled={mappings.length === 0} className={styles.button} title="Export JSON">
+                        <Download size={14} />
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className={styles.button} title="Import JSON">
+                        <Upload size={14} />
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+                </div>
+            </div>
+
+            <div className={styles.devices}>
+                {connected.length > 0
+                    ? connected.join(' · ')
+                    : 'No controllers seen yet. Gamepads appear once a button on them is pressed.'}
+            </div>
+
+            <div className={styles.controls}>
+                {midiSupported && !midiEnabled && (
+                    <button onClick={onEnableMidi} className={styles.button}>
+                        <Music size={14} /> Enable MIDI
+                    </button>
+                )}
+                {learning ? (
+                    <>
+                        <span className={styles.learning} role="status">
+                            <Radar size={14} /> Move a knob or stick, or press a key or button…
+                        </span>
+                        <button onClick={onCancelLearn} className={styles.button}>
+                            <X size={14} /> Cancel
+                        </button>
+                    </>
+                ) : (
+                    <button onClick={() => onLearn()} className={`${styles.button} ${styles.primary}`}>
+                        <Plus size={14} /> Learn new mapping
+                    </button>
+                )}
+            </div>
+
+            {mappings.length > 0 && (
+                <ul className={styles.mappings}>
+                    {mappings.map(mapping => {
+                        const { action } = mapping;
+                        const relearning = learning?.mappingId === mapping.id;
+                        return (
+                            <li key={mapping.id} className={styles.mapping}>
+                                <span className={styles.source} title={mapping.source.device}>
+                                    {relearning ? 'Waiting for input…' : describeSource(mapping.source)}
+                                </span>
+                                <select
+                                    value={actionValue(action)}
+                                    onChange={e => onChange({ ...mapping, action: actionFromValue(e.target.value) })}
+                                    className={styles.select}
+                                    aria-label="Action"
+                                >
+                                    {ACTION_OPTIONS
+                                        .filter(option => option.value === 'brightness' || allowsMomentary(mapping.source))
+                                        .map(option => (
+                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                </select>
+                                {action.kind === 'brightness' && (
+                                    <>
+                                        <label className={styles.field}>
+                                            From
+                                            <input
+                                                type="number"
+                                                min={PWM_MIN}
+                                                max={PWM_MAX}
+                                                value={action.min}
+                                                onChange={e => onChange({ ...mapping, action: { ...action, min: clampLevel(Number(e.target.value)) } })}
+                                                className={styles.input}
+                                            />
+                                        </label>
+                                        <label className={styles.field}>
+                                            to
+                                            <input
+                                                type="number"
+                                                min={PWM_MIN}
+                                                max={PWM_MAX}
+                                                value={action.max}
+                                                onChange={e => onChange({ ...mapping, action: { ...action, max: clampLevel(Number(e.target.value)) } })}
+                                                className={styles.input}
+                                            />
+                                            %
+                                        </label>
+                                        <select
+                                            value={action.curve}
+                                            onChange={e => onChange({ ...mapping, action: { ...action, curve: e.target.value as BrightnessCurve } })}
+                                            className={styles.select}
+                                            aria-label="Curve"
+                                        >
+                                            {(Object.keys(CURVE_LABELS) as BrightnessCurve[]).map(curve => (
+                                                <option key={curve} value={curve}>{CURVE_LABELS[curve]}</option>
+                                            ))}
+                                        </select>
+                                    </>
+                                )}
+                                <div className={styles.rowActions}>
+                                    <button onClick={() => onLearn(mapping.id)} disabled={!!learning} className={styles.button}>
+                                        <Radar size={14} /> Relearn
+                                    </button>
+                                    <button onClick={() => onDelete(mapping.id)} className={styles.button} title="Delete mapping">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default InputMappingPanel;
@@ -1,459 +1,468 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ChevronDown, ChevronUp, BarChart, Zap } from 'lucide-react';
+import React, { useState, useMemo, useRef } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, BarChart, Zap } from 'lucide-react';
 import styles from './LaserController.module.css';
-
-interface SerialPort {
-    open(options: SerialOptions): Promise<void>;
-    close(): Promise<void>;
-    readable?: ReadableStream<Uint8Array>;
-    writable?: WritableStream<Uint8Array>;
-    getInfo(): SerialPortInfo;
-}
-
-interface SerialOptions {
-    baudRate: number;
-    dataBits?: number;
-    stopBits?: number;
-    parity?: 'none' | 'even' | 'odd';
-    flowControl?: 'none' | 'hardware';
-}
-
-interface SerialPortInfo {
-    usbVendorId?: number;
-    usbProductId?: number;
-}
-
-interface Serial {
-    requestPort(): Promise<SerialPort>;
-}
-
-interface SerialError extends Error {
-    name: string;
-    message: string;
-}
-
-declare global {
-    interface Navigator {
-        serial?: Serial;
-    }
-}
-
-// Component interfaces
-interface DeviceStats {
-    uptime: number;
-    freeHeap: number;
-    firmwareVersion: string;
-}
-
-interface ConsoleEntry {
-    timestamp: Date;
-    message: string;
-    type: 'info' | 'success' | 'warning' | 'error' | 'json';
-}
-
-interface SerialData {
-    type?: string;
-    uptime_ms?: number;
-    free_heap_bytes?: number;
-    version?: string;
-    laser_state?: boolean;
-    laser_brightness?: number;
-    [key: string]: unknown;
-}
-
-// Debounce utility function
-function debounce<T extends (...args: any[]) => any>(
-    func: T,
-    wait: number
-): (...args: Parameters<T>) => void {
-    let timeout: ReturnType<typeof setTimeout>;
-    return (...args: Parameters<T>) => {
-        clearTimeout(timeout);
-        timeout = setTimeout(() => func(...args), wait);
-    };
-}
+import { useConsoleLog } from '../hooks/useConsoleLog';
+import { useLaserDevice } from '../hooks/useLaserDevice';
+import { useSerialConnection } from '../hooks/useSerialConnection';
+import { useConnectionProfiles } from '../hooks/useConnectionProfiles';
+import { useSafetyMonitor } from '../hooks/useSafetyMonitor';
+import { useEmergencyStop } from '../hooks/useEmergencyStop';
+import { useSequencer } from '../hooks/useSequencer';
+import { useExposure } from '../hooks/useExposure';
+import { useTelemetry } from '../hooks/useTelemetry';
+import { useSessionRecording } from '../hooks/useSessionRecording';
+import { useCommandLine } from '../hooks/useCommandLine';
+import { useLinkHealth } from '../hooks/useLinkHealth';
+import { useUsageLedger } from '../hooks/useUsageLedger';
+import { useCalibration } from '../hooks/useCalibration';
+import { useDeviceConfig } from '../hooks/useDeviceConfig';
+import { useSelfTest } from '../hooks/useSelfTest';
+import { useAnnouncer } from '../hooks/useAnnouncer';
+import { useTabCoordination } from '../hooks/useTabCoordination';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useLaserFeedback } from '../hooks/useLaserFeedback';
+import { useInputMapping } from '../hooks/useInputMapping';
+import { usePresets } from '../hooks/usePresets';
+import { useSchedule } from '../hooks/useSchedule';
+import { INITIAL_LINK_HEALTH } from '../device/LinkHealthMonitor';
+import { SimulatedTransport } from '../device/SimulatedTransport';
+import { WebSerialTransport } from '../device/WebSerialTransport';
+import { formatPortInfo } from '../device/connectionProfiles';
+import { ReplayTransport } from '../recording/ReplayTransport';
+import type { MappedAction } from '../input/InputMapper';
+import { describePreset, type Preset } from '../presets/presets';
+import type { ScheduledEvent } from '../presets/schedule';
+import { CommandError } from '../device/CommandQueue';
+import type { DeviceSession } from '../device/DeviceSession';
+import type { RemoteCommand } from '../tabs/messages';
+import { formatBrightness, fromPwm, toPwm, type BrightnessUnit } from '../calibration/calibration';
+import { BRIGHTNESS_STEPS, PRESET_ACTIONS, formatBinding, type PresetAction, type ShortcutAction } from '../accessibility/shortcuts';
+import DeviceList from './DeviceList';
+import SimulatorPanel from './SimulatorPanel';
+import SafetyPanel from './SafetyPanel';
+import SequencerPanel from './SequencerPanel';
+import ExposurePanel from './ExposurePanel';
+import TelemetryCharts from './TelemetryCharts';
+import LinkHealthStats from './LinkHealthStats';
+import SessionPanel from './SessionPanel';
+import UsagePanel from './UsagePanel';
+import CalibrationPanel from './CalibrationPanel';
+import DeviceSettingsPanel from './DeviceSettingsPanel';
+import SelfTestPanel from './SelfTestPanel';
+import ConnectionProfilePanel from './ConnectionProfilePanel';
+import AccessibilityPanel from './AccessibilityPanel';
+import InputMappingPanel from './InputMappingPanel';
+import PresetPanel from './PresetPanel';
+import SchedulePanel from './SchedulePanel';
+import CommandLine from './CommandLine';
+import DataConsole from './DataConsole';
+import EmergencyStop from './EmergencyStop';
+import { debounce } from '../utils/debounce';
+import { formatUptime } from '../utils/format';
 
 const LaserController: React.FC = () => {
-    const [port, setPort] = useState<SerialPort | null>(null);
-    const [isConnected, setIsConnected] = useState<boolean>(false);
-    const [reader, setReader] = useState<ReadableStreamDefaultReader<Uint8Array> | null>(null);
-    const [writer, setWriter] = useState<WritableStreamDefaultWriter<Uint8Array> | null>(null);
-    const isConnectedRef = useRef<boolean>(false);
-
-    // Device states
-    const [laserOn, setLaserOn] = useState<boolean>(false);
-    const [laserBrightness, setLaserBrightness] = useState<number>(50);
-    const [brightnessInitialized, setBrightnessInitialized] = useState<boolean>(false);
     const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
 
-    // Device stats
-    const [deviceStats, setDeviceStats] = useState<DeviceStats>({
-        uptime: 0,
-        freeHeap: 45600,
-        firmwareVersion: "Unknown"
-    });
-
     // Console
-    const [consoleData, setConsoleData] = useState<ConsoleEntry[]>([
-        { timestamp: new Date(), message: "Laser Controller v1.0 Ready", type: "success" },
-        { timestamp: new Date(), message: "Connect your Laser device to start communication...", type: "info" }
+    const { consoleLog, logMessage, clearConsole } = useConsoleLog([
+        { message: "Laser Controller v1.0 Ready", type: "success" },
+        { message: "Connect your Laser device to start communication...", type: "info" }
     ]);
 
-    // Send command function
-    const sendCommand = async (
-        command: string,
-        currentWriter: WritableStreamDefaultWriter<Uint8Array> | null = writer
-    ): Promise<void> => {
-        if (!currentWriter || !isConnectedRef.current) {
-            logMessage('No connection available', 'error');
-            return;
-        }
-
-        try {
-            const encoder = new TextEncoder();
-            const data = encoder.encode(command + '\n');
+    const {
+        sessions,
+        snapshots,
+        selectedId,
+        select,
+        rename,
+        session,
+        device,
+        isConnected,
+        laserOn,
+        laserBrightness,
+        setLaserBrightness,
+        brightnessInitialized,
+        deviceStats,
+        pending,
+        parseIssues,
+        connect: connectDevice,
+        disconnect,
+        disconnectSession,
+        setLaser,
+        sendBrightness,
+        setLaserAll,
+        sendBrightnessAll
+    } = useLaserDevice(logMessage, {
+        onDisconnect: (cause, transport) => serial.handleDisconnect(cause, transport),
+        onCreate: session => recording.attach(session)
+    });
 
-            await currentWriter.write(data);
-            logMessage(`Sent: ${command}`, 'warning');
+    const { stopped, emergencyStop, rearm } = useEmergencyStop(
+        sessions,
+        logMessage,
+        () => tabs.forward({ kind: 'emergency_stop' })
+    );
 
-        } catch (error) {
-            const serialError = error as SerialError;
-            logMessage(`Send error: ${serialError.message}`, 'error');
+    // One tab owns the ports; the others mirror it and forward their actions
+    const tabs = useTabCoordination({
+        sessions,
+        snapshots,
+        selectedId,
+        stopped,
+        consoleLog,
+        logMessage,
+        onCommand: command => handleRemoteCommand(command),
+        // Lasers go off before the ports close: nothing watches a laser between
+        // this tab letting go and the new owner reopening its port, and that
+        // port may never be reopened
+        onHandOver: async () => {
+            serial.stopAutoReconnect();
+            for (const connected of sessions) {
+                if (connected.snapshot.laserOn) logMessage(`Switching ${connected.name} off before handing over control`, 'warning');
+            }
+            await Promise.all(sessions.map(connected => connected.disconnect()));
         }
-    };
+    });
+    const { forward } = tabs;
+    const follower = tabs.role === 'follower';
+    const mirroredId = tabs.mirror?.selectedId ?? null;
+
+    const connectionProfiles = useConnectionProfiles();
+    const serial = useSerialConnection({
+        connectDevice,
+        logMessage,
+        autoConnect: tabs.role === 'owner',
+        profiles: connectionProfiles.profiles,
+        profile: connectionProfiles.selected
+    });
+    const { reconnectAttempt } = serial;
 
-    // Debounced brightness change
-    const debouncedSendBrightness = useCallback(
-        debounce((brightness: number) => {
-            sendCommand(`SET_LASER_PWM:${brightness}`);
-        }, 50),
-        [writer, isConnected]
-    );
+    const safety = useSafetyMonitor(sessions, logMessage);
+    const maxPwm = safety.limits.maxPwm;
+    const clampedRef = useRef<boolean>(false);
 
-    // Update isConnectedRef when isConnected changes
-    useEffect(() => {
-        isConnectedRef.current = isConnected;
-        
-        // Reset brightness initialization when disconnected
-        if (!isConnected) {
-            setBrightnessInitialized(false);
-        }
-    }, [isConnected]);
+    const sequencer = useSequencer(sessions, session, maxPwm, logMessage);
+    const sequencing = sequencer.playerState !== 'idle';
 
-    // Auto-send brightness when changed (only if brightness is already initialized)
-    useEffect(() => {
-        if (laserOn && isConnected && brightnessInitialized) {
-            debouncedSendBrightness(laserBrightness);
-        }
-    }, [laserBrightness, laserOn, isConnected, brightnessInitialized, debouncedSendBrightness]);
-
-    const formatUptime = (seconds: number): string => {
-        const days = Math.floor(seconds / 86400);
-        const hours = Math.floor((seconds % 86400) / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        const secs = seconds % 60;
-
-        let uptimeText = '';
-        if (days > 0) uptimeText += `${days}d `;
-        if (hours > 0 || days > 0) uptimeText += `${hours}h `;
-        if (minutes > 0 || hours > 0 || days > 0) uptimeText += `${minutes}m `;
-        uptimeText += `${secs}s`;
-        return uptimeText;
-    };
+    const exposure = useExposure(device, logMessage);
 
-    const logMessage = (message: string, type: ConsoleEntry['type'] = 'info'): void => {
-        const newEntry: ConsoleEntry = {
-            timestamp: new Date(),
-            message,
-            type
-        };
-        setConsoleData(prev => [...prev.slice(-99), newEntry]); // Keep last 100 entries
-    };
+    const telemetry = useTelemetry(sessions, session, logMessage);
 
-    const connect = async (): Promise<void> => {
-        try {
-            if (!('serial' in navigator)) {
-                logMessage('Web Serial API not supported. Please use Chrome 89+ or Edge 89+', 'error');
-                return;
-            }
+    const recording = useSessionRecording(logMessage);
 
-            logMessage('Requesting serial port access...', 'warning');
+    const commandLine = useCommandLine(
+        device,
+        logMessage,
+        text => tabs.forward({ kind: 'line', deviceId: mirroredId, text })
+    );
 
-            const selectedPort = await navigator.serial!.requestPort();
+    const linkHealth = useLinkHealth(sessions, logMessage);
 
-            await selectedPort.open({
-                baudRate: 115200,
-                dataBits: 8,
-                stopBits: 1,
-                parity: 'none',
-                flowControl: 'none'
-            });
+    const usage = useUsageLedger(sessions, session, logMessage);
+    const health = (selectedId && linkHealth[selectedId]) || INITIAL_LINK_HEALTH;
 
-            const newReader = selectedPort.readable?.getReader();
-            const newWriter = selectedPort.writable?.getWriter();
+    const calibration = useCalibration(session, maxPwm, logMessage);
+    const { curve, unit } = calibration;
 
-            if (!newReader || !newWriter) {
-                throw new Error('Failed to get reader/writer from serial port');
-            }
+    const deviceConfig = useDeviceConfig(session, safety.limits, logMessage);
+    const selfTest = useSelfTest(session, maxPwm, logMessage, serial.requestConnection);
 
-            setPort(selectedPort);
-            setReader(newReader);
-            setWriter(newWriter);
-            setIsConnected(true);
+    // A follower tab shows and drives the owner's selected device instead of its own
+    const mirrored = tabs.mirror?.devices.find(mirroredDevice => mirroredDevice.id === mirroredId)?.snapshot ?? null;
+    const shown = mirrored ?? { laserOn, laserBrightness, brightnessInitialized, deviceStats, pending, parseIssues };
+    const hasDevice = isConnected || mirrored !== null;
+    const latched = stopped || (tabs.mirror?.stopped ?? false);
+    // Exposure runs and self-tests drive the switch; they, sequences and
+    // calibration runs drive the level. The other controls wait until they finish.
+    const switchLocked = exposure.running || selfTest.running;
+    const levelLocked = switchLocked || sequencing || !!calibration.run;
 
-            logMessage('Successfully connected to laser device!', 'success');
+    // Debounced brightness change
+    const debouncedSendBrightness = useMemo(
+        () => debounce((brightness: number) => {
+            if (!forward({ kind: 'brightness', deviceId: mirroredId, value: brightness })) {
+                sendBrightness(brightness);
+            }
+        }, 50),
+        [sendBrightness, forward, mirroredId]
+    );
 
-            // Start reading data - the firmware will automatically send initial state
-            sendCommand('GET_INITIAL_STATE');
-            startReading(newReader);
+    const connect = async (): Promise<void> => {
+        await serial.requestConnection();
+    };
 
-        } catch (error: any) {
-            logMessage(`Connection failed: ${error.message}`, 'error');
-        }
+    const connectSimulator = async (): Promise<void> => {
+        logMessage('Starting virtual laser device...', 'warning');
+        await connectDevice(new SimulatedTransport());
     };
 
-    const disconnect = async (): Promise<void> => {
-        if (reader) {
-            try {
-                await reader.cancel();
-                reader.releaseLock();
-            } catch (error) {
-                console.error('Reader release error:', error);
-            }
-        }
+    const connectReplay = async (file: File, speed: number): Promise<void> => {
+        const transport = await recording.loadReplay(file, speed);
+        if (!transport) return;
+        await connectDevice(transport);
+    };
 
-        if (writer) {
-            try {
-                await writer.close();
-            } catch (error) {
-                console.error('Writer close error:', error);
-            }
-        }
+    // Per-device and group actions from the device list, under the same
+    // lockouts as the switch and slider
+    const handleListToggle = (target: DeviceSession, on: boolean): void => {
+        handleRemoteCommand({ kind: 'laser', deviceId: target.id, on }, 'the device list');
+    };
 
-        if (port) {
-            try {
-                await port.close();
-                logMessage('Serial connection closed', 'warning');
-            } catch (error: any) {
-                logMessage(`Port close error: ${error.message}`, 'error');
-            }
+    const handleAll = (on: boolean): void => {
+        if (switchLocked) {
+            logMessage('Refused switching all devices while an exposure or self-test runs', 'warning');
+            return;
         }
-
-        setPort(null);
-        setReader(null);
-        setWriter(null);
-        setIsConnected(false);
-        setBrightnessInitialized(false);
-        setDeviceStats(prev => ({ ...prev, firmwareVersion: "Unknown" }));
+        setLaserAll(on);
     };
 
-    const startReading = async (currentReader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> => {
-        try {
-            let buffer = '';
-            console.log('📖 Starting continuous data reading...', 'success')
-            while (currentReader) {
-                console.log("inside while loop")
-                try {
-                    const { value, done } = await currentReader.read();
-
-                    if (done) {
-                        console.log('📡 Reading stream ended', 'warning');
-                        break;
-                    }
+    const handleSetAll = (brightness: number): void => {
+        if (levelLocked) {
+            logMessage('Refused setting all devices: the slider is locked', 'warning');
+            return;
+        }
+        sendBrightnessAll(Math.min(brightness, maxPwm));
+    };
 
-                    if (value) {
+    const handleLaserToggle = (): void => {
+        if (tabs.forward({ kind: 'laser', deviceId: mirroredId, on: !shown.laserOn })) return;
+        setLaser(!laserOn);
+    };
 
-                        console.log({ value })
-                        const decoder = new TextDecoder();
-                        buffer += decoder.decode(value);
+    const handleRearm = (): void => {
+        if (window.confirm('Re-arm the laser? Make sure the beam path is safe before switching it back on.')) {
+            rearm();
+            tabs.forward({ kind: 'rearm' });
+        }
+    };
 
-                        const lines = buffer.split('\n');
-                        buffer = lines.pop() || '';
+    // Actions forwarded by follower tabs or recalled from presets, under the
+    // same limits and lockouts as local input
+    const handleRemoteCommand = (command: RemoteCommand, origin = 'another tab'): void => {
+        if (command.kind === 'emergency_stop') {
+            emergencyStop();
+            return;
+        }
+        if (command.kind === 'rearm') {
+            rearm();
+            return;
+        }
 
-                        for (const line of lines) {
-                            const trimmed = line.trim();
-                            if (trimmed) {
-                                processReceivedData(trimmed);
-                            }
-                        }
-                    }
-                } catch (readError: any) {
-                    if (readError.name === 'NetworkError' || readError.name === 'NotFoundError') {
-                        logMessage('Device disconnected unexpectedly', 'warning');
-                        disconnect();
-                        break;
-                    }
+        const target = sessions.find(connected => connected.id === command.deviceId) ?? session;
+        if (!target) {
+            logMessage(`Got a command from ${origin}, but no device is connected`, 'warning');
+            return;
+        }
+        switch (command.kind) {
+            case 'laser':
+                if (switchLocked) {
+                    logMessage(`Refused a switch from ${origin} while an exposure or self-test runs`, 'warning', target.source);
+                    return;
+                }
+                target.setLaser(command.on);
+                break;
+            case 'brightness': {
+                if (levelLocked) {
+                    logMessage(`Refused a brightness change from ${origin}: the slider is locked`, 'warning', target.source);
+                    return;
                 }
+                const level = Math.max(0, Math.min(command.value, maxPwm));
+                target.setLocalBrightness(level);
+                if (target.snapshot.laserOn && target.snapshot.brightnessInitialized) target.sendBrightness(level);
+                break;
             }
-        } catch (error: any) {
-            logMessage(`Reading error: ${error.message}`, 'error');
+            case 'line':
+                target.device.send(command.text).catch(error => {
+                    // Refusals are logged by the guard that refused
+                    if (!(error instanceof CommandError && error.reason === 'refused')) {
+                        logMessage(`Send error: ${(error as Error).message}`, 'error', target.source);
+                    }
+                });
+                break;
         }
     };
 
-    const processReceivedData = (data: string): void => {
-        console.log('Received data:', data); // Debug log
-
-        try {
-            const jsonData: SerialData = JSON.parse(data);
-            console.log('Parsed JSON data:', jsonData); // Debug log
-            
-            // Handle initial_state message - this is automatically sent by firmware on connection
-            if (jsonData.type === 'initial_state') {
-                logMessage('Received initial device state from firmware', 'success');
-                
-                // Set laser state
-                if (jsonData.hasOwnProperty('laser_state')) {
-                    setLaserOn(!!jsonData.laser_state);
-                }
-                
-                // Set brightness from firmware
-                if (jsonData.hasOwnProperty('laser_brightness')) {
-                    const deviceBrightness = jsonData.laser_brightness || 50;
-                    setLaserBrightness(deviceBrightness);
-                    setBrightnessInitialized(true);
-                    logMessage(`Brightness synced from device: ${deviceBrightness}%`, 'info');
-                }
-                
-                // Set firmware version
-                if (jsonData.version) {
-                    //@ts-expect-error
-                    setDeviceStats(prev => ({ ...prev, firmwareVersion: jsonData.version }));
-                }
-                
-                // Update other stats
-                if (jsonData.uptime_ms) {
-                    setDeviceStats(prev => ({ 
-                        ...prev, 
-                        //@ts-ignore
-                        uptime: Math.floor(jsonData.uptime_ms / 1000)
-                    }));
-                }
-                if (jsonData.free_heap_bytes) {
-                    //@ts-expect-error
-                    setDeviceStats(prev => ({ 
-                        ...prev, 
-                        freeHeap: jsonData.free_heap_bytes
-                    }));
-                }
-            } else {
-                // Handle other JSON data types (status, heartbeat, etc.)
-                updateDeviceStats(jsonData);
-            }
-            
-            logMessage(JSON.stringify(jsonData, null, 2), 'json');
-        } catch (e) {
-            logMessage(data, 'success');
-
-            // Check for firmware version in plain text - updated for v5.1
-            if (data.includes('Firmware Version:') || data.includes('ESP32-S3') || data.includes('v5.') || data.includes('Ready')) {
-                const versionMatch = data.match(/v?(\d+\.\d+)/);
-                if (versionMatch) {
-                    setDeviceStats(prev => ({ ...prev, firmwareVersion: versionMatch[1] }));
-                } else if (data.includes('v5.1') || data.includes('5.1') || data.includes('Ready')) {
-                    setDeviceStats(prev => ({ ...prev, firmwareVersion: '5.1' }));
-                } else if (data.includes('v5.0') || data.includes('5.0')) {
-                    setDeviceStats(prev => ({ ...prev, firmwareVersion: '5.0' }));
-                }
-            }
+    // Switches on before the level is sent; an OFF preset only switches off.
+    // A follower tab hands the commands to the owner.
+    const applyPreset = (preset: Preset, deviceId: string | null, origin: string): void => {
+        const commands: RemoteCommand[] = preset.laserOn
+            ? [{ kind: 'laser', deviceId, on: true }, { kind: 'brightness', deviceId, value: preset.brightness }]
+            : [{ kind: 'laser', deviceId, on: false }];
+        for (const command of commands) {
+            if (!forward(command)) handleRemoteCommand(command, origin);
+        }
+    };
 
-            // Check for brightness loading message - this is the saved brightness from preferences
-            if (data.includes('Loaded brightness:')) {
-                const brightnessMatch = data.match(/Loaded brightness:\s*(\d+)%/);
-                if (brightnessMatch) {
-                    const loadedBrightness = parseInt(brightnessMatch[1]);
-                    setLaserBrightness(loadedBrightness);
-                    setBrightnessInitialized(true);
-                    logMessage(`Device brightness restored from preferences: ${loadedBrightness}%`, 'info');
-                }
-            }
+    const recallPreset = (preset: Preset): void => {
+        const deviceId = preset.deviceKey
+            ? presetDevices.find(candidate => candidate.key === preset.deviceKey)?.id
+            : follower ? mirroredId : session?.id ?? null;
+        if (deviceId === undefined) {
+            logMessage(`Preset "${preset.name}" is for ${preset.deviceName ?? 'a device'} that is not connected`, 'warning');
+            return;
+        }
+        logMessage(`Recalling preset "${preset.name}" (${describePreset(preset)})`, 'info');
+        applyPreset(preset, deviceId, `preset "${preset.name}"`);
+    };
 
-            // Check for device initialization message
-            if (data.includes('Device initialized')) {
-                const brightnessMatch = data.match(/Brightness:\s*(\d+)%/);
-                const laserMatch = data.match(/Laser:\s*(ON|OFF)/);
-                
-                if (brightnessMatch) {
-                    const deviceBrightness = parseInt(brightnessMatch[1]);
-                    setLaserBrightness(deviceBrightness);
-                    setBrightnessInitialized(true);
-                    logMessage(`Brightness initialized: ${deviceBrightness}%`, 'info');
-                }
-                
-                if (laserMatch) {
-                    setLaserOn(laserMatch[1] === 'ON');
-                }
-            }
+    // Carries out a due schedule entry; returns why it was skipped, if it was
+    const runScheduled = ({ entry }: ScheduledEvent): string | undefined => {
+        if (entry.action.kind === 'off') {
+            if (sessions.length === 0) return 'no device is connected';
+            setLaserAll(false);
+            return undefined;
+        }
+        const { presetId } = entry.action;
+        const preset = presets.presets.find(candidate => candidate.id === presetId);
+        if (!preset) return 'the preset was deleted';
+        const target = preset.deviceKey ? sessions.find(candidate => candidate.key === preset.deviceKey) : session;
+        if (!target) return `${preset.deviceName ?? 'its device'} is not connected`;
+        applyPreset(preset, target.id, 'the schedule');
+        return undefined;
+    };
 
-            // Check for connection detection message
-            if (data.includes('Connection detected')) {
-                logMessage('Firmware detected UI connection', 'info');
-            }
+    // Applies a brightness (PWM %) from the slider or a shortcut, within the safety limit
+    const changeBrightness = (requested: number): number => {
+        const newBrightness = Math.max(0, Math.min(requested, maxPwm));
 
-            // Parse laser status response (if manually requested)
-            if (data.includes('Laser State:') && data.includes('Laser Brightness:')) {
-                const stateMatch = data.match(/Laser State:\s*(ON|OFF)/);
-                if (stateMatch) {
-                    setLaserOn(stateMatch[1] === 'ON');
-                }
+        // Log once per excursion above the ceiling, not on every drag event
+        if (requested > maxPwm && !clampedRef.current) {
+            logMessage(`Brightness clamped to the ${maxPwm}% safety limit`, 'warning');
+        }
+        clampedRef.current = requested > maxPwm;
 
-                const brightnessMatch = data.match(/Laser Brightness:\s*(\d+)%/);
-                if (brightnessMatch) {
-                    const deviceBrightness = parseInt(brightnessMatch[1]);
-                    setLaserBrightness(deviceBrightness);
-                    setBrightnessInitialized(true);
-                    logMessage(`Manual brightness sync: ${deviceBrightness}%`, 'info');
-                }
-            }
+        setLaserBrightness(newBrightness);
+
+        // Only user input is sent; device reports update the slider without echoing back
+        if (shown.laserOn && hasDevice && shown.brightnessInitialized) {
+            debouncedSendBrightness(newBrightness);
         }
+        return newBrightness;
     };
 
-    const updateDeviceStats = (data: SerialData): void => {
-        if (data.type === 'status' || data.type === 'heartbeat') {
-            setDeviceStats(prev => ({
-                ...prev,
-                uptime: data.uptime_ms ? Math.floor(data.uptime_ms / 1000) : prev.uptime,
-                freeHeap: data.free_heap_bytes || (prev.freeHeap),
-                firmwareVersion: data.version || prev.firmwareVersion
-            }));
-
-            // Update laser state from firmware
-            if (data.hasOwnProperty('laser_state')) {
-                setLaserOn(!!data.laser_state);
-            }
+    const handleBrightnessChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        // The slider moves in the chosen unit; the device always gets PWM
+        changeBrightness(toPwm(curve, unit, Number(e.target.value)));
+    };
 
-            // Update laser brightness from firmware
-            if (data.hasOwnProperty('laser_brightness')) {
-                const firmwareBrightness = data.laser_brightness || 0;
-                
-                // If brightness hasn't been initialized yet, use the firmware value
-                if (!brightnessInitialized) {
-                    setLaserBrightness(firmwareBrightness);
-                    setBrightnessInitialized(true);
-                    logMessage(`Brightness sync from heartbeat: ${firmwareBrightness}%`, 'info');
-                } else {
-                    // Only update if significantly different to avoid fighting with user input
-                    if (Math.abs(firmwareBrightness - laserBrightness) > 2) {
-                        setLaserBrightness(firmwareBrightness);
-                    }
-                }
+    // While a sequence plays the slider follows the player instead of the user
+    const displayedBrightness = sequencing && sequencer.progress ? sequencer.progress.level : shown.laserBrightness;
+    const sliderEnabled = hasDevice && shown.laserOn && !levelLocked;
+    const switchDisabled = !hasDevice || (latched && !shown.laserOn) || switchLocked;
+
+    // Slider scale in the chosen unit; PWM positions are converted onto it
+    const sliderMax = unit === 'mw' && curve ? curve.maxPowerMw : 100;
+    const sliderValue = fromPwm(curve, unit, displayedBrightness);
+    const sliderFill = sliderMax > 0 ? sliderValue / sliderMax * 100 : 0;
+    const sliderLimit = sliderMax > 0 ? fromPwm(curve, unit, maxPwm) / sliderMax * 100 : 100;
+    const brightnessText = formatBrightness(unit, sliderValue);
+
+    // Screen reader announcements, including console errors
+    const announcer = useAnnouncer(consoleLog);
+
+    // Keyboard shortcuts act like the switch and slider, with the same limits
+    const handleShortcut = (action: ShortcutAction): void => {
+        if (action === 'toggleLaser') {
+            if (switchDisabled) {
+                announcer.announce(hasDevice ? 'The laser switch is locked' : 'No device connected', true);
+                return;
             }
+            handleLaserToggle();
+            return;
         }
-    };
 
-    const handleLaserToggle = (): void => {
-        const newState = !laserOn;
-        setLaserOn(newState);
-        sendCommand(newState ? 'LASER_ON' : 'LASER_OFF');
+        if (!sliderEnabled) {
+            announcer.announce('Brightness can only be changed while the laser is on', true);
+            return;
+        }
+        const step = BRIGHTNESS_STEPS[action];
+        const preset = PRESET_ACTIONS.indexOf(action as PresetAction);
+        const requested = step !== undefined ? displayedBrightness + step : shortcuts.settings.presets[preset];
+        const applied = changeBrightness(Math.min(100, requested));
+        announcer.announce(`Brightness ${formatBrightness(unit, fromPwm(curve, unit, applied))}`);
     };
 
-    const handleBrightnessChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-        const newBrightness = parseInt(e.target.value);
-        setLaserBrightness(newBrightness);
+    const shortcuts = useKeyboardShortcuts(handleShortcut);
+    const { bindings } = shortcuts.settings;
+
+    // MIDI and gamepad controls go through the shortcut and slider paths, so
+    // the same locks, safety limit and debounce apply
+    const handleInputAction = (action: MappedAction): void => {
+        switch (action.kind) {
+            case 'brightness':
+                // A knob turned while the laser is off is not worth announcing
+                if (sliderEnabled) changeBrightness(action.level);
+                break;
+            case 'toggle':
+                handleShortcut('toggleLaser');
+                break;
+            case 'preset':
+                handleShortcut(PRESET_ACTIONS[action.preset - 1]);
+                break;
+            case 'emergency_stop':
+                emergencyStop();
+                break;
+        }
     };
 
-    const clearConsole = (): void => {
-        setConsoleData([{ timestamp: new Date(), message: 'Console cleared', type: 'success' }]);
-    };
+    const inputMapping = useInputMapping(handleInputAction, logMessage);
+
+    // Schedules run in the tab that owns the ports
+    const presets = usePresets(logMessage);
+    const schedule = useSchedule(presets.presets, tabs.role === 'owner', runScheduled, logMessage);
+
+    // Confirmed laser switches are announced, sounded and flashed
+    const flash = useLaserFeedback(
+        { deviceId: follower ? mirroredId : selectedId, synced: shown.brightnessInitialized, laserOn: shown.laserOn, pending: shown.pending.laser },
+        shortcuts.settings,
+        announcer.announce
+    );
+
+    // The selected device decides which transport-specific panel is shown
+    const simulator = device?.transport instanceof SimulatedTransport ? device.transport : null;
+    const replay = device?.transport instanceof ReplayTransport;
+    const serialPort = device?.transport instanceof WebSerialTransport
+        ? { info: device.transport.port.getInfo(), options: device.transport.options, lineEnding: device.transport.lineEnding }
+        : null;
+    const multiple = sessions.length > 1;
+
+    // Devices presets can be recalled on, and the one "Save current" captures
+    const presetDevices = follower
+        ? (tabs.mirror?.devices ?? []).map(mirroredDevice => ({ id: mirroredDevice.id, key: mirroredDevice.key, name: mirroredDevice.snapshot.name }))
+        : sessions.map(connected => ({ id: connected.id, key: connected.key, name: snapshots[connected.id]?.name ?? connected.name }));
+    const presetDevice = presetDevices.find(candidate => candidate.id === (follower ? mirroredId : selectedId));
+    const presetTarget = hasDevice && presetDevice
+        ? { key: presetDevice.key, name: presetDevice.name, laserOn: shown.laserOn, brightness: shown.laserBrightness }
+        : null;
+
+    const reconnecting = reconnectAttempt !== null;
+    // A link can be open while the firmware has stopped talking
+    const linkClass = health.status === 'stale' ? styles.stale : health.status === 'degraded' ? styles.degraded : styles.connected;
+    const statusClass = isConnected ? linkClass : mirrored ? styles.connected : reconnecting ? styles.reconnecting : styles.disconnected;
+    const connectedText = follower
+        ? 'Controlled from another tab'
+        : multiple
+        ? `Connected to ${sessions.length} devices`
+        : isConnected
+            ? (simulator ? 'Connected to Simulator' : replay ? 'Replaying Recorded Session' : 'Connected to Laser')
+            : reconnecting ? `Reconnecting (attempt ${reconnectAttempt})` : 'Not connected';
+    const statusText = isConnected && health.status !== 'ok'
+        ? `${connectedText} — link ${health.status}`
+        : connectedText;
+    const statusSubtext = isConnected && health.status !== 'ok'
+        ? `${multiple ? `${session?.name}: ` : ''}${health.reasons.join('; ')}`
+        : reconnecting
+            ? (isConnected ? `Reconnecting a dropped device (attempt ${reconnectAttempt})...` : 'Waiting for the device to come back...')
+            : isConnected
+                ? `${session?.name} · Firmware v${deviceStats.firmwareVersion}${serialPort ? ` · ${formatPortInfo(serialPort.info)}` : ''}`
+                : follower
+                    ? (mirrored ? `Mirroring ${mirrored.name}, firmware v${mirrored.deviceStats.firmwareVersion}` : 'The controlling tab has no device connected')
+                    : 'Click connect to establish communication';
+
+    const connectedNames = useMemo(
+        () => new Map(sessions.map(connected => [connected.id, snapshots[connected.id]?.name ?? connected.name])),
+        [sessions, snapshots]
+    );
 
     return (
         <div className={styles.container}>
@@ -471,44 +480,107 @@ const LaserController: React.FC = () => {
                     <div className={styles.statusSection}>
                         <div className={styles.statusIndicator}>
                             <div className={styles.statusInfo}>
-                                <div className={`${styles.statusDot} ${isConnected ? styles.connected : styles.disconnected}`}></div>
-                                <div>
+                                <div className={`${styles.statusDot} ${statusClass}`} aria-hidden="true"></div>
+                                <div role="status">
                                     <div className={styles.statusText}>
-                                        {isConnected ? 'Connected to Laser' : 'Not connected'}
+                                        {statusText}
                                     </div>
                                     <div className={styles.statusSubtext}>
-                                        {isConnected ? `Firmware v${deviceStats.firmwareVersion}` : 'Click connect to establish communication'}
+                                        {statusSubtext}
                                     </div>
                                 </div>
                             </div>
 
-                            {isConnected ? (
-                                <div className={styles.buttonGroup}>
+                            <div className={styles.buttonGroup}>
+                                {follower ? (
+                                    <button onClick={tabs.requestControl} className={`${styles.button} ${styles.clearBtn}`}>
+                                        Take control in this tab
+                                    </button>
+                                ) : (
+                                    <>
+                                        <button onClick={connect} className={`${styles.button} ${styles.clearBtn}`}>
+                                            {isConnected ? 'Add device' : 'Connect to Device'}
+                                        </button>
+                                        <button onClick={connectSimulator} className={styles.button}>
+                                            {isConnected ? 'Add simulator' : 'Connect to simulator'}
+                                        </button>
+                                    </>
+                                )}
+                                {isConnected && (
                                     <button onClick={disconnect} className={styles.button}>
-                                        Disconnect
+                                        {multiple ? 'Disconnect selected' : 'Disconnect'}
                                     </button>
-                                </div>
-                            ) : (
-                                <button onClick={connect} className={`${styles.button} ${styles.clearBtn}`}>
-                                    Connect to Device
-                                </button>
-                            )}
+                                )}
+                                {reconnecting && (
+                                    <button onClick={serial.stopAutoReconnect} className={styles.button}>
+                                        Stop reconnecting
+                                    </button>
+                                )}
+                            </div>
                         </div>
+
+                        {simulator && <SimulatorPanel key={session?.id} simulator={simulator} />}
                     </div>
 
+                    {/* Connected Devices */}
+                    {isConnected && (
+                        <DeviceList
+                            sessions={sessions}
+                            snapshots={snapshots}
+                            linkHealth={linkHealth}
+                            selectedId={selectedId}
+                            maxPwm={maxPwm}
+                            locked={stopped}
+                            switchLocked={switchLocked}
+                            levelLocked={levelLocked}
+                            onSelect={select}
+                            onRename={rename}
+                            onToggle={handleListToggle}
+                            onDisconnect={disconnectSession}
+                            onAll={handleAll}
+                            onSetAll={handleSetAll}
+                        />
+                    )}
+
+                    {/* Emergency Stop Latch */}
+                    {latched && (
+                        <div className={`${styles.alarm} ${styles.stopBanner}`} role="alert">
+                            <AlertTriangle size={20} />
+                            <span className={styles.alarmText}>EMERGENCY STOP ACTIVE — the laser is locked off</span>
+                            <button onClick={handleRearm} className={styles.alarmDismiss}>
+                                Re-arm
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Safety Alarm */}
+                    {safety.alarm && (
+                        <div className={styles.alarm} role="alert">
+                            <AlertTriangle size={20} />
+                            <span className={styles.alarmText}>{safety.alarm}</span>
+                            <button onClick={safety.dismissAlarm} className={styles.alarmDismiss}>
+                                Dismiss
+                            </button>
+                        </div>
+                    )}
+
                     {/* Laser Control Card */}
-                    <div className={`${styles.card} ${laserOn ? styles.cardActive : ''}`}>
+                    <div className={`${styles.card} ${shown.laserOn ? styles.cardActive : ''} ${flash ? (flash.on ? styles.flashOn : styles.flashOff) : ''}`}>
                         <div className={styles.cardHeader}>
                             <h2 className={styles.cardTitle}>
                                 <Zap size={20} />
-                                <div className={`${laserOn ? styles.laserActive : ''}`}></div>
-                                LASER-5V
+                                <div className={`${shown.laserOn ? styles.laserActive : ''}`}></div>
+                                LASER-5V{multiple && session ? ` · ${session.name}` : ''}
                             </h2>
 
                             <button
                                 onClick={handleLaserToggle}
-                                disabled={!isConnected}
-                                className={`${styles.switch} ${laserOn ? styles.switchOn : styles.switchOff} ${!isConnected ? styles.disabled : ''}`}
+                                disabled={switchDisabled}
+                                aria-pressed={shown.laserOn}
+                                aria-label="Laser"
+                                aria-busy={shown.pending.laser}
+                                title={`Switch the laser on or off (${formatBinding(bindings.toggleLaser)})`}
+                                className={`${styles.switch} ${shown.laserOn ? styles.switchOn : styles.switchOff} ${switchDisabled ? styles.disabled : ''} ${shown.pending.laser ? styles.pending : ''}`}
                             >
                                 <div className={styles.switchThumb}></div>
                             </button>
@@ -517,35 +589,208 @@ const LaserController: React.FC = () => {
                         {/* Brightness Slider */}
                         <div className={styles.sliderContainer}>
                             <div className={styles.sliderHeader}>
-                                <span className={styles.sliderLabel}>
-                                    Brightness Level {!brightnessInitialized && isConnected ? '(syncing...)' : ''}
+                                <label htmlFor="laser-brightness" className={styles.sliderLabel}>
+                                    Brightness Level {!shown.brightnessInitialized && hasDevice ? '(syncing...)' : ''}
+                                    {sequencing && (sequencer.playerState === 'paused' ? ' (sequence paused)' : ' (sequence playing)')}
+                                </label>
+                                <span className={`${styles.brightnessValue} ${shown.pending.brightness ? styles.pendingValue : ''}`}>
+                                    {shown.pending.brightness && <span className={styles.spinner}></span>}
+                                    {brightnessText}
+                                    {unit !== 'pwm' && <span className={styles.pwmValue}>PWM {displayedBrightness}%</span>}
                                 </span>
-                                <span className={styles.brightnessValue}>{laserBrightness}%</span>
                             </div>
 
+                            {curve && (
+                                <select
+                                    value={unit}
+                                    onChange={e => calibration.setUnit(e.target.value as BrightnessUnit)}
+                                    className={styles.unitSelect}
+                                    aria-label="Brightness unit"
+                                >
+                                    <option value="pwm">PWM %</option>
+                                    <option value="mw">mW</option>
+                                    <option value="perceptual">Perceptual %</option>
+                                </select>
+                            )}
+
                             <input
+                                id="laser-brightness"
                                 type="range"
                                 min="0"
-                                max="100"
-                                value={laserBrightness}
+                                max={sliderMax}
+                                step={unit === 'mw' ? 'any' : 1}
+                                value={sliderValue}
                                 onChange={handleBrightnessChange}
-                                disabled={!isConnected || !laserOn}
-                                className={`${styles.slider} ${laserOn && isConnected ? styles.sliderActive : ''}`}
+                                disabled={!sliderEnabled}
+                                aria-valuetext={unit === 'pwm' ? brightnessText : `${brightnessText}, PWM ${displayedBrightness}%`}
+                                aria-keyshortcuts={[bindings.brightnessUp, bindings.brightnessDown].map(formatBinding).join(' ')}
+                                className={`${styles.slider} ${sliderEnabled ? styles.sliderActive : ''}`}
                                 style={{
-                                    background: laserOn && isConnected
-                                        ? `linear-gradient(to right, #ec4899 0%, #ec4899 ${laserBrightness}%, #e5e7eb ${laserBrightness}%, #e5e7eb 100%)`
+                                    background: shown.laserOn && hasDevice
+                                        ? `linear-gradient(to right, #ec4899 0%, #ec4899 ${sliderFill}%, #e5e7eb ${sliderFill}%, #e5e7eb ${sliderLimit}%, #fca5a5 ${sliderLimit}%, #fca5a5 100%)`
                                         : '#e5e7eb'
                                 }}
                             />
+                            {maxPwm < 100 && (
+                                <div className={styles.limitNote}>
+                                    Safety limit: {maxPwm}%{unit !== 'pwm' ? ` (${formatBrightness(unit, fromPwm(curve, unit, maxPwm))})` : ''}
+                                </div>
+                            )}
                         </div>
+
+                        {/* Timed Exposure */}
+                        <ExposurePanel
+                            plan={exposure.plan}
+                            onPlanChange={exposure.setPlan}
+                            running={exposure.running}
+                            progress={exposure.progress}
+                            results={exposure.results}
+                            disabled={!isConnected || stopped || sequencing || selfTest.running}
+                            maxPwm={maxPwm}
+                            onFire={exposure.fire}
+                            onStop={exposure.stop}
+                        />
                     </div>
 
+                    {/* Presets */}
+                    <PresetPanel
+                        presets={presets.presets}
+                        current={presetTarget}
+                        connectedKeys={new Set(presetDevices.map(candidate => candidate.key))}
+                        disabled={exposure.running || selfTest.running}
+                        onRecall={recallPreset}
+                        onSave={presets.savePreset}
+                        onDelete={presets.deletePreset}
+                        onImport={presets.importFile}
+                        onExport={presets.exportFile}
+                    />
+
+                    {/* Schedule */}
+                    <SchedulePanel
+                        entries={schedule.entries}
+                        upcoming={schedule.upcoming}
+                        presets={presets.presets}
+                        active={schedule.active}
+                        onSave={schedule.saveEntry}
+                        onDelete={schedule.deleteEntry}
+                    />
+
+                    {/* Safety Limits */}
+                    <SafetyPanel
+                        limits={safety.limits}
+                        hasPassword={safety.hasPassword}
+                        verifyPassword={safety.verifyPassword}
+                        updateSettings={safety.updateSettings}
+                    />
+
+                    {/* Connection Profiles */}
+                    <ConnectionProfilePanel
+                        profiles={connectionProfiles.profiles}
+                        selected={connectionProfiles.selected}
+                        port={serialPort}
+                        onSelect={connectionProfiles.select}
+                        onSave={connectionProfiles.saveProfile}
+                        onDelete={connectionProfiles.deleteProfile}
+                    />
+
+                    {/* Device Settings */}
+                    <DeviceSettingsPanel
+                        deviceName={session?.name ?? null}
+                        status={deviceConfig.status}
+                        config={deviceConfig.config}
+                        draft={deviceConfig.draft}
+                        changes={deviceConfig.changes}
+                        error={deviceConfig.error}
+                        onRead={deviceConfig.read}
+                        onChange={deviceConfig.update}
+                        onSave={deviceConfig.save}
+                        onRevert={deviceConfig.revert}
+                        onBackup={deviceConfig.exportFile}
+                        onRestore={deviceConfig.importFile}
+                    />
+
+                    {/* Self-Test */}
+                    <SelfTestPanel
+                        deviceName={session?.name ?? null}
+                        options={selfTest.options}
+                        onOptionsChange={selfTest.updateOptions}
+                        maxLevel={Math.min(maxPwm, Math.max(...selfTest.options.pwmSteps))}
+                        running={selfTest.running}
+                        progress={selfTest.progress}
+                        checks={selfTest.checks}
+                        report={selfTest.report}
+                        disabled={follower || stopped || sequencing || exposure.running || !!calibration.run}
+                        onRun={selfTest.run}
+                        onStop={selfTest.stop}
+                        onExportJson={selfTest.exportJson}
+                        onExportHtml={selfTest.exportHtml}
+                    />
+
+                    {/* Output Calibration */}
+                    <CalibrationPanel
+                        deviceName={session?.name ?? null}
+                        calibration={calibration.calibration}
+                        curve={curve}
+                        firmwareChanged={calibration.firmwareChanged}
+                        run={calibration.run}
+                        canStart={isConnected && laserOn && !stopped && !sequencing && !exposure.running && !selfTest.running}
+                        onStart={() => calibration.start()}
+                        onRecord={calibration.record}
+                        onBack={calibration.back}
+                        onCancel={calibration.cancel}
+                        onImport={calibration.importFile}
+                        onExport={calibration.exportFile}
+                        onDelete={calibration.remove}
+                    />
+
+                    {/* Sequencer */}
+                    <SequencerPanel
+                        sequences={sequencer.sequences}
+                        playerState={sequencer.playerState}
+                        progress={sequencer.progress}
+                        isConnected={isConnected && !stopped && !exposure.running && !selfTest.running}
+                        deviceCount={sessions.length}
+                        onPlay={sequencer.play}
+                        onPause={sequencer.pause}
+                        onResume={sequencer.resume}
+                        onStop={sequencer.stop}
+                        onSave={sequencer.saveSequence}
+                        onDelete={sequencer.deleteSequence}
+                        onImport={sequencer.importFile}
+                        onExport={sequencer.exportFile}
+                    />
+
+                    {/* Keyboard Shortcuts & Feedback */}
+                    <AccessibilityPanel
+                        settings={shortcuts.settings}
+                        onChange={shortcuts.updateSettings}
+                        onReset={shortcuts.resetSettings}
+                    />
+
+                    {/* External Controllers */}
+                    <InputMappingPanel
+                        mappings={inputMapping.mappings}
+                        learning={inputMapping.learning}
+                        midiSupported={inputMapping.midiSupported}
+                        midiEnabled={inputMapping.midiEnabled}
+                        midiDevices={inputMapping.midiDevices}
+                        gamepads={inputMapping.gamepads}
+                        onEnableMidi={inputMapping.enableMidi}
+                        onLearn={inputMapping.startLearning}
+                        onCancelLearn={inputMapping.cancelLearning}
+                        onChange={inputMapping.updateMapping}
+                        onDelete={inputMapping.deleteMapping}
+                        onImport={inputMapping.importFile}
+                        onExport={inputMapping.exportFile}
+                    />
+
                     {/* Advanced Settings Card */}
                     <div className={styles.advancedCard}>
                         <div className={styles.advancedHeader}>
                             <button
                                 onClick={() => setShowAdvanced(!showAdvanced)}
                                 className={styles.advancedToggleBtn}
+                                aria-expanded={showAdvanced}
                             >
                                 <div className={styles.toggleContent}>
                                     <div className={styles.toggleIconContainer}>
@@ -576,53 +821,88 @@ const LaserController: React.FC = () => {
                                         <div className={styles.statItem}>
                                             <div className={styles.statContent}>
                                                 <span className={styles.statLabel}>Uptime</span>
-                                                <span className={styles.statValue}>{formatUptime(deviceStats.uptime)}</span>
+                                                <span className={styles.statValue}>{formatUptime(shown.deviceStats.uptime)}</span>
                                             </div>
                                         </div>
                                         <div className={styles.statItem}>
                                             <div className={styles.statContent}>
                                                 <span className={styles.statLabel}>Free Heap Memory</span>
-                                                <span className={styles.statValue}>{(deviceStats.freeHeap / 1024).toLocaleString()} kB</span>
+                                                <span className={styles.statValue}>{(shown.deviceStats.freeHeap / 1024).toLocaleString()} kB</span>
+                                            </div>
+                                        </div>
+                                        <div className={styles.statItem}>
+                                            <div className={styles.statContent}>
+                                                <span className={styles.statLabel}>Unknown / Malformed Lines</span>
+                                                <span className={styles.statValue}>{shown.parseIssues.unknown} / {shown.parseIssues.malformed}</span>
                                             </div>
                                         </div>
                                     </div>
+
+                                    {isConnected && <LinkHealthStats health={health} />}
+
+                                    <TelemetryCharts
+                                        samples={telemetry.samples}
+                                        lastReboot={telemetry.lastReboot}
+                                        onClear={telemetry.clear}
+                                    />
                                 </div>
 
+                                {/* Usage Ledger */}
+                                {usage.available && (
+                                    <UsagePanel
+                                        deviceName={usage.device && session?.key === usage.device ? session.name : usage.device}
+                                        events={usage.events}
+                                        laserOnNow={isConnected && laserOn && session?.key === usage.device}
+                                        sinceServiceMs={usage.sinceServiceMs}
+                                        serviceOverdue={usage.serviceOverdue}
+                                        serviceIntervalHours={usage.serviceIntervalHours}
+                                        onServiceIntervalChange={usage.setServiceIntervalHours}
+                                        onMarkServiced={usage.markServiced}
+                                        onExport={usage.exportCsv}
+                                    />
+                                )}
+
+                                {/* Session Recording */}
+                                <SessionPanel
+                                    entryCount={recording.entryCount}
+                                    dropped={recording.dropped}
+                                    replayProgress={recording.replayProgress}
+                                    canReplay={recording.replayProgress === null}
+                                    onExportJsonl={recording.exportJsonl}
+                                    onExportCsv={recording.exportCsv}
+                                    onClear={recording.clear}
+                                    onReplay={connectReplay}
+                                />
+
                                 {/* Console Section */}
                                 <div className={styles.consoleSection}>
-                                    <div className={styles.consoleHeader}>
-                                        <div className={styles.consoleTitleContainer}>
-                                            <h2 className={styles.sectionTitle}>Data Console</h2>
-                                            <span className={`${styles.consoleBadge} ${isConnected ? styles.consoleBadgeOnline : styles.consoleBadgeOffline}`}>
-                                                {isConnected ? 'ONLINE' : 'OFFLINE'}
-                                            </span>
-                                        </div>
-                                        <button
-                                            onClick={clearConsole}
-                                            className={`${styles.button} ${styles.clearBtn}`}
-                                        >
-                                            Clear Console
-                                        </button>
-                                    </div>
-
-                                    <div className={styles.console}>
-                                        {consoleData.map((entry, index) => (
-                                            <div key={index} className={styles.consoleEntry}>
-                                                <span className={styles.timestamp}>
-                                                    [{entry.timestamp.toLocaleTimeString()}]
-                                                </span>{' '}
-                                                <span className={styles[entry.type]}>
-                                                    {entry.message}
-                                                </span>
-                                            </div>
-                                        ))}
-                                    </div>
+                                    <DataConsole
+                                        consoleLog={consoleLog}
+                                        isConnected={isConnected}
+                                        devices={connectedNames}
+                                        onClear={clearConsole}
+                                    />
+
+                                    <CommandLine
+                                        history={commandLine.history}
+                                        mode={commandLine.mode}
+                                        disabled={!isConnected && !(follower && hasDevice)}
+                                        textOnly={follower}
+                                        onModeChange={commandLine.setMode}
+                                        onSubmit={commandLine.submit}
+                                    />
                                 </div>
                             </div>
                         )}
                     </div>
                 </div>
             </div>
+
+            <EmergencyStop stopped={latched} onStop={emergencyStop} />
+
+            {/* Live regions for screen readers */}
+            <div className={styles.srOnly} aria-live="polite" aria-atomic="true">{announcer.polite}</div>
+            <div className={styles.srOnly} aria-live="assertive" aria-atomic="true">{announcer.assertive}</div>
         </div>
     );
 };
@@ -0,0 +1,53 @@
+import React from 'react';
+import styles from './LinkHealthStats.module.css';
+import type { LinkHealth, LinkRate } from '../device/LinkHealthMonitor';
+
+interface LinkHealthStatsProps {
+    health: LinkHealth;
+}
+
+function formatMs(ms: number | null): string {
+    if (ms === null) return '—';
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+}
+
+function formatRate({ bytesPerSecond, linesPerSecond }: LinkRate): string {
+    return `${Math.round(bytesPerSecond)} B/s · ${linesPerSecond.toFixed(1)} lines/s`;
+}
+
+// Latency, heartbeat timing and traffic of the selected device's link
+const LinkHealthStats: React.FC<LinkHealthStatsProps> = ({ health }) => {
+    const heartbeat = health.heartbeatIntervalMs === null
+        ? '—'
+        : `${formatMs(health.heartbeatIntervalMs)}${health.heartbeatJitterMs !== null ? ` ± ${formatMs(health.heartbeatJitterMs)}` : ''}`;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h3 className={styles.title}>Link Health</h3>
+                <span className={`${styles.badge} ${styles[health.status]}`}>{health.status.toUpperCase()}</span>
+            </div>
+            <dl className={styles.grid}>
+                <dt>Last message</dt>
+                <dd>{health.sinceLastMessageMs === null ? '—' : `${formatMs(health.sinceLastMessageMs)} ago`}</dd>
+                <dt>Heartbeat</dt>
+                <dd>{heartbeat}</dd>
+                <dt>Round trip</dt>
+                <dd>{formatMs(health.rttMs)}</dd>
+                <dt>Received</dt>
+                <dd>{formatRate(health.rx)}</dd>
+                <dt>Sent</dt>
+                <dd>{formatRate(health.tx)}</dd>
+                <dt>Parse errors</dt>
+                <dd>{(health.parseErrorRate * 100).toFixed(0)}%</dd>
+            </dl>
+            {health.reasons.length > 0 && (
+                <ul className={styles.reasons}>
+                    {health.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default LinkHealthStats;
@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Download, Play, RefreshCw, Save, Trash2, Upload } from 'lucide-react';
+import styles from './PresetPanel.module.css';
+import { describePreset, type Preset } from '../presets/presets';
+
+// The shown device and its state, captured by "Save current"
+export interface PresetTarget {
+    key: string;
+    name: string;
+    laserOn: boolean;
+    brightness: number;
+}
+
+interface PresetPanelProps {
+    presets: Preset[];
+    // null without a device
+    current: PresetTarget | null;
+    // Keys of the devices that are connected now
+    connectedKeys: Set<string>;
+    // Another activity has the laser
+    disabled: boolean;
+    onRecall: (preset: Preset) => void;
+    onSave: (preset: Preset) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+}
+
+// Named laser states, recalled in one click on the selected device or the one they were saved for
+const PresetPanel: React.FC<PresetPanelProps> = ({
+    presets,
+    current,
+    connectedKeys,
+    disabled,
+    onRecall,
+    onSave,
+    onDelete,
+    onImport,
+    onExport
+}) => {
+    const [name, setName] = useState<string>('');
+    const [perDevice, setPerDevice] = useState<boolean>(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const capture = (preset: Pick<Preset, 'id' | 'name' | 'deviceKey' | 'deviceName'>): Preset | null =>
+        current && { ...preset, laserOn: current.laserOn, brightness: current.brightness };
+
+    const handleSave = (e: React.FormEvent): void => {
+        e.preventDefault();
+        const preset = capture({
+            id: crypto.randomUUID(),
+            name: name.trim(),
+            deviceKey: perDevice ? current?.key : undefined,
+            deviceName: perDevice ? current?.name : undefined
+        });
+        if (!preset || !preset.name) return;
+        onSave(preset);
+        setName('');
+    };
+
+    const handleUpdate = (preset: Preset): void => {
+        const updated = capture(preset);
+        if (updated && window.confirm(`Overwrite "${preset.name}" with the current state (${describePreset(updated)})?`)) {
+            onSave(updated);
+        }
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Bookmark size={18} /> Presets</h2>
+                <div className={styles.actions}>
+                    <button onClick={onExport} disabled={presets.length === 0} className={styles.button} title="Export JSON">
+                        <Download size={14} />
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className={styles.button} title="Import JSON">
+                        <Upload size={14} />
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+                </div>
+            </div>
+
+            <form onSubmit={handleSave} className={styles.controls}>
+                <input
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    placeholder="Preset name"
+                    aria-label="Preset name"
+                    className={styles.input}
+                />
+                <label className={styles.checkbox}>
+                    <input type="checkbox" checked={perDevice} onChange={e => setPerDevice(e.target.checked)} disabled={!current} />
+                    Only for {current?.name ?? 'this device'}
+                </label>
+                <button type="submit" disabled={!current || !name.trim()} className={`${styles.button} ${styles.primary}`}>
+                    <Save size={14} /> Save current{current && ` (${describePreset(current)})`}
+                </button>
+            </form>
+
+            {presets.length === 0 ? (
+                <div className={styles.empty}>No presets yet. Set the laser up, name it and save it.</div>
+            ) : (
+                <ul className={styles.presets}>
+                    {presets.map(preset => {
+                        const available = preset.deviceKey ? connectedKeys.has(preset.deviceKey) : !!current;
+                        return (
+                            <li key={preset.id} className={styles.preset}>
+                                <button
+                                    onClick={() => onRecall(preset)}
+                                    disabled={disabled || !available}
+                                    className={`${styles.button} ${styles.recall}`}
+                                    title={`Recall ${preset.name}`}
+                                >
+                                    <Play size={14} /> {preset.name}
+                                </button>
+                                <span className={styles.state}>{describePreset(preset)}</span>
+                                {preset.deviceKey && (
+                                    <span className={styles.device} title={preset.deviceKey}>
+                                        {preset.deviceName ?? 'One device'}{!available && ' (not connected)'}
+                                    </span>
+                                )}
+                                <div className={styles.rowActions}>
+                                    <button
+                                        onClick={() => handleUpdate(preset)}
+                                        disabled={!current || (!!preset.deviceKey && preset.deviceKey !== current.key)}
+                                        className={styles.button}
+                                        title="Overwrite with the current state"
+                                    >
+                                        <RefreshCw size={14} />
+                                    </button>
+                                    <button onClick={() => onDelete(preset.id)} className={styles.button} title="Delete preset">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default PresetPanel;
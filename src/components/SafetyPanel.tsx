@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Lock, ShieldCheck, Unlock } from 'lucide-react';
+import styles from './SafetyPanel.module.css';
+import { validateSafetyLimits, type SafetyLimits } from '../device/safetySettings';
+
+interface SafetyPanelProps {
+    limits: SafetyLimits;
+    hasPassword: boolean;
+    verifyPassword: (password: string) => Promise<boolean>;
+    updateSettings: (limits: SafetyLimits, password?: string) => Promise<void>;
+}
+
+type Mode = 'view' | 'unlock' | 'edit';
+
+interface Draft {
+    maxPwm: string;
+    maxOnTimeSec: string;
+    watchdogSec: string;
+    password: string;
+    removePassword: boolean;
+}
+
+function toDraft(limits: SafetyLimits): Draft {
+    return {
+        maxPwm: String(limits.maxPwm),
+        maxOnTimeSec: String(limits.maxOnTimeSec),
+        watchdogSec: String(limits.watchdogSec),
+        password: '',
+        removePassword: false
+    };
+}
+
+// Shows the active safety limits; editing requires the password or an explicit confirmation
+const SafetyPanel: React.FC<SafetyPanelProps> = ({ limits, hasPassword, verifyPassword, updateSettings }) => {
+    const [mode, setMode] = useState<Mode>('view');
+    const [password, setPassword] = useState<string>('');
+    const [draft, setDraft] = useState<Draft>(() => toDraft(limits));
+    const [error, setError] = useState<string | null>(null);
+
+    const startEditing = (): void => {
+        setDraft(toDraft(limits));
+        setError(null);
+        setMode('edit');
+    };
+
+    const cancel = (): void => {
+        setPassword('');
+        setError(null);
+        setMode('view');
+    };
+
+    const unlock = async (e: React.FormEvent): Promise<void> => {
+        e.preventDefault();
+        if (await verifyPassword(password)) {
+            setPassword('');
+            startEditing();
+        } else {
+            setError('Incorrect password');
+        }
+    };
+
+    const save = async (e: React.FormEvent): Promise<void> => {
+        e.preventDefault();
+        const next: SafetyLimits = {
+            maxPwm: Number(draft.maxPwm),
+            maxOnTimeSec: Number(draft.maxOnTimeSec),
+            watchdogSec: Number(draft.watchdogSec)
+        };
+        const problem = validateSafetyLimits(next);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+
+        const newPassword = draft.removePassword ? '' : draft.password || undefined;
+        await updateSettings(next, newPassword);
+        setMode('view');
+    };
+
+    const field = (label: string, key: 'maxPwm' | 'maxOnTimeSec' | 'watchdogSec', hint: string) => (
+        <label className={styles.field}>
+            <span className={styles.fieldLabel}>{label}</span>
+            <input
+                type="number"
+                min="0"
+                value={draft[key]}
+                onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                className={styles.input}
+            />
+            <span className={styles.hint}>{hint}</span>
+        </label>
+    );
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}>
+                    <ShieldCheck size={20} />
+                    Safety Limits
+                </h2>
+                {mode === 'view' && (
+                    <button onClick={() => setMode('unlock')} className={styles.editBtn}>
+                        <Lock size={14} /> Edit limits
+                    </button>
+                )}
+            </div>
+
+            {mode === 'view' && (
+                <div className={styles.summary}>
+                    <div className={styles.item}>
+                        <span className={styles.fieldLabel}>Max brightness</span>
+                        <span className={styles.value}>{limits.maxPwm}%</span>
+                    </div>
+                    <div className={styles.item}>
+                        <span className={styles.fieldLabel}>Max on-time</span>
+                        <span className={styles.value}>{limits.maxOnTimeSec ? `${limits.maxOnTimeSec}s` : 'Unlimited'}</span>
+                    </div>
+                    <div className={styles.item}>
+                        <span className={styles.fieldLabel}>Heartbeat watchdog</span>
+                        <span className={styles.value}>{limits.watchdogSec ? `${limits.watchdogSec}s` : 'Off'}</span>
+                    </div>
+                </div>
+            )}
+
+            {mode === 'unlock' && (
+                <form onSubmit={unlock} className={styles.form}>
+                    {hasPassword ? (
+                        <label className={styles.field}>
+                            <span className={styles.fieldLabel}>Safety password</span>
+                            <input
+                                type="password"
+                                autoFocus
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                className={styles.input}
+                            />
+                        </label>
+                    ) : (
+                        <p className={styles.warning}>
+                            These limits protect people and equipment from a live laser. Only change them if you are
+                            authorised to do so.
+                        </p>
+                    )}
+                    {error && <p className={styles.error}>{error}</p>}
+                    <div className={styles.actions}>
+                        <button type="button" onClick={cancel} className={styles.secondaryBtn}>Cancel</button>
+                        <button type="submit" className={styles.primaryBtn}>
+                            <Unlock size={14} /> {hasPassword ? 'Unlock' : 'I understand, edit limits'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {mode === 'edit' && (
+                <form onSubmit={save} className={styles.form}>
+                    <div className={styles.grid}>
+                        {field('Max brightness (%)', 'maxPwm', 'Highest PWM value that may be sent')}
+                        {field('Max on-time (s)', 'maxOnTimeSec', '0 = unlimited')}
+                        {field('Watchdog window (s)', 'watchdogSec', '0 = disabled')}
+                        <div className={styles.field}>
+                            <span className={styles.fieldLabel}>{hasPassword ? 'New password' : 'Set password'}</span>
+                            <input
+                                type="password"
+                                aria-label={hasPassword ? 'New password' : 'Set password'}
+                                value={draft.password}
+                                disabled={draft.removePassword}
+                                onChange={e => setDraft(prev => ({ ...prev, password: e.target.value }))}
+                                className={styles.input}
+                            />
+                            {hasPassword ? (
+                                <label className={styles.checkbox}>
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.removePassword}
+                                        onChange={e => setDraft(prev => ({ ...prev, removePassword: e.target.checked }))}
+                                    />
+                                    Remove password
+                                </label>
+                            ) : (
+                                <span className={styles.hint}>Optional, leave blank for none</span>
+                            )}
+                        </div>
+                    </div>
+                    {error && <p className={styles.error}>{error}</p>}
+                    <div className={styles.actions}>
+                        <button type="button" onClick={cancel} className={styles.secondaryBtn}>Cancel</button>
+                        <button type="submit" className={styles.primaryBtn}>Save limits</button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default SafetyPanel;
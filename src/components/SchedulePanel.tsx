@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+import styles from './SchedulePanel.module.css';
+import {
+    REPEAT_LABELS,
+    describeScheduleAction,
+    nextOccurrence,
+    validateScheduleEntry,
+    type ScheduleAction,
+    type ScheduleEntry,
+    type ScheduleRepeat,
+    type ScheduledEvent
+} from '../presets/schedule';
+import type { Preset } from '../presets/presets';
+
+interface SchedulePanelProps {
+    entries: ScheduleEntry[];
+    upcoming: ScheduledEvent[];
+    presets: Preset[];
+    // False in a tab that does not own the ports; the owning tab runs the schedule
+    active: boolean;
+    onSave: (entry: ScheduleEntry) => void;
+    onDelete: (id: string) => void;
+}
+
+const OFF_VALUE = 'off';
+
+function today(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function formatEventTime(at: Date): string {
+    return at.toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+// "Daily at 08:00" or "Once on 2026-10-19 at 08:00"
+function describeWhen(entry: ScheduleEntry): string {
+    return entry.repeat === 'once'
+        ? `Once on ${entry.date} at ${entry.time}`
+        : `${REPEAT_LABELS[entry.repeat]} at ${entry.time}`;
+}
+
+// Applies presets or switches the laser off at set times while the app is open
+const SchedulePanel: React.FC<SchedulePanelProps> = ({ entries, upcoming, presets, active, onSave, onDelete }) => {
+    const [actionValue, setActionValue] = useState<string>(OFF_VALUE);
+    const [time, setTime] = useState<string>('08:00');
+    const [repeat, setRepeat] = useState<ScheduleRepeat>('daily');
+    const [date, setDate] = useState<string>(today);
+
+    const action: ScheduleAction = actionValue === OFF_VALUE ? { kind: 'off' } : { kind: 'preset', presetId: actionValue };
+    const draft: ScheduleEntry = {
+        id: '',
+        action,
+        time,
+        repeat,
+        date: repeat === 'once' ? date : undefined,
+        enabled: true
+    };
+    const problem = validateScheduleEntry(draft)
+        ?? (repeat === 'once' && !nextOccurrence(draft, new Date()) ? 'That time has already passed' : undefined);
+
+    const handleAdd = (e: React.FormEvent): void => {
+        e.preventDefault();
+        if (problem) return;
+        onSave({ ...draft, id: crypto.randomUUID() });
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><CalendarClock size={18} /> Schedule</h2>
+            </div>
+
+            <div className={styles.summary}>
+                Scheduled actions only run while the app is open
+                {active ? '.' : ', in the tab that controls the devices.'} Each one is logged in the console,
+                including when it is skipped because its device is not connected.
+            </div>
+
+            <form onSubmit={handleAdd} className={styles.controls}>
+                <select value={actionValue} onChange={e => setActionValue(e.target.value)} className={styles.select} aria-label="Action">
+                    <option value={OFF_VALUE}>Laser off (all devices)</option>
+                    {presets.map(preset => (
+                        <option key={preset.id} value={preset.id}>Preset: {preset.name}</option>
+                    ))}
+                </select>
+                <select value={repeat} onChange={e => setRepeat(e.target.value as ScheduleRepeat)} className={styles.select} aria-label="Repeat">
+                    {(Object.keys(REPEAT_LABELS) as ScheduleRepeat[]).map(option => (
+                        <option key={option} value={option}>{REPEAT_LABELS[option]}</option>
+                    ))}
+                </select>
+                {repeat === 'once' && (
+                    <input type="date" value={date} onChange={e => setDate(e.target.value)} className={styles.input} aria-label="Date" />
+                )}
+                <input type="time" value={time} onChange={e => setTime(e.target.value)} className={styles.input} aria-label="Time" />
+                <button type="submit" disabled={!!problem} className={`${styles.button} ${styles.primary}`}>
+                    <Plus size={14} /> Add
+                </button>
+            </form>
+            {problem && <div className={styles.error} role="alert">{problem}</div>}
+
+            {entries.length > 0 && (
+                <ul className={styles.entries}>
+                    {entries.map(entry => (
+                        <li key={entry.id} className={`${styles.entry} ${entry.enabled ? '' : styles.inactive}`}>
+                            <label className={styles.checkbox}>
+                                <input
+                                    type="checkbox"
+                                    checked={entry.enabled}
+                                    onChange={e => onSave({ ...entry, enabled: e.target.checked })}
+                                    aria-label="Enabled"
+                                />
+                                {describeWhen(entry)}
+                            </label>
+                            <span className={styles.action}>{describeScheduleAction(entry.action, presets)}</span>
+                            <button onClick={() => onDelete(entry.id)} className={styles.button} title="Delete entry">
+                                <Trash2 size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <h3 className={styles.subtitle}>Upcoming</h3>
+            {upcoming.length > 0 ? (
+                <ol className={styles.upcoming}>
+                    {upcoming.map(event => (
+                        <li key={`${event.entry.id}-${event.at.getTime()}`} className={styles.event}>
+                            <span className={styles.when}>{formatEventTime(event.at)}</span>
+                            <span>{describeScheduleAction(event.entry.action, presets)}</span>
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <div className={styles.empty}>Nothing scheduled</div>
+            )}
+        </div>
+    );
+};
+
+export default SchedulePanel;
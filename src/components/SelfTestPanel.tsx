@@ -0,0 +1,128 @@
+import React from 'react';
+import { CheckCircle2, Download, FileText, MinusCircle, Play, Square, Stethoscope, XCircle } from 'lucide-react';
+import styles from './SelfTestPanel.module.css';
+import { validateSelfTestOptions, type SelfTestCheck, type SelfTestOptions, type SelfTestReport } from '../selftest/selfTest';
+import type { SelfTestProgress } from '../selftest/SelfTestRunner';
+
+interface SelfTestPanelProps {
+    deviceName: string | null;
+    options: SelfTestOptions;
+    onOptionsChange: (changes: Partial<SelfTestOptions>) => void;
+    // Highest brightness the test will step to
+    maxLevel: number;
+    running: boolean;
+    progress: SelfTestProgress | null;
+    checks: SelfTestCheck[];
+    report: SelfTestReport | null;
+    // Another activity has the laser, or this tab does not control it
+    disabled: boolean;
+    onRun: () => void;
+    onStop: () => void;
+    onExportJson: () => void;
+    onExportHtml: () => void;
+}
+
+const STATUS_ICONS = {
+    pass: <CheckCircle2 size={16} className={styles.passIcon} aria-label="Passed" />,
+    fail: <XCircle size={16} className={styles.failIcon} aria-label="Failed" />,
+    skip: <MinusCircle size={16} className={styles.skipIcon} aria-label="Skipped" />
+};
+
+// Runs the automated self-test and shows its pass/fail report
+const SelfTestPanel: React.FC<SelfTestPanelProps> = ({
+    deviceName,
+    options,
+    onOptionsChange,
+    maxLevel,
+    running,
+    progress,
+    checks,
+    report,
+    disabled,
+    onRun,
+    onStop,
+    onExportJson,
+    onExportHtml
+}) => {
+    const problem = validateSelfTestOptions(options);
+
+    const handleRun = (): void => {
+        if (window.confirm(`The self-test switches the laser on and steps it up to ${maxLevel}%. Make sure the beam path is safe before continuing.`)) {
+            onRun();
+        }
+    };
+
+    const verdict = report && (!report.completed ? 'Incomplete' : report.passed ? 'Passed' : 'Failed');
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}><Stethoscope size={18} /> Self-Test</h2>
+                <span className={styles.device}>{deviceName ?? 'Connects a device first'}</span>
+            </div>
+
+            <div className={styles.summary}>
+                Checks the initial state handshake, the firmware version, switching and every brightness step against
+                the device's status reports, command latency and heartbeat regularity.
+            </div>
+
+            <div className={styles.controls}>
+                <label className={styles.field}>
+                    Minimum firmware
+                    <input
+                        value={options.minFirmwareVersion}
+                        onChange={e => onOptionsChange({ minFirmwareVersion: e.target.value })}
+                        disabled={running}
+                        className={styles.input}
+                        aria-invalid={!!problem}
+                    />
+                </label>
+                {running ? (
+                    <button onClick={onStop} className={`${styles.button} ${styles.primary}`}>
+                        <Square size={14} /> Stop
+                    </button>
+                ) : (
+                    <button onClick={handleRun} disabled={disabled || !!problem} className={`${styles.button} ${styles.primary}`}>
+                        <Play size={14} /> Run self-test
+                    </button>
+                )}
+                <button onClick={onExportJson} disabled={!report || running} className={styles.button}>
+                    <Download size={14} /> JSON
+                </button>
+                <button onClick={onExportHtml} disabled={!report || running} className={styles.button}>
+                    <FileText size={14} /> Printable report
+                </button>
+            </div>
+            {problem && <div className={styles.error} role="alert">{problem}</div>}
+
+            {progress && (
+                <div className={styles.progress} role="status">
+                    Step {progress.step} of {progress.steps}: {progress.name}…
+                </div>
+            )}
+
+            {checks.length > 0 && (
+                <ul className={styles.checks}>
+                    {checks.map((check, index) => (
+                        <li key={index} className={styles.check}>
+                            {STATUS_ICONS[check.status]}
+                            <span className={styles.checkName}>{check.name}</span>
+                            <span className={styles.checkDetail}>
+                                {check.detail}
+                                {check.latencyMs !== undefined && ` (${Math.round(check.latencyMs)} ms)`}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {verdict && !running && (
+                <div className={`${styles.verdict} ${report?.passed ? styles.passed : styles.failed}`} role="status">
+                    Self-test {verdict.toLowerCase()}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SelfTestPanel;
@@ -0,0 +1,319 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AudioWaveform, Download, Pause, Play, Plus, Save, Square, Trash2, Upload } from 'lucide-react';
+import styles from './SequencerPanel.module.css';
+import {
+    levelAt,
+    passDuration,
+    sequenceDuration,
+    type Segment,
+    type Sequence,
+    type WaveShape
+} from '../sequencer/sequence';
+import type { PlayerOptions, PlayerProgress, PlayerState } from '../sequencer/SequencePlayer';
+
+interface SequencerPanelProps {
+    sequences: Sequence[];
+    playerState: PlayerState;
+    progress: PlayerProgress | null;
+    isConnected: boolean;
+    // Connected devices; with more than one the sequence can play on all of them
+    deviceCount: number;
+    onPlay: (sequence: Sequence, options: Partial<PlayerOptions>, all: boolean) => void;
+    onPause: () => void;
+    onResume: () => void;
+    onStop: () => void;
+    onSave: (sequence: Sequence) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: (sequences: Sequence[]) => void;
+}
+
+const NEW_SEGMENTS: Record<Segment['kind'], Segment> = {
+    step: { kind: 'step', level: 50, holdMs: 1000 },
+    ramp: { kind: 'ramp', from: 0, to: 100, durationMs: 2000 },
+    wave: { kind: 'wave', shape: 'sine', periodMs: 1000, amplitude: 25, offset: 50, durationMs: 5000 }
+};
+
+const PREVIEW_WIDTH = 300;
+const PREVIEW_HEIGHT = 60;
+
+function newSequence(): Sequence {
+    return { id: crypto.randomUUID(), name: 'New sequence', loops: 1, segments: [NEW_SEGMENTS.step] };
+}
+
+function formatMs(ms: number): string {
+    return Number.isFinite(ms) ? `${(ms / 1000).toFixed(1)}s` : '∞';
+}
+
+// Editor and transport controls for brightness sequences
+const SequencerPanel: React.FC<SequencerPanelProps> = ({
+    sequences,
+    playerState,
+    progress,
+    isConnected,
+    deviceCount,
+    onPlay,
+    onPause,
+    onResume,
+    onStop,
+    onSave,
+    onDelete,
+    onImport,
+    onExport
+}) => {
+    const [draft, setDraft] = useState<Sequence>(() => sequences[0] ?? newSequence());
+    const [minIntervalMs, setMinIntervalMs] = useState<number>(100);
+    const [switchLaser, setSwitchLaser] = useState<boolean>(true);
+    const [playOnAll, setPlayOnAll] = useState<boolean>(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const busy = playerState !== 'idle';
+    const pass = passDuration(draft);
+
+    // One pass of the draft, sampled for the preview
+    const previewPath = useMemo(() => {
+        if (pass <= 0) return '';
+        const points: string[] = [];
+        for (let x = 0; x <= PREVIEW_WIDTH; x += 2) {
+            const level = levelAt(draft, (x / PREVIEW_WIDTH) * pass * 0.9999);
+            points.push(`${x},${PREVIEW_HEIGHT - (level / 100) * PREVIEW_HEIGHT}`);
+        }
+        return `M${points.join(' L')}`;
+    }, [draft, pass]);
+
+    const updateSegment = (index: number, changes: Partial<Segment>): void => {
+        setDraft(prev => ({
+            ...prev,
+            segments: prev.segments.map((segment, i) => i === index ? { ...segment, ...changes } as Segment : segment)
+        }));
+    };
+
+    const removeSegment = (index: number): void => {
+        setDraft(prev => ({ ...prev, segments: prev.segments.filter((_, i) => i !== index) }));
+    };
+
+    const addSegment = (kind: Segment['kind']): void => {
+        setDraft(prev => ({ ...prev, segments: [...prev.segments, NEW_SEGMENTS[kind]] }));
+    };
+
+    const selectSequence = (id: string): void => {
+        const selected = sequences.find(s => s.id === id);
+        if (selected) setDraft(selected);
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    const numberInput = (label: string, value: number, onChange: (value: number) => void, min = 0) => (
+        <label className={styles.segmentField}>
+            <span>{label}</span>
+            <input
+                type="number"
+                min={min}
+                value={value}
+                disabled={busy}
+                onChange={e => onChange(Number(e.target.value))}
+                className={styles.input}
+            />
+        </label>
+    );
+
+    const renderSegment = (segment: Segment, index: number) => (
+        <div key={index} className={styles.segment}>
+            <span className={styles.segmentKind}>{index + 1}. {segment.kind}</span>
+            {segment.kind === 'step' && (
+                <>
+                    {numberInput('Level %', segment.level, level => updateSegment(index, { level }))}
+                    {numberInput('Hold ms', segment.holdMs, holdMs => updateSegment(index, { holdMs }))}
+                </>
+            )}
+            {segment.kind === 'ramp' && (
+                <>
+                    {numberInput('From %', segment.from, from => updateSegment(index, { from }))}
+                    {numberInput('To %', segment.to, to => updateSegment(index, { to }))}
+                    {numberInput('Duration ms', segment.durationMs, durationMs => updateSegment(index, { durationMs }))}
+                </>
+            )}
+            {segment.kind === 'wave' && (
+                <>
+                    <label className={styles.segmentField}>
+                        <span>Shape</span>
+                        <select
+                            value={segment.shape}
+                            disabled={busy}
+                            onChange={e => updateSegment(index, { shape: e.target.value as WaveShape })}
+                            className={styles.input}
+                        >
+                            <option value="sine">Sine</option>
+                            <option value="triangle">Triangle</option>
+                            <option value="square">Square</option>
+                        </select>
+                    </label>
+                    {numberInput('Offset %', segment.offset, offset => updateSegment(index, { offset }))}
+                    {numberInput('Amplitude %', segment.amplitude, amplitude => updateSegment(index, { amplitude }))}
+                    {numberInput('Period ms', segment.periodMs, periodMs => updateSegment(index, { periodMs }), 1)}
+                    {numberInput('Duration ms', segment.durationMs, durationMs => updateSegment(index, { durationMs }))}
+                </>
+            )}
+            <button
+                onClick={() => removeSegment(index)}
+                disabled={busy}
+                className={styles.iconBtn}
+                aria-label={`Remove segment ${index + 1}`}
+            >
+                <Trash2 size={14} />
+            </button>
+        </div>
+    );
+
+    // Editing and switching sequences are locked while playing, so the draft is what plays
+    const progressPercent = progress && Number.isFinite(progress.totalMs) && progress.totalMs > 0
+        ? (progress.elapsedMs / progress.totalMs) * 100
+        : progress ? ((progress.elapsedMs % pass) / pass) * 100 : 0;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}>
+                    <AudioWaveform size={20} />
+                    Sequencer
+                </h2>
+                <div className={styles.libraryActions}>
+                    <select
+                        value={sequences.some(s => s.id === draft.id) ? draft.id : ''}
+                        onChange={e => selectSequence(e.target.value)}
+                        disabled={busy}
+                        className={styles.input}
+                    >
+                        {!sequences.some(s => s.id === draft.id) && <option value="">(unsaved)</option>}
+                        {sequences.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <button onClick={() => setDraft(newSequence())} disabled={busy} className={styles.iconBtn} title="New sequence">
+                        <Plus size={14} />
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className={styles.iconBtn} title="Import JSON">
+                        <Upload size={14} />
+                    </button>
+                    <button onClick={() => onExport(sequences)} disabled={sequences.length === 0} className={styles.iconBtn} title="Export all as JSON">
+                        <Download size={14} />
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+                </div>
+            </div>
+
+            <div className={styles.meta}>
+                <label className={styles.segmentField}>
+                    <span>Name</span>
+                    <input
+                        value={draft.name}
+                        disabled={busy}
+                        onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                        className={styles.input}
+                    />
+                </label>
+                {numberInput('Loops (0 = endless)', draft.loops, loops => setDraft(prev => ({ ...prev, loops: Math.max(0, Math.round(loops)) })))}
+                <div className={styles.metaActions}>
+                    <button onClick={() => onSave(draft)} disabled={busy || !draft.name.trim()} className={styles.textBtn}>
+                        <Save size={14} /> Save
+                    </button>
+                    <button
+                        onClick={() => {
+                            onDelete(draft.id);
+                            setDraft(sequences.find(s => s.id !== draft.id) ?? newSequence());
+                        }}
+                        disabled={busy || !sequences.some(s => s.id === draft.id)}
+                        className={styles.textBtn}
+                    >
+                        <Trash2 size={14} /> Delete
+                    </button>
+                </div>
+            </div>
+
+            <div className={styles.segments}>
+                {draft.segments.map(renderSegment)}
+            </div>
+
+            <div className={styles.addRow}>
+                <button onClick={() => addSegment('step')} disabled={busy} className={styles.textBtn}>+ Step</button>
+                <button onClick={() => addSegment('ramp')} disabled={busy} className={styles.textBtn}>+ Ramp</button>
+                <button onClick={() => addSegment('wave')} disabled={busy} className={styles.textBtn}>+ Waveform</button>
+            </div>
+
+            <svg
+                className={styles.preview}
+                viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+                preserveAspectRatio="none"
+                aria-label="Sequence preview"
+            >
+                <path d={previewPath} />
+            </svg>
+            <div className={styles.duration}>
+                One pass: {formatMs(pass)} · Total: {formatMs(sequenceDuration(draft))}
+            </div>
+
+            <div className={styles.options}>
+                {numberInput('Min interval ms', minIntervalMs, value => setMinIntervalMs(Math.max(20, value)), 20)}
+                <label className={styles.checkbox}>
+                    <input
+                        type="checkbox"
+                        checked={switchLaser}
+                        disabled={busy}
+                        onChange={e => setSwitchLaser(e.target.checked)}
+                    />
+                    Switch laser on/off with the sequence
+                </label>
+                {deviceCount > 1 && (
+                    <label className={styles.checkbox}>
+                        <input
+                            type="checkbox"
+                            checked={playOnAll}
+                            disabled={busy}
+                            onChange={e => setPlayOnAll(e.target.checked)}
+                        />
+                        Play on all {deviceCount} devices in sync
+                    </label>
+                )}
+            </div>
+
+            <div className={styles.transport}>
+                {playerState === 'idle' && (
+                    <button
+                        onClick={() => onPlay(draft, { minIntervalMs, switchLaser }, playOnAll && deviceCount > 1)}
+                        disabled={!isConnected || draft.segments.length === 0 || pass <= 0}
+                        className={styles.playBtn}
+                    >
+                        <Play size={16} /> Play
+                    </button>
+                )}
+                {playerState === 'playing' && (
+                    <button onClick={onPause} className={styles.playBtn}>
+                        <Pause size={16} /> Pause
+                    </button>
+                )}
+                {playerState === 'paused' && (
+                    <button onClick={onResume} className={styles.playBtn}>
+                        <Play size={16} /> Resume
+                    </button>
+                )}
+                <button onClick={onStop} disabled={!busy} className={styles.textBtn}>
+                    <Square size={14} /> Stop
+                </button>
+                {progress && (
+                    <span className={styles.progressText}>
+                        {formatMs(progress.elapsedMs)} / {formatMs(progress.totalMs)} · {progress.level}%
+                    </span>
+                )}
+            </div>
+            {progress && (
+                <div className={styles.progressBar}>
+                    <div className={styles.progressFill} style={{ width: `${progressPercent}%` }}></div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SequencerPanel;
@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileVideo, Trash2 } from 'lucide-react';
+import styles from './SessionPanel.module.css';
+import type { ReplayProgress } from '../hooks/useSessionRecording';
+
+interface SessionPanelProps {
+    entryCount: number;
+    dropped: number;
+    replayProgress: ReplayProgress | null;
+    canReplay: boolean;
+    onExportJsonl: () => void;
+    onExportCsv: () => void;
+    onClear: () => void;
+    onReplay: (file: File, speed: number) => void;
+}
+
+const SPEEDS = [1, 2, 5, 20];
+
+// Export of the raw session log and replay of a recorded file
+const SessionPanel: React.FC<SessionPanelProps> = ({
+    entryCount,
+    dropped,
+    replayProgress,
+    canReplay,
+    onExportJsonl,
+    onExportCsv,
+    onClear,
+    onReplay
+}) => {
+    const [speed, setSpeed] = useState<number>(1);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        if (file) onReplay(file, speed);
+        e.target.value = '';
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}>Session Recording</h2>
+                <span className={styles.count}>
+                    {entryCount.toLocaleString()} lines{dropped > 0 ? ` (${dropped.toLocaleString()} oldest dropped)` : ''}
+                </span>
+            </div>
+
+            <div className={styles.actions}>
+                <button onClick={onExportJsonl} disabled={entryCount === 0} className={styles.button}>
+                    <Download size={14} /> JSONL
+                </button>
+                <button onClick={onExportCsv} disabled={entryCount === 0} className={styles.button}>
+                    <Download size={14} /> CSV
+                </button>
+                <button onClick={onClear} disabled={entryCount === 0} className={styles.button}>
+                    <Trash2 size={14} /> Clear
+                </button>
+
+                <div className={styles.replay}>
+                    <select
+                        value={speed}
+                        onChange={e => setSpeed(Number(e.target.value))}
+                        className={styles.select}
+                        aria-label="Replay speed"
+                    >
+                        {SPEEDS.map(value => <option key={value} value={value}>{value}×</option>)}
+                    </select>
+                    <button onClick={() => fileInputRef.current?.click()} disabled={!canReplay} className={styles.button}>
+                        <FileVideo size={14} /> Replay file…
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".jsonl,.csv,application/x-ndjson,text/csv" onChange={handleFile} hidden />
+                </div>
+            </div>
+
+            {replayProgress && (
+                <div className={styles.progress}>
+                    <div className={styles.progressBar}>
+                        <div
+                            className={styles.progressFill}
+                            style={{ width: `${(replayProgress.index / replayProgress.total) * 100}%` }}
+                        ></div>
+                    </div>
+                    <span>{replayProgress.index} / {replayProgress.total}</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SessionPanel;
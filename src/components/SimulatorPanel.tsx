@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import styles from './SimulatorPanel.module.css';
+import type { SimulatedTransport, SimulatorFaults } from '../device/SimulatedTransport';
+
+interface SimulatorPanelProps {
+    simulator: SimulatedTransport;
+}
+
+const RATE_OPTIONS = [0, 0.05, 0.2, 0.5];
+
+// Fault injection controls for the built-in virtual laser
+const SimulatorPanel: React.FC<SimulatorPanelProps> = ({ simulator }) => {
+    const [faults, setFaults] = useState<SimulatorFaults>(() => simulator.getFaults());
+
+    const updateFaults = (changes: Partial<SimulatorFaults>): void => {
+        simulator.setFaults(changes);
+        setFaults(simulator.getFaults());
+    };
+
+    const renderRate = (label: string, key: 'dropRate' | 'garbageRate') => (
+        <label className={styles.field}>
+            <span className={styles.fieldLabel}>{label}</span>
+            <select
+                value={faults[key]}
+                onChange={e => updateFaults({ [key]: Number(e.target.value) })}
+                className={styles.select}
+            >
+                {RATE_OPTIONS.map(rate => (
+                    <option key={rate} value={rate}>{rate === 0 ? 'Off' : `${rate * 100}%`}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <FlaskConical size={18} />
+                <span className={styles.title}>Simulator Faults</span>
+            </div>
+
+            <div className={styles.grid}>
+                {renderRate('Dropped lines', 'dropRate')}
+                {renderRate('Garbage bytes', 'garbageRate')}
+                <label className={styles.checkbox}>
+                    <input
+                        type="checkbox"
+                        checked={faults.muted}
+                        onChange={e => updateFaults({ muted: e.target.checked })}
+                    />
+                    Firmware hung (no output)
+                </label>
+            </div>
+
+            <div className={styles.actions}>
+                <button onClick={() => simulator.simulateReadError()} className={styles.action}>
+                    Read error
+                </button>
+                <button onClick={() => simulator.simulateDisconnect()} className={`${styles.action} ${styles.danger}`}>
+                    Pull the cable
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SimulatorPanel;
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import styles from './TelemetryCharts.module.css';
+import type { RebootEvent, TelemetrySample } from '../telemetry/TelemetryStore';
+
+interface TelemetryChartsProps {
+    samples: readonly TelemetrySample[];
+    lastReboot: RebootEvent | null;
+    onClear: () => void;
+}
+
+const WINDOWS = [
+    { label: '1 min', ms: 60 * 1000 },
+    { label: '5 min', ms: 5 * 60 * 1000 },
+    { label: '15 min', ms: 15 * 60 * 1000 },
+    { label: '1 h', ms: 60 * 60 * 1000 },
+    { label: 'All', ms: Infinity }
+];
+
+const WIDTH = 300;
+const HEIGHT = 60;
+// More points than this are thinned out before drawing
+const MAX_POINTS = 600;
+
+interface Series {
+    label: string;
+    format: (value: number) => string;
+    value: (sample: TelemetrySample) => number | undefined;
+    // Fixed range; otherwise fitted to the data
+    range?: [number, number];
+    step?: boolean;
+}
+
+const SERIES: Series[] = [
+    {
+        label: 'Free heap',
+        format: value => `${(value / 1024).toFixed(1)} kB`,
+        value: sample => sample.freeHeap
+    },
+    {
+        label: 'Brightness',
+        format: value => `${Math.round(value)}%`,
+        value: sample => sample.brightness,
+        range: [0, 100]
+    },
+    {
+        label: 'Laser',
+        format: value => (value ? 'ON' : 'OFF'),
+        value: sample => (sample.laserOn === undefined ? undefined : Number(sample.laserOn)),
+        range: [0, 1],
+        step: true
+    }
+];
+
+function buildPath(points: Array<{ x: number; y: number }>, step: boolean): string {
+    return points
+        .map((point, i) => {
+            if (i === 0) return `M${point.x},${point.y}`;
+            return step ? `H${point.x} V${point.y}` : `L${point.x},${point.y}`;
+        })
+        .join(' ');
+}
+
+// Rolling charts of the telemetry history over a selectable window
+const TelemetryCharts: React.FC<TelemetryChartsProps> = ({ samples, lastReboot, onClear }) => {
+    const [windowMs, setWindowMs] = useState<number>(WINDOWS[1].ms);
+
+    const visible = useMemo(() => {
+        if (samples.length === 0) return [];
+        const end = samples[samples.length - 1].time;
+        const inWindow = samples.filter(sample => sample.time >= end - windowMs);
+        const stride = Math.ceil(inWindow.length / MAX_POINTS);
+        return stride > 1 ? inWindow.filter((_, i) => i % stride === 0 || i === inWindow.length - 1) : inWindow;
+    }, [samples, windowMs]);
+
+    const renderChart = (series: Series) => {
+        const values = visible.flatMap(sample => {
+            const value = series.value(sample);
+            return value === undefined ? [] : [{ time: sample.time, value }];
+        });
+        if (values.length === 0) {
+            return (
+                <div key={series.label} className={styles.chart}>
+                    <div className={styles.chartHeader}>
+                        <span className={styles.chartLabel}>{series.label}</span>
+                        <span className={styles.chartValue}>—</span>
+                    </div>
+                    <div className={styles.empty}>No data yet</div>
+                </div>
+            );
+        }
+
+        const start = visible[0].time;
+        const span = Math.max(1, visible[visible.length - 1].time - start);
+        const [min, max] = series.range ?? [
+            Math.min(...values.map(v => v.value)),
+            Math.max(...values.map(v => v.value))
+        ];
+        const spread = max - min || 1;
+        const points = values.map(v => ({
+            x: ((v.time - start) / span) * WIDTH,
+            y: HEIGHT - 2 - ((v.value - min) / spread) * (HEIGHT - 4)
+        }));
+        const rebootX = lastReboot && lastReboot.time >= start ? ((lastReboot.time - start) / span) * WIDTH : null;
+
+        return (
+            <div key={series.label} className={styles.chart}>
+                <div className={styles.chartHeader}>
+                    <span className={styles.chartLabel}>{series.label}</span>
+                    <span className={styles.chartValue}>{series.format(values[values.length - 1].value)}</span>
+                </div>
+                <svg
+                    className={styles.plot}
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    preserveAspectRatio="none"
+                    aria-label={`${series.label} chart`}
+                >
+                    {rebootX !== null && <line x1={rebootX} x2={rebootX} y1={0} y2={HEIGHT} className={styles.rebootLine} />}
+                    <path d={buildPath(points, series.step === true)} />
+                </svg>
+                {!series.range && (
+                    <div className={styles.range}>
+                        {series.format(min)} – {series.format(max)}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className={styles.telemetry}>
+            <div className={styles.toolbar}>
+                <div className={styles.windows}>
+                    {WINDOWS.map(option => (
+                        <button
+                            key={option.label}
+                            onClick={() => setWindowMs(option.ms)}
+                            className={`${styles.windowBtn} ${windowMs === option.ms ? styles.windowActive : ''}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={onClear} className={styles.windowBtn}>Clear history</button>
+            </div>
+            {lastReboot && (
+                <div className={styles.reboot}>
+                    Last reboot detected at {new Date(lastReboot.time).toLocaleTimeString()}
+                </div>
+            )}
+            <div className={styles.charts}>
+                {SERIES.map(renderChart)}
+            </div>
+        </div>
+    );
+};
+
+export default TelemetryCharts;
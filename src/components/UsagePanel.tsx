@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Wrench } from 'lucide-react';
+import styles from './UsagePanel.module.css';
+import { formatHours, summarizeUsage, type UsageEvent, type UsageRange } from '../usage/usage';
+
+interface UsagePanelProps {
+    deviceName: string | null;
+    events: UsageEvent[];
+    // The shown device is connected and on, so its last span is still growing
+    laserOnNow: boolean;
+    sinceServiceMs: number;
+    serviceOverdue: boolean;
+    serviceIntervalHours: number;
+    onServiceIntervalChange: (hours: number) => void;
+    onMarkServiced: () => void;
+    onExport: (range: UsageRange) => void;
+}
+
+// Most recent entries listed in the history
+const HISTORY_ROWS = 200;
+
+// Date input value (local midnight) to epoch milliseconds
+function dayStart(value: string): number | undefined {
+    return value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+}
+
+// Ledger totals, service interval and a date-filtered history of the shown device
+const UsagePanel: React.FC<UsagePanelProps> = ({
+    deviceName,
+    events,
+    laserOnNow,
+    sinceServiceMs,
+    serviceOverdue,
+    serviceIntervalHours,
+    onServiceIntervalChange,
+    onMarkServiced,
+    onExport
+}) => {
+    const [fromDate, setFromDate] = useState<string>('');
+    const [toDate, setToDate] = useState<string>('');
+    const [showCheckpoints, setShowCheckpoints] = useState<boolean>(false);
+
+    const from = dayStart(fromDate);
+    const toStart = dayStart(toDate);
+    // The "to" day is inclusive
+    const range: UsageRange = { from, to: toStart === undefined ? undefined : toStart + 86400000 - 1 };
+
+    const summary = summarizeUsage(events, range, laserOnNow ? Date.now() : undefined);
+
+    const history = useMemo(() => events
+        .filter(event => (from === undefined || event.time >= from) && (toStart === undefined || event.time < toStart + 86400000))
+        .filter(event => showCheckpoints || event.kind !== 'checkpoint')
+        .slice(-HISTORY_ROWS)
+        .reverse(), [events, from, toStart, showCheckpoints]);
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <h2 className={styles.title}>Laser Usage</h2>
+                <span className={styles.device}>{deviceName ?? 'No device yet'}</span>
+            </div>
+
+            {serviceOverdue && (
+                <div className={styles.warning} role="alert">
+                    Service due: {formatHours(sinceServiceMs)} on since the last service (interval {serviceIntervalHours} h)
+                </div>
+            )}
+
+            <div className={styles.totals}>
+                <div className={styles.total}>
+                    <span className={styles.totalLabel}>On-time</span>
+                    <span className={styles.totalValue}>{formatHours(summary.onMs)}</span>
+                </div>
+                <div className={styles.total}>
+                    <span className={styles.totalLabel}>Energy-weighted</span>
+                    <span className={styles.totalValue}>{summary.energyHours.toFixed(2)} h</span>
+                </div>
+                <div className={styles.total}>
+                    <span className={styles.totalLabel}>Switch cycles</span>
+                    <span className={styles.totalValue}>{summary.cycles}</span>
+                </div>
+                <div className={styles.total}>
+                    <span className={styles.totalLabel}>Since service</span>
+                    <span className={styles.totalValue}>{formatHours(sinceServiceMs)}</span>
+                </div>
+            </div>
+
+            <div className={styles.controls}>
+                <label className={styles.field}>
+                    From
+                    <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={styles.input} />
+                </label>
+                <label className={styles.field}>
+                    To
+                    <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={styles.input} />
+                </label>
+                <label className={styles.checkbox}>
+                    <input type="checkbox" checked={showCheckpoints} onChange={e => setShowCheckpoints(e.target.checked)} />
+                    Checkpoints
+                </label>
+                <button onClick={() => onExport(range)} disabled={events.length === 0} className={styles.button}>
+                    <Download size={14} /> CSV
+                </button>
+            </div>
+
+            <div className={styles.controls}>
+                <label className={styles.field}>
+                    Service every
+                    <input
+                        type="number"
+                        min={1}
+                        value={serviceIntervalHours}
+                        onChange={e => onServiceIntervalChange(Number(e.target.value))}
+                        className={styles.input}
+                    />
+                    h
+                </label>
+                <button onClick={onMarkServiced} disabled={!deviceName} className={styles.button}>
+                    <Wrench size={14} /> Mark serviced
+                </button>
+            </div>
+
+            <div className={styles.history}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Time</th>
+                            <th>Entry</th>
+                            <th>Laser</th>
+                            <th>Level</th>
+                            <th>Source</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {history.map(event => (
+                            <tr key={event.id ?? `${event.time}-${event.kind}`}>
+                                <td>{new Date(event.time).toLocaleString()}</td>
+                                <td>{event.kind}</td>
+                                <td>{event.laserOn ? 'ON' : 'OFF'}</td>
+                                <td>{event.brightness}%</td>
+                                <td>{event.source}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {history.length === 0 && <div className={styles.empty}>No usage recorded in this range</div>}
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
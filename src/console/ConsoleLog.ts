@@ -0,0 +1,63 @@
+import { Emitter } from '../device/Emitter';
+import type { ConsoleDetails, ConsoleEntry, ConsoleSource } from '../types/console';
+
+export interface ConsoleLogEvents {
+    // Every entry as it is logged, before the batched change
+    entry: ConsoleEntry;
+    // The entries changed; at most once per flush interval
+    change: void;
+}
+
+export const MAX_CONSOLE_ENTRIES = 50000;
+// Old entries are dropped in chunks so trimming is not a copy per line
+const TRIM_SLACK = 1000;
+const FLUSH_INTERVAL = 100;
+
+// Console history outside React state: lines are collected and published in
+// batches, so a burst of traffic re-renders the console once rather than
+// re-rendering the control panel for every line
+export class ConsoleLog extends Emitter<ConsoleLogEvents> {
+    private items: ConsoleEntry[] = [];
+    // Logged since the last flush
+    private pending: ConsoleEntry[] = [];
+    private nextId = 0;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Oldest first; replaced, never mutated, on each flush
+    get entries(): readonly ConsoleEntry[] {
+        return this.items;
+    }
+
+    append(message: string, type: ConsoleEntry['type'] = 'info', source?: ConsoleSource, details: ConsoleDetails = {}): void {
+        this.add({ timestamp: new Date(), message, type, source, ...details });
+    }
+
+    // Entries logged elsewhere (another tab), keeping their timestamps
+    appendEntries(entries: ConsoleEntry[]): void {
+        entries.forEach(entry => this.add({ ...entry }));
+    }
+
+    clear(): void {
+        this.pending = [];
+        this.items = [];
+        this.append('Console cleared', 'success');
+    }
+
+    private add(fields: Omit<ConsoleEntry, 'id'>): void {
+        const entry: ConsoleEntry = { ...fields, id: this.nextId++ };
+        this.pending.push(entry);
+        this.emit('entry', entry);
+        this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_INTERVAL);
+    }
+
+    private flush(): void {
+        this.flushTimer = null;
+        let next = this.items.concat(this.pending);
+        if (next.length > MAX_CONSOLE_ENTRIES + TRIM_SLACK) {
+            next = next.slice(-MAX_CONSOLE_ENTRIES);
+        }
+        this.items = next;
+        this.pending = [];
+        this.emit('change');
+    }
+}
@@ -0,0 +1,126 @@
+import type { ConsoleEntry } from '../types/console';
+
+export type ConsoleEntryType = ConsoleEntry['type'];
+
+export const CONSOLE_ENTRY_TYPES: ConsoleEntryType[] = ['info', 'success', 'warning', 'error', 'json'];
+
+// sent/received is link traffic; app covers the controller's own messages
+export type DirectionFilter = 'all' | 'sent' | 'received' | 'app';
+
+export interface ConsoleFilter {
+    types: ConsoleEntryType[];
+    direction: DirectionFilter;
+    // Device id; empty for every device
+    source: string;
+    search: string;
+    regex: boolean;
+    collapseHeartbeats: boolean;
+}
+
+export const DEFAULT_CONSOLE_FILTER: ConsoleFilter = {
+    types: CONSOLE_ENTRY_TYPES,
+    direction: 'all',
+    source: '',
+    search: '',
+    regex: false,
+    collapseHeartbeats: true
+};
+
+// An entry to show; collapsed heartbeats carry how many they stand for
+export interface ConsoleRow {
+    entry: ConsoleEntry;
+    count: number;
+}
+
+export type SearchPattern = { ok: true; pattern: RegExp | null } | { ok: false; error: string };
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive search; null when there is nothing to search for
+export function compileSearch(search: string, regex: boolean): SearchPattern {
+    if (!search) return { ok: true, pattern: null };
+    try {
+        return { ok: true, pattern: new RegExp(regex ? search : escapeRegExp(search), 'gi') };
+    } catch (error) {
+        return { ok: false, error: (error as Error).message };
+    }
+}
+
+function matchesDirection(entry: ConsoleEntry, direction: DirectionFilter): boolean {
+    if (direction === 'all') return true;
+    if (direction === 'app') return entry.direction === undefined;
+    return entry.direction === direction;
+}
+
+function matches(pattern: RegExp, text: string): boolean {
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+}
+
+// Applies the filter and, when enabled, folds each device's heartbeats into
+// one row until something else is logged
+export function buildRows(entries: readonly ConsoleEntry[], filter: ConsoleFilter, pattern: RegExp | null): ConsoleRow[] {
+    const types = new Set(filter.types);
+    const rows: ConsoleRow[] = [];
+    // Latest heartbeat row per device since the last other row
+    let heartbeats = new Map<string, ConsoleRow>();
+
+    for (const entry of entries) {
+        if (!types.has(entry.type) || !matchesDirection(entry, filter.direction)) continue;
+        if (filter.source && entry.source?.id !== filter.source) continue;
+        if (pattern && !matches(pattern, entry.message)) continue;
+
+        if (filter.collapseHeartbeats && entry.messageType === 'heartbeat') {
+            const key = entry.source?.id ?? '';
+            const previous = heartbeats.get(key);
+            if (previous) {
+                previous.entry = entry;
+                previous.count++;
+                continue;
+            }
+            const row = { entry, count: 1 };
+            heartbeats.set(key, row);
+            rows.push(row);
+            continue;
+        }
+
+        if (heartbeats.size > 0) heartbeats = new Map();
+        rows.push({ entry, count: 1 });
+    }
+    return rows;
+}
+
+// Splits text into plain and matching parts for highlighting
+export function highlightParts(text: string, pattern: RegExp | null): Array<{ text: string; match: boolean }> {
+    if (!pattern) return [{ text, match: false }];
+    const parts: Array<{ text: string; match: boolean }> = [];
+    let last = 0;
+    for (const found of text.matchAll(pattern)) {
+        // Empty matches (e.g. /a*/) would highlight nothing
+        if (found[0] === '') continue;
+        if (found.index > last) parts.push({ text: text.slice(last, found.index), match: false });
+        parts.push({ text: found[0], match: true });
+        last = found.index + found[0].length;
+    }
+    if (last < text.length) parts.push({ text: text.slice(last), match: false });
+    return parts;
+}
+
+const expanded = new WeakMap<ConsoleEntry, string>();
+
+// JSON entries pretty-printed, cached per entry; other entries unchanged
+export function expandedText(entry: ConsoleEntry): string {
+    if (entry.type !== 'json') return entry.message;
+    let text = expanded.get(entry);
+    if (text === undefined) {
+        try {
+            text = JSON.stringify(JSON.parse(entry.message), null, 2);
+        } catch {
+            text = entry.message;
+        }
+        expanded.set(entry, text);
+    }
+    return text;
+}
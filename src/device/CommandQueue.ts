@@ -0,0 +1,180 @@
+import type { ParsedLine } from './protocol';
+
+// Decides whether a device line confirms the in-flight command
+export type AckMatcher = (response: ParsedLine) => boolean;
+
+export interface CommandOptions {
+    // Without a matcher the command completes as soon as it is written
+    expect?: AckMatcher;
+    // A queued (not yet sent) command with the same key is replaced
+    coalesceKey?: string;
+    timeoutMs?: number;
+    retries?: number;
+}
+
+export type CommandErrorReason = 'timeout' | 'superseded' | 'disconnected' | 'refused' | 'aborted';
+
+export class CommandError extends Error {
+    readonly command: string;
+    readonly reason: CommandErrorReason;
+
+    constructor(command: string, reason: CommandErrorReason, message: string) {
+        super(message);
+        this.name = 'CommandError';
+        this.command = command;
+        this.reason = reason;
+    }
+}
+
+interface Entry {
+    command: string;
+    options: Required<Omit<CommandOptions, 'expect' | 'coalesceKey'>> & Pick<CommandOptions, 'expect' | 'coalesceKey'>;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+interface InFlight {
+    entry: Entry;
+    acknowledged: boolean;
+    // performance.now() of the latest write
+    sentAt: number;
+    wake: () => void;
+}
+
+// Reports how long the device took to confirm a command
+export type AckListener = (command: string, rttMs: number) => void;
+
+export const DEFAULT_COMMAND_TIMEOUT = 1000;
+export const DEFAULT_COMMAND_RETRIES = 2;
+
+// Serialises writes and waits for the device to confirm each command,
+// re-sending it on timeout before giving up.
+export class CommandQueue {
+    private readonly write: (command: string) => Promise<void>;
+    private readonly onAcknowledged: AckListener | undefined;
+    private queue: Entry[] = [];
+    private inFlight: InFlight | null = null;
+    private running = false;
+
+    constructor(write: (command: string) => Promise<void>, onAcknowledged?: AckListener) {
+        this.write = write;
+        this.onAcknowledged = onAcknowledged;
+    }
+
+    get size(): number {
+        return this.queue.length + (this.inFlight ? 1 : 0);
+    }
+
+    enqueue(command: string, options: CommandOptions = {}): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const entry: Entry = {
+                command,
+                options: {
+                    timeoutMs: DEFAULT_COMMAND_TIMEOUT,
+                    retries: DEFAULT_COMMAND_RETRIES,
+                    ...options
+                },
+                resolve,
+                reject
+            };
+
+            if (options.coalesceKey) {
+                this.queue = this.queue.filter(queued => {
+                    if (queued.options.coalesceKey !== options.coalesceKey) return true;
+                    queued.reject(new CommandError(queued.command, 'superseded', `${queued.command} superseded by ${command}`));
+                    return false;
+                });
+            }
+
+            this.queue.push(entry);
+            void this.run();
+        });
+    }
+
+    // Feed every parsed device line through here
+    handleResponse(response: ParsedLine): void {
+        const current = this.inFlight;
+        if (current && !current.acknowledged && current.entry.options.expect?.(response)) {
+            current.acknowledged = true;
+            // Reported before the line's own events, so listeners see the command first
+            this.onAcknowledged?.(current.entry.command, performance.now() - current.sentAt);
+            current.wake();
+        }
+    }
+
+    // Rejects everything queued or in flight, e.g. when the link drops
+    clear(reason: CommandErrorReason = 'disconnected'): void {
+        const entries = this.queue;
+        this.queue = [];
+        for (const entry of entries) {
+            entry.reject(new CommandError(entry.command, reason, `${entry.command} cancelled: ${reason}`));
+        }
+        if (this.inFlight) {
+            const { entry, wake, acknowledged } = this.inFlight;
+            this.inFlight = null;
+            wake();
+            // Already confirmed by the device, only not yet settled
+            if (acknowledged) {
+                entry.resolve();
+            } else {
+                entry.reject(new CommandError(entry.command, reason, `${entry.command} cancelled: ${reason}`));
+            }
+        }
+    }
+
+    private async run(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            let entry: Entry | undefined;
+            while ((entry = this.queue.shift())) {
+                await this.execute(entry);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async execute(entry: Entry): Promise<void> {
+        const { expect, timeoutMs, retries } = entry.options;
+        const flight: InFlight = { entry, acknowledged: false, sentAt: 0, wake: () => undefined };
+        this.inFlight = flight;
+
+        try {
+            for (let attempt = 0; attempt <= retries; attempt++) {
+                flight.sentAt = performance.now();
+                await this.write(entry.command);
+                if (this.inFlight !== flight) return; // cleared meanwhile
+                if (!expect) {
+                    entry.resolve();
+                    return;
+                }
+
+                await new Promise<void>(resolve => {
+                    const timer = setTimeout(resolve, timeoutMs);
+                    flight.wake = () => {
+                        clearTimeout(timer);
+                        resolve();
+                    };
+                    if (flight.acknowledged) flight.wake();
+                });
+
+                if (this.inFlight !== flight) return;
+                if (flight.acknowledged) {
+                    entry.resolve();
+                    return;
+                }
+            }
+
+            entry.reject(new CommandError(
+                entry.command,
+                'timeout',
+                `Device did not confirm ${entry.command} after ${retries + 1} attempts`
+            ));
+        } catch (error) {
+            entry.reject(error as Error);
+        } finally {
+            if (this.inFlight === flight) this.inFlight = null;
+        }
+    }
+}
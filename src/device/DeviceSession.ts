@@ -0,0 +1,328 @@
+import { Emitter } from './Emitter';
+import { CommandError } from './CommandQueue';
+import { LaserDevice, type TextLine } from './LaserDevice';
+import type { Transport } from './Transport';
+import type { DeviceMessage, DeviceReport, ParseIssue } from './protocol';
+import type { ConsoleDetails, ConsoleEntry, ConsoleSource, LogMessage } from '../types/console';
+
+export interface DeviceStats {
+    uptime: number;
+    freeHeap: number;
+    firmwareVersion: string;
+}
+
+export interface PendingCommands {
+    laser: boolean;
+    brightness: boolean;
+}
+
+// What the UI shows for one device
+export interface DeviceSnapshot {
+    name: string;
+    laserOn: boolean;
+    laserBrightness: number;
+    brightnessInitialized: boolean;
+    deviceStats: DeviceStats;
+    pending: PendingCommands;
+    // Received lines that could not be used
+    parseIssues: { unknown: number; malformed: number };
+}
+
+export interface DeviceSessionEvents {
+    change: DeviceSnapshot;
+    // Link closed; carries the cause when it was unexpected
+    disconnect: Error | undefined;
+}
+
+export interface DeviceSessionOptions {
+    id: string;
+    // Stable identity of the physical device, used to remember its name
+    key: string;
+    name: string;
+    logMessage: LogMessage;
+}
+
+type CommandOutcome = 'confirmed' | 'superseded' | 'failed';
+
+export const INITIAL_STATS: DeviceStats = {
+    uptime: 0,
+    freeHeap: 45600,
+    firmwareVersion: 'Unknown'
+};
+
+// One connected laser controller: mirrors what the firmware reports and runs
+// UI commands optimistically, rolling back when the device never confirms them
+export class DeviceSession extends Emitter<DeviceSessionEvents> {
+    readonly id: string;
+    readonly key: string;
+    readonly device: LaserDevice;
+    private readonly logMessage: LogMessage;
+    private state: DeviceSnapshot;
+
+    // Last state the device itself reported or confirmed; rollback target
+    private readonly confirmed = { laserOn: false, brightness: 50 };
+
+    // Commands awaiting confirmation; device reports don't override these
+    private readonly pendingCount = { laser: 0, brightness: 0 };
+
+    constructor(transport: Transport, { id, key, name, logMessage }: DeviceSessionOptions) {
+        super();
+        this.id = id;
+        this.key = key;
+        this.logMessage = logMessage;
+        this.state = {
+            name,
+            laserOn: false,
+            laserBrightness: 50,
+            brightnessInitialized: false,
+            deviceStats: INITIAL_STATS,
+            pending: { laser: false, brightness: false },
+            parseIssues: { unknown: 0, malformed: 0 }
+        };
+
+        const device = new LaserDevice(transport);
+        device.on('connect', () => this.log('Successfully connected to laser device!', 'success'));
+        // Keep-alive pings and their replies stay out of the console; a ping
+        // that goes unanswered shows up in the link health instead
+        const isPing = (command: string): boolean => device.pinging && command === 'GET_INITIAL_STATE';
+        device.on('sent', command => {
+            if (!isPing(command)) this.log(`Sent: ${command}`, 'warning', { direction: 'sent' });
+        });
+        device.on('emergency_stop', () => this.update({ laserOn: false }));
+        device.on('initial_state', message => this.handleInitialState(message));
+        // Liveness pings refresh the stats only, leaving the slider and console alone
+        device.on('ping_reply', message => this.updateStats(message));
+        device.on('status', message => this.handleStatus(message));
+        device.on('heartbeat', message => this.handleStatus(message));
+        device.on('message', (message: DeviceMessage) => {
+            if (message.type === 'initial_state' && device.pinging) return;
+            this.log(JSON.stringify(message), 'json', { direction: 'received', messageType: message.type });
+        });
+        device.on('text', line => this.handleText(line));
+        device.on('parse_issue', issue => this.handleParseIssue(issue));
+        device.on('error', error => this.log(`Device error: ${error.message}`, 'error'));
+        device.on('disconnect', cause => this.handleDisconnect(cause));
+        this.device = device;
+    }
+
+    get snapshot(): DeviceSnapshot {
+        return this.state;
+    }
+
+    get name(): string {
+        return this.state.name;
+    }
+
+    // Tags console entries with this device
+    get source(): ConsoleSource {
+        return { id: this.id, name: this.state.name };
+    }
+
+    rename(name: string): void {
+        this.update({ name });
+    }
+
+    // Resolves to false (after logging why) when the link could not be opened
+    async connect(): Promise<boolean> {
+        try {
+            await this.device.connect();
+            return true;
+        } catch (error) {
+            this.log(`Connection failed: ${(error as Error).message}`, 'error');
+            return false;
+        }
+    }
+
+    // Switches the laser off first unless `switchOff` is false
+    async disconnect(options?: { switchOff?: boolean }): Promise<void> {
+        try {
+            await this.device.disconnect(options);
+        } catch (error) {
+            this.log(`Port close error: ${(error as Error).message}`, 'error');
+        }
+    }
+
+    // Moves the slider without sending anything
+    setLocalBrightness(brightness: number): void {
+        this.update({ laserBrightness: brightness });
+    }
+
+    // Optimistically shows the new state, rolling back if the device never confirms it
+    async setLaser(on: boolean): Promise<boolean> {
+        this.update({ laserOn: on });
+        this.changePending('laser', 1);
+        const outcome = await this.run(device => on ? device.laserOn() : device.laserOff());
+        this.changePending('laser', -1);
+
+        if (outcome === 'confirmed') {
+            this.confirmed.laserOn = on;
+        } else if (outcome === 'failed' && this.pendingCount.laser === 0) {
+            const confirmed = this.confirmed.laserOn;
+            this.update({ laserOn: confirmed });
+            this.log(`Laser switch reverted to ${confirmed ? 'ON' : 'OFF'}`, 'warning');
+        }
+        return outcome === 'confirmed';
+    }
+
+    async sendBrightness(brightness: number): Promise<boolean> {
+        this.changePending('brightness', 1);
+        const outcome = await this.run(device => device.setPwm(brightness));
+        this.changePending('brightness', -1);
+
+        if (outcome === 'confirmed') {
+            this.confirmed.brightness = brightness;
+        } else if (outcome === 'failed' && this.pendingCount.brightness === 0) {
+            const confirmed = this.confirmed.brightness;
+            this.update({ laserBrightness: confirmed });
+            this.log(`Brightness reverted to ${confirmed}%`, 'warning');
+        }
+        return outcome === 'confirmed';
+    }
+
+    private log(message: string, type?: ConsoleEntry['type'], details?: ConsoleDetails): void {
+        this.logMessage(message, type, this.source, details);
+    }
+
+    private update(changes: Partial<DeviceSnapshot>): void {
+        this.state = { ...this.state, ...changes };
+        this.emit('change', this.state);
+    }
+
+    private changePending(key: keyof PendingCommands, delta: number): void {
+        this.pendingCount[key] += delta;
+        const { laser, brightness } = this.pendingCount;
+        this.update({ pending: { laser: laser > 0, brightness: brightness > 0 } });
+    }
+
+    // Runs a device command, reporting failures to the console
+    private async run(action: (device: LaserDevice) => Promise<void>): Promise<CommandOutcome> {
+        if (!this.device.isConnected) {
+            this.log('No connection available', 'error');
+            return 'failed';
+        }
+
+        try {
+            await action(this.device);
+            return 'confirmed';
+        } catch (error) {
+            if (error instanceof CommandError) {
+                if (error.reason === 'superseded' || error.reason === 'aborted') return 'superseded';
+                // Refusals are reported by the guard that raised them
+                if (error.reason !== 'refused') this.log(error.message, 'error');
+            } else {
+                this.log(`Send error: ${(error as Error).message}`, 'error');
+            }
+            return 'failed';
+        }
+    }
+
+    private applyBrightness(brightness: number): void {
+        this.confirmed.brightness = brightness;
+        if (this.pendingCount.brightness > 0) return;
+        this.update({ laserBrightness: brightness, brightnessInitialized: true });
+    }
+
+    private applyLaserState(on: boolean): void {
+        this.confirmed.laserOn = on;
+        if (this.pendingCount.laser > 0) return;
+        this.update({ laserOn: on });
+    }
+
+    private updateStats(message: DeviceReport): void {
+        const prev = this.state.deviceStats;
+        this.update({
+            deviceStats: {
+                firmwareVersion: message.version || prev.firmwareVersion,
+                uptime: message.uptime_ms ? Math.floor(message.uptime_ms / 1000) : prev.uptime,
+                freeHeap: message.free_heap_bytes || prev.freeHeap
+            }
+        });
+    }
+
+    private handleInitialState(message: DeviceReport): void {
+        this.log('Received initial device state from firmware', 'success');
+
+        if (message.laser_state !== undefined) {
+            this.applyLaserState(message.laser_state);
+        }
+
+        if (message.laser_brightness !== undefined) {
+            const deviceBrightness = message.laser_brightness || 50;
+            this.applyBrightness(deviceBrightness);
+            this.log(`Brightness synced from device: ${deviceBrightness}%`, 'info');
+        }
+
+        this.updateStats(message);
+    }
+
+    private handleStatus(message: DeviceReport): void {
+        this.updateStats(message);
+
+        // Update laser state from firmware
+        if (message.laser_state !== undefined) {
+            this.applyLaserState(message.laser_state);
+        }
+
+        // Update laser brightness from firmware
+        if (message.laser_brightness !== undefined) {
+            const firmwareBrightness = message.laser_brightness || 0;
+
+            // If brightness hasn't been initialized yet, use the firmware value
+            if (!this.state.brightnessInitialized) {
+                this.applyBrightness(firmwareBrightness);
+                this.log(`Brightness sync from heartbeat: ${firmwareBrightness}%`, 'info');
+            } else if (Math.abs(firmwareBrightness - this.state.laserBrightness) > 2) {
+                // Only update if significantly different to avoid fighting with user input
+                this.applyBrightness(firmwareBrightness);
+            } else {
+                this.confirmed.brightness = firmwareBrightness;
+            }
+        }
+    }
+
+    private handleText({ text, info }: TextLine): void {
+        this.log(text, info.error ? 'error' : 'success', { direction: 'received' });
+
+        if (info.firmwareVersion) {
+            this.update({ deviceStats: { ...this.state.deviceStats, firmwareVersion: info.firmwareVersion } });
+        }
+
+        if (info.brightness !== undefined) {
+            this.applyBrightness(info.brightness);
+            switch (info.brightnessSource) {
+                case 'preferences':
+                    this.log(`Device brightness restored from preferences: ${info.brightness}%`, 'info');
+                    break;
+                case 'initialized':
+                    this.log(`Brightness initialized: ${info.brightness}%`, 'info');
+                    break;
+                case 'manual':
+                    this.log(`Manual brightness sync: ${info.brightness}%`, 'info');
+                    break;
+            }
+        }
+
+        if (info.laserOn !== undefined) {
+            this.applyLaserState(info.laserOn);
+        }
+
+        if (info.connectionDetected) {
+            this.log('Firmware detected UI connection', 'info');
+        }
+    }
+
+    private handleParseIssue(issue: ParseIssue): void {
+        const { unknown, malformed } = this.device.parseReport;
+        this.update({ parseIssues: { unknown, malformed } });
+        const label = issue.kind === 'unknown' ? `Unknown line #${unknown}` : `Malformed message #${malformed}`;
+        this.log(`${label} (${issue.reason}): ${issue.text}`, 'warning', { direction: 'received' });
+    }
+
+    private handleDisconnect(cause: Error | undefined): void {
+        if (cause) {
+            this.log('Device disconnected unexpectedly', 'warning');
+        }
+        this.log('Serial connection closed', 'warning');
+        this.emit('disconnect', cause);
+    }
+}
@@ -0,0 +1,28 @@
+export type Listener<T> = (payload: T) => void;
+
+// Arguments for emit(): events typed as `void` take no payload
+type EmitArgs<T> = [T] extends [void] ? [] : [T];
+
+// Small typed event emitter shared by transports and device clients
+export class Emitter<Events extends object> {
+    private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+    on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+        set.add(listener);
+        this.listeners[event] = set;
+        return () => this.off(event, listener);
+    }
+
+    off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    protected emit<K extends keyof Events>(event: K, ...args: EmitArgs<Events[K]>): void {
+        const set = this.listeners[event];
+        if (!set) return;
+        for (const listener of [...set]) {
+            listener(args[0] as Events[K]);
+        }
+    }
+}
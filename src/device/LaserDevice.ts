@@ -0,0 +1,315 @@
+import { Emitter } from './Emitter';
+import type { Transport } from './Transport';
+import { CommandError, CommandQueue, type AckMatcher, type CommandOptions } from './CommandQueue';
+import {
+    LineDecoder,
+    configCommand,
+    confirmsBrightness,
+    confirmsConfig,
+    confirmsInitialState,
+    confirmsLaserState,
+    encodeCommand,
+    pwmCommand,
+    type ConfigMessage,
+    type DeviceConfig,
+    type DeviceMessage,
+    type HeartbeatMessage,
+    type InitialStateMessage,
+    type LegacyTextInfo,
+    type ParseIssue,
+    type StatusMessage
+} from './protocol';
+import { LineParser, type ParseReport } from './parser/LineParser';
+
+export interface TextLine {
+    text: string;
+    info: LegacyTextInfo;
+}
+
+export interface LaserDeviceEvents {
+    // Link is open; the initial state request has been queued
+    connect: void;
+    initial_state: InitialStateMessage;
+    // An initial_state answering ping(): proof of life, not a fresh sync
+    ping_reply: InitialStateMessage;
+    status: StatusMessage;
+    heartbeat: HeartbeatMessage;
+    config: ConfigMessage;
+    // Raw bytes as they arrive, before line splitting
+    received: Uint8Array;
+    // Every received line, before parsing
+    line: string;
+    // Every JSON message, including the typed ones above
+    message: DeviceMessage;
+    // Legacy plain-text lines
+    text: TextLine;
+    // A line no decoder understood or one that failed validation
+    parse_issue: ParseIssue;
+    sent: string;
+    // The device confirmed a queued command this long after it was written
+    acknowledged: { command: string; rttMs: number };
+    // Raw bytes written with sendBytes()
+    sent_bytes: Uint8Array;
+    // emergencyStop() was called; anything driving the laser must stop
+    emergency_stop: void;
+    // Recoverable transport error
+    error: Error;
+    // Connection ended; carries the cause when it was unexpected
+    disconnect: Error | undefined;
+}
+
+// Returns a reason to refuse the command, or undefined to allow it
+export type CommandGuard = (command: string) => string | undefined;
+
+// Protocol client for the laser controller, independent of the byte transport
+export class LaserDevice extends Emitter<LaserDeviceEvents> {
+    readonly transport: Transport;
+    private readonly decoder = new LineDecoder();
+    private readonly parser = new LineParser();
+    private readonly queue = new CommandQueue(
+        command => this.send(command),
+        (command, rttMs) => this.emit('acknowledged', { command, rttMs })
+    );
+    private unsubscribers: Array<() => void> = [];
+    private guards = new Set<CommandGuard>();
+    private connected = false;
+    // ping() calls awaiting their reply
+    private pings = 0;
+
+    constructor(transport: Transport) {
+        super();
+        this.transport = transport;
+    }
+
+    get isConnected(): boolean {
+        return this.connected;
+    }
+
+    // Counts of received lines that could not be used
+    get parseReport(): ParseReport {
+        return this.parser.report;
+    }
+
+    // Opens the link and asks the firmware for its current state
+    async connect(): Promise<void> {
+        this.decoder.reset();
+        this.unsubscribers = [
+            this.transport.on('data', chunk => this.handleData(chunk)),
+            this.transport.on('error', error => this.emit('error', error)),
+            this.transport.on('close', cause => this.handleClose(cause))
+        ];
+
+        try {
+            await this.transport.open();
+        } catch (error) {
+            this.detach();
+            throw error;
+        }
+
+        this.connected = true;
+        this.emit('connect');
+
+        // The firmware answers with an initial_state message
+        this.getInitialState().catch(error => this.emit('error', error));
+    }
+
+    // Switches the laser off (best effort) before closing the link unless
+    // `switchOff` is false
+    async disconnect({ switchOff = true }: { switchOff?: boolean } = {}): Promise<void> {
+        if (!this.connected) return;
+        if (switchOff) {
+            this.queue.clear('aborted');
+            await this.send('LASER_OFF').catch(() => undefined);
+        }
+        await this.transport.close();
+    }
+
+    // Drops every queued command and writes LASER_OFF immediately
+    async emergencyStop(): Promise<void> {
+        this.queue.clear('aborted');
+        this.emit('emergency_stop');
+        await this.send('LASER_OFF');
+    }
+
+    // A ping() is waiting for its reply
+    get pinging(): boolean {
+        return this.pings > 0;
+    }
+
+    // Number of commands waiting for confirmation
+    get pendingCommands(): number {
+        return this.queue.size;
+    }
+
+    // Registers a check every outgoing command must pass
+    addGuard(guard: CommandGuard): () => void {
+        this.guards.add(guard);
+        return () => this.guards.delete(guard);
+    }
+
+    // Writes a command immediately, bypassing the queue and acknowledgement
+    async send(command: string): Promise<void> {
+        if (!this.connected) {
+            throw new Error('No connection available');
+        }
+        this.checkGuards(command);
+        await this.transport.write(encodeCommand(command, this.transport.lineEnding));
+        this.emit('sent', command);
+    }
+
+    // Writes raw bytes, e.g. from the console's hex mode. Every line in them
+    // has to pass the guards, and the last one has to be finished: the firmware
+    // would put an open line in front of the next command, so a LASER_OFF or
+    // an emergency stop would arrive as a command it ignores.
+    async sendBytes(data: Uint8Array): Promise<void> {
+        if (!this.connected) {
+            throw new Error('No connection available');
+        }
+        const lines = new TextDecoder().decode(data).split(/\r\n|\r|\n/);
+        if (lines.pop() !== '') {
+            throw new Error('Raw data must end with a line ending (0A or 0D)');
+        }
+        lines.forEach(line => {
+            if (line.trim()) this.checkGuards(line);
+        });
+        await this.transport.write(data);
+        this.emit('sent_bytes', data);
+    }
+
+    // Queues a command; resolves once the device confirms it, rejects with a
+    // CommandError when it never does
+    request(command: string, options: CommandOptions = {}): Promise<void> {
+        if (!this.connected) {
+            return Promise.reject(new Error('No connection available'));
+        }
+        // Refuse up front so a rejected command cannot supersede a queued one
+        try {
+            this.checkGuards(command);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+        return this.queue.enqueue(command, options);
+    }
+
+    laserOn(): Promise<void> {
+        return this.request('LASER_ON', { expect: confirmsLaserState(true), coalesceKey: 'laser' });
+    }
+
+    laserOff(): Promise<void> {
+        return this.request('LASER_OFF', { expect: confirmsLaserState(false), coalesceKey: 'laser' });
+    }
+
+    async setPwm(value: number): Promise<void> {
+        const command = pwmCommand(value);
+        return this.request(command, { expect: confirmsBrightness(value), coalesceKey: 'pwm' });
+    }
+
+    getInitialState(): Promise<void> {
+        return this.request('GET_INITIAL_STATE', { expect: confirmsInitialState, coalesceKey: 'sync' });
+    }
+
+    // Persistent configuration. Not retried: firmware without config support
+    // never answers, so a timeout means the board cannot be configured.
+    readConfig(timeoutMs = 1500): Promise<ConfigMessage> {
+        return this.requestConfig('GET_CONFIG', confirmsConfig(), { retries: 0, timeoutMs });
+    }
+
+    // Stores one setting; resolves with the config once it shows the new value
+    writeConfig<K extends keyof DeviceConfig>(key: K, value: NonNullable<DeviceConfig[K]>): Promise<ConfigMessage> {
+        return this.requestConfig(configCommand(key, value), confirmsConfig(key, value), { coalesceKey: `config:${key}` });
+    }
+
+    // Round trip of a state request in milliseconds; not retried, so a lost
+    // reply shows up as a timeout instead of an inflated latency
+    async ping(timeoutMs = 2000): Promise<number> {
+        const started = performance.now();
+        this.pings++;
+        try {
+            await this.request('GET_INITIAL_STATE', { expect: confirmsInitialState, coalesceKey: 'sync', retries: 0, timeoutMs });
+        } finally {
+            this.pings--;
+        }
+        return performance.now() - started;
+    }
+
+    // Requests a command answered by a config report and resolves with it
+    private async requestConfig(command: string, expect: AckMatcher, options: CommandOptions): Promise<ConfigMessage> {
+        let config: ConfigMessage | undefined;
+        await this.request(command, {
+            ...options,
+            expect: response => {
+                if (!expect(response) || response.kind !== 'json' || response.message.type !== 'config') return false;
+                config = response.message;
+                return true;
+            }
+        });
+        if (!config) throw new Error(`${command} finished without a config report`);
+        return config;
+    }
+
+    private checkGuards(command: string): void {
+        for (const guard of this.guards) {
+            const reason = guard(command);
+            if (reason) {
+                throw new CommandError(command, 'refused', reason);
+            }
+        }
+    }
+
+    private handleData(chunk: Uint8Array): void {
+        this.emit('received', chunk);
+        for (const line of this.decoder.push(chunk)) {
+            this.handleLine(line);
+        }
+    }
+
+    private handleLine(line: string): void {
+        this.emit('line', line);
+        const parsed = this.parser.parse(line);
+        this.queue.handleResponse(parsed);
+
+        switch (parsed.kind) {
+            case 'text':
+                this.emit('text', { text: parsed.text, info: parsed.info });
+                return;
+            case 'unknown':
+            case 'malformed':
+                this.emit('parse_issue', parsed);
+                return;
+        }
+
+        const message = parsed.message;
+        switch (message.type) {
+            case 'initial_state':
+                if (this.pings > 0) {
+                    this.emit('ping_reply', message);
+                } else {
+                    this.emit('initial_state', message);
+                }
+                break;
+            case 'status':
+                this.emit('status', message);
+                break;
+            case 'heartbeat':
+                this.emit('heartbeat', message);
+                break;
+            case 'config':
+                this.emit('config', message);
+                break;
+        }
+        this.emit('message', message);
+    }
+
+    private handleClose(cause: Error | undefined): void {
+        this.detach();
+        this.queue.clear('disconnected');
+        if (!this.connected) return;
+        this.connected = false;
+        this.emit('disconnect', cause);
+    }
+
+    private detach(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+    }
+}
@@ -0,0 +1,242 @@
+import { Emitter } from './Emitter';
+import type { LaserDevice } from './LaserDevice';
+
+export type LinkStatus = 'ok' | 'degraded' | 'stale';
+
+// Traffic in one direction over the rate window
+export interface LinkRate {
+    bytesPerSecond: number;
+    linesPerSecond: number;
+}
+
+export interface LinkHealth {
+    status: LinkStatus;
+    // Why the link is not ok; empty when it is
+    reasons: string[];
+    // Null until the first line arrives
+    sinceLastMessageMs: number | null;
+    heartbeatIntervalMs: number | null;
+    // Standard deviation of the heartbeat interval
+    heartbeatJitterMs: number | null;
+    // Average round trip of recently confirmed commands and pings
+    rttMs: number | null;
+    rx: LinkRate;
+    tx: LinkRate;
+    // Share of lines in the rate window that could not be parsed, 0..1
+    parseErrorRate: number;
+}
+
+export interface LinkHealthOptions {
+    // Stale without data for this long, or three heartbeat intervals if longer
+    staleAfterMs: number;
+    // Ping when no command was confirmed for this long; 0 disables pinging,
+    // e.g. for a replay that cannot answer
+    pingIntervalMs: number;
+    rateWindowMs: number;
+    maxRttMs: number;
+    // Jitter as a share of the heartbeat interval
+    maxJitterRatio: number;
+    maxParseErrorRate: number;
+}
+
+export interface LinkHealthMonitorEvents {
+    change: LinkHealth;
+}
+
+export const DEFAULT_LINK_HEALTH_OPTIONS: LinkHealthOptions = {
+    staleAfterMs: 5000,
+    pingIntervalMs: 15000,
+    rateWindowMs: 5000,
+    maxRttMs: 500,
+    maxJitterRatio: 0.5,
+    maxParseErrorRate: 0.1
+};
+
+export const INITIAL_LINK_HEALTH: LinkHealth = {
+    status: 'ok',
+    reasons: [],
+    sinceLastMessageMs: null,
+    heartbeatIntervalMs: null,
+    heartbeatJitterMs: null,
+    rttMs: null,
+    rx: { bytesPerSecond: 0, linesPerSecond: 0 },
+    tx: { bytesPerSecond: 0, linesPerSecond: 0 },
+    parseErrorRate: 0
+};
+
+// Samples kept for the interval and latency averages
+const HISTORY = 20;
+const UPDATE_INTERVAL = 1000;
+// Lines needed in the window before the parse error rate counts
+const MIN_LINES_FOR_ERROR_RATE = 5;
+
+interface TrafficEvent {
+    time: number;
+    bytes: number;
+    lines: number;
+    errors: number;
+}
+
+function pushLimited(values: number[], value: number): void {
+    values.push(value);
+    if (values.length > HISTORY) values.shift();
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function formatSeconds(ms: number): string {
+    return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Watches a connected device for signs of trouble that don't close the link:
+// silence (a hung firmware), slow or failed confirmations, irregular
+// heartbeats and unparseable output.
+export class LinkHealthMonitor extends Emitter<LinkHealthMonitorEvents> {
+    private readonly device: LaserDevice;
+    private readonly options: LinkHealthOptions;
+    private lastMessageAt: number | null = null;
+    private lastHeartbeatAt: number | null = null;
+    private lastAckAt = performance.now();
+    private pingFailed = false;
+    private pinging = false;
+    private readonly intervals: number[] = [];
+    private readonly rtts: number[] = [];
+    private readonly rxEvents: TrafficEvent[] = [];
+    private readonly txEvents: TrafficEvent[] = [];
+    private current: LinkHealth = INITIAL_LINK_HEALTH;
+    private readonly cleanup: Array<() => void>;
+    private readonly timer: ReturnType<typeof setInterval>;
+
+    constructor(device: LaserDevice, options: Partial<LinkHealthOptions> = {}) {
+        super();
+        this.device = device;
+        this.options = { ...DEFAULT_LINK_HEALTH_OPTIONS, ...options };
+
+        this.cleanup = [
+            device.on('received', chunk => this.track(this.rxEvents, chunk.length, 0)),
+            device.on('line', () => {
+                this.lastMessageAt = performance.now();
+                this.track(this.rxEvents, 0, 1);
+            }),
+            device.on('parse_issue', () => this.track(this.rxEvents, 0, 0, 1)),
+            device.on('heartbeat', () => this.handleHeartbeat()),
+            device.on('sent', command => this.track(this.txEvents, command.length + 1, 1)),
+            device.on('sent_bytes', data => this.track(this.txEvents, data.length, 1)),
+            device.on('acknowledged', ({ rttMs }) => {
+                this.lastAckAt = performance.now();
+                this.pingFailed = false;
+                pushLimited(this.rtts, rttMs);
+            })
+        ];
+        this.timer = setInterval(() => this.update(), UPDATE_INTERVAL);
+    }
+
+    get health(): LinkHealth {
+        return this.current;
+    }
+
+    dispose(): void {
+        clearInterval(this.timer);
+        this.cleanup.forEach(unsubscribe => unsubscribe());
+    }
+
+    private track(events: TrafficEvent[], bytes: number, lines: number, errors = 0): void {
+        events.push({ time: performance.now(), bytes, lines, errors });
+    }
+
+    private handleHeartbeat(): void {
+        const now = performance.now();
+        if (this.lastHeartbeatAt !== null) {
+            pushLimited(this.intervals, now - this.lastHeartbeatAt);
+        }
+        this.lastHeartbeatAt = now;
+    }
+
+    // Sums the traffic within the rate window, dropping older events
+    private rate(events: TrafficEvent[], now: number): TrafficEvent {
+        const from = now - this.options.rateWindowMs;
+        while (events.length > 0 && events[0].time < from) events.shift();
+        return events.reduce(
+            (total, event) => ({
+                time: now,
+                bytes: total.bytes + event.bytes,
+                lines: total.lines + event.lines,
+                errors: total.errors + event.errors
+            }),
+            { time: now, bytes: 0, lines: 0, errors: 0 }
+        );
+    }
+
+    private ping(): void {
+        if (this.pinging || !this.device.isConnected) return;
+        this.pinging = true;
+        this.device.ping()
+            .catch(() => {
+                this.pingFailed = true;
+                this.lastAckAt = performance.now();
+            })
+            .finally(() => { this.pinging = false; });
+    }
+
+    private update(): void {
+        if (!this.device.isConnected) return;
+        const now = performance.now();
+        const { options } = this;
+
+        // Ping only when idle; confirmed commands already measure the latency
+        if (options.pingIntervalMs > 0 && now - this.lastAckAt >= options.pingIntervalMs && this.device.pendingCommands === 0) {
+            this.ping();
+        }
+
+        const seconds = options.rateWindowMs / 1000;
+        const rx = this.rate(this.rxEvents, now);
+        const tx = this.rate(this.txEvents, now);
+
+        const heartbeatIntervalMs = this.intervals.length > 0 ? mean(this.intervals) : null;
+        const heartbeatJitterMs = heartbeatIntervalMs !== null && this.intervals.length > 1
+            ? Math.sqrt(mean(this.intervals.map(interval => (interval - heartbeatIntervalMs) ** 2)))
+            : null;
+        const rttMs = this.rtts.length > 0 ? mean(this.rtts) : null;
+        const sinceLastMessageMs = this.lastMessageAt !== null ? now - this.lastMessageAt : null;
+        const parseErrorRate = rx.lines >= MIN_LINES_FOR_ERROR_RATE ? rx.errors / rx.lines : 0;
+
+        const staleAfter = Math.max(options.staleAfterMs, heartbeatIntervalMs !== null ? heartbeatIntervalMs * 3 : 0);
+        const silentFor = sinceLastMessageMs ?? now - this.lastAckAt;
+        const stale = silentFor > staleAfter;
+
+        const reasons: string[] = [];
+        if (stale) {
+            reasons.push(sinceLastMessageMs === null
+                ? `No data received for ${formatSeconds(silentFor)}`
+                : `No data for ${formatSeconds(silentFor)}; the firmware may have hung`);
+        }
+        if (this.pingFailed) {
+            reasons.push('Ping not answered');
+        }
+        if (rttMs !== null && rttMs > options.maxRttMs) {
+            reasons.push(`Slow responses: ${Math.round(rttMs)} ms round trip`);
+        }
+        if (heartbeatIntervalMs !== null && heartbeatJitterMs !== null
+            && heartbeatJitterMs > heartbeatIntervalMs * options.maxJitterRatio) {
+            reasons.push(`Irregular heartbeat: ±${Math.round(heartbeatJitterMs)} ms`);
+        }
+        if (parseErrorRate > options.maxParseErrorRate) {
+            reasons.push(`${Math.round(parseErrorRate * 100)}% of lines could not be parsed`);
+        }
+
+        this.current = {
+            status: stale ? 'stale' : reasons.length > 0 ? 'degraded' : 'ok',
+            reasons,
+            sinceLastMessageMs,
+            heartbeatIntervalMs,
+            heartbeatJitterMs,
+            rttMs,
+            rx: { bytesPerSecond: rx.bytes / seconds, linesPerSecond: rx.lines / seconds },
+            tx: { bytesPerSecond: tx.bytes / seconds, linesPerSecond: tx.lines / seconds },
+            parseErrorRate
+        };
+        this.emit('change', this.current);
+    }
+}
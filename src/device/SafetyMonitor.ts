@@ -0,0 +1,121 @@
+import { Emitter } from './Emitter';
+import { CommandError } from './CommandQueue';
+import type { LaserDevice } from './LaserDevice';
+import { isPwmCommand, parsePwmCommand, type DeviceReport } from './protocol';
+import type { SafetyLimits } from './safetySettings';
+
+export interface SafetyEnforcement {
+    kind: 'pwm_refused' | 'pwm_reduced' | 'max_on_time' | 'watchdog';
+    message: string;
+}
+
+export interface SafetyMonitorEvents {
+    enforcement: SafetyEnforcement;
+}
+
+const CHECK_INTERVAL = 250;
+
+// Enforces SafetyLimits on a connected device: refuses PWM values above the
+// ceiling, switches the laser off after the maximum on-time and when the
+// device stops reporting (watchdog).
+export class SafetyMonitor extends Emitter<SafetyMonitorEvents> {
+    private readonly device: LaserDevice;
+    private limits: SafetyLimits;
+    private laserOnSince: number | null = null;
+    private lastReportAt = Date.now();
+    private watchdogTripped = false;
+    private onTimeTripped = false;
+    private reducing = false;
+    private readonly cleanup: Array<() => void>;
+    private readonly timer: ReturnType<typeof setInterval>;
+
+    constructor(device: LaserDevice, limits: SafetyLimits) {
+        super();
+        this.device = device;
+        this.limits = limits;
+
+        const handleReport = (report: DeviceReport) => this.handleReport(report);
+        this.cleanup = [
+            device.addGuard(command => this.checkCommand(command)),
+            device.on('initial_state', handleReport),
+            device.on('status', handleReport),
+            device.on('heartbeat', handleReport)
+        ];
+        this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+    }
+
+    setLimits(limits: SafetyLimits): void {
+        this.limits = limits;
+        this.onTimeTripped = false;
+    }
+
+    dispose(): void {
+        clearInterval(this.timer);
+        this.cleanup.forEach(unsubscribe => unsubscribe());
+    }
+
+    private enforce(kind: SafetyEnforcement['kind'], message: string): void {
+        this.emit('enforcement', { kind, message });
+    }
+
+    // Fails closed: a PWM command whose value cannot be read is refused too,
+    // since the firmware may still read it as a level above the limit
+    private checkCommand(command: string): string | undefined {
+        if (!isPwmCommand(command)) return undefined;
+        const pwm = parsePwmCommand(command);
+        const reason = pwm === undefined
+            ? `Refused ${command}: not a plain PWM value, so it cannot be checked against the ${this.limits.maxPwm}% safety limit`
+            : pwm > this.limits.maxPwm ? `Refused ${command}: above the ${this.limits.maxPwm}% safety limit` : undefined;
+        if (reason) this.enforce('pwm_refused', reason);
+        return reason;
+    }
+
+    private handleReport(report: DeviceReport): void {
+        this.lastReportAt = Date.now();
+        this.watchdogTripped = false;
+
+        if (report.laser_state !== undefined) {
+            if (report.laser_state && this.laserOnSince === null) {
+                this.laserOnSince = Date.now();
+            } else if (!report.laser_state) {
+                this.laserOnSince = null;
+                this.onTimeTripped = false;
+            }
+        }
+
+        // A brightness above the ceiling (e.g. restored from preferences) is pulled down
+        const brightness = report.laser_brightness;
+        if (report.laser_state && brightness !== undefined && brightness > this.limits.maxPwm && !this.reducing) {
+            this.reducing = true;
+            this.enforce('pwm_reduced', `Device brightness ${brightness}% exceeds the ${this.limits.maxPwm}% safety limit, reducing`);
+            this.device.setPwm(this.limits.maxPwm)
+                .catch(error => {
+                    // A newer (allowed) PWM command took over; otherwise fall back to switching off
+                    if (error instanceof CommandError && error.reason === 'superseded') return;
+                    return this.device.laserOff();
+                })
+                .catch(() => undefined)
+                .finally(() => { this.reducing = false; });
+        }
+    }
+
+    private check(): void {
+        if (!this.device.isConnected) return;
+        const now = Date.now();
+        const { maxOnTimeSec, watchdogSec } = this.limits;
+
+        if (maxOnTimeSec > 0 && this.laserOnSince !== null && !this.onTimeTripped
+            && now - this.laserOnSince >= maxOnTimeSec * 1000) {
+            this.onTimeTripped = true;
+            this.enforce('max_on_time', `Laser on for more than ${maxOnTimeSec}s, switching off`);
+            this.device.laserOff().catch(() => this.device.send('LASER_OFF')).catch(() => undefined);
+        }
+
+        if (watchdogSec > 0 && !this.watchdogTripped && now - this.lastReportAt >= watchdogSec * 1000) {
+            this.watchdogTripped = true;
+            this.enforce('watchdog', `Watchdog: no heartbeat or status for ${watchdogSec}s, sending LASER_OFF`);
+            // The device may be hung, so don't wait for a confirmation
+            this.device.send('LASER_OFF').catch(() => undefined);
+        }
+    }
+}
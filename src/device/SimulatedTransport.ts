@@ -0,0 +1,133 @@
+import { Emitter } from './Emitter';
+import type { Transport, TransportEvents } from './Transport';
+import { VirtualLaserFirmware, type VirtualLaserOptions } from './VirtualLaserFirmware';
+
+export interface SimulatorFaults {
+    // Probability (0-1) that an outgoing device line is dropped
+    dropRate: number;
+    // Probability (0-1) that garbage bytes are injected before a line
+    garbageRate: number;
+    // Firmware stops sending anything, as if it had hung
+    muted: boolean;
+}
+
+export const NO_FAULTS: SimulatorFaults = {
+    dropRate: 0,
+    garbageRate: 0,
+    muted: false
+};
+
+// Simulated USB latency, in ms
+const MIN_LATENCY = 2;
+const MAX_LATENCY = 15;
+
+function namedError(name: string, message: string): Error {
+    const error = new Error(message);
+    error.name = name;
+    return error;
+}
+
+// Transport backed by an in-memory firmware simulator instead of a serial port
+export class SimulatedTransport extends Emitter<TransportEvents> implements Transport {
+    readonly label = 'Simulator';
+    readonly firmware: VirtualLaserFirmware;
+    private faults: SimulatorFaults = { ...NO_FAULTS };
+    private readonly encoder = new TextEncoder();
+    private readonly decoder = new TextDecoder();
+    private inputBuffer = '';
+    private pending = new Set<ReturnType<typeof setTimeout>>();
+    private isOpen = false;
+    private nextSlot = 0;
+
+    constructor(options: Partial<VirtualLaserOptions> = {}) {
+        super();
+        this.firmware = new VirtualLaserFirmware(line => this.deliver(line), options);
+    }
+
+    getFaults(): SimulatorFaults {
+        return { ...this.faults };
+    }
+
+    setFaults(faults: Partial<SimulatorFaults>): void {
+        this.faults = { ...this.faults, ...faults };
+    }
+
+    async open(): Promise<void> {
+        if (this.isOpen) {
+            throw namedError('InvalidStateError', 'The port is already open.');
+        }
+        this.isOpen = true;
+        this.inputBuffer = '';
+        this.firmware.start();
+    }
+
+    async write(data: Uint8Array): Promise<void> {
+        if (!this.isOpen) {
+            throw new Error('Serial port is not open');
+        }
+
+        this.inputBuffer += this.decoder.decode(data, { stream: true });
+        const lines = this.inputBuffer.split('\n');
+        this.inputBuffer = lines.pop() || '';
+
+        for (const line of lines) {
+            this.later(() => this.firmware.receive(line));
+        }
+    }
+
+    async close(): Promise<void> {
+        if (!this.isOpen) return;
+        this.shutdown();
+        this.emit('close', undefined);
+    }
+
+    // Fault injection: the USB link vanishes as if the cable was pulled
+    simulateDisconnect(): void {
+        if (!this.isOpen) return;
+        this.shutdown();
+        this.emit('close', namedError('NetworkError', 'The device has been lost.'));
+    }
+
+    // Fault injection: a recoverable read error such as a framing error
+    simulateReadError(): void {
+        if (!this.isOpen) return;
+        this.emit('error', namedError('FramingError', 'A framing error has been detected.'));
+    }
+
+    private shutdown(): void {
+        this.isOpen = false;
+        this.firmware.stop();
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.pending.clear();
+    }
+
+    private deliver(line: string): void {
+        const { dropRate, garbageRate, muted } = this.faults;
+        if (!this.isOpen || muted || Math.random() < dropRate) return;
+
+        if (Math.random() < garbageRate) {
+            const garbage = Uint8Array.from({ length: 1 + Math.floor(Math.random() * 8) }, () => Math.floor(Math.random() * 256));
+            this.later(() => this.emit('data', garbage));
+        }
+
+        // Split lines into arbitrary chunks like a real USB CDC stream
+        const bytes = this.encoder.encode(line + '\r\n');
+        const split = 1 + Math.floor(Math.random() * (bytes.length - 1));
+        this.later(() => {
+            this.emit('data', bytes.slice(0, split));
+            this.emit('data', bytes.slice(split));
+        });
+    }
+
+    // Runs a task after a random latency, preserving the order of scheduled tasks
+    private later(task: () => void): void {
+        const latency = MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY);
+        const now = Date.now();
+        this.nextSlot = Math.max(now, this.nextSlot) + latency;
+        const timer = setTimeout(() => {
+            this.pending.delete(timer);
+            if (this.isOpen) task();
+        }, this.nextSlot - now);
+        this.pending.add(timer);
+    }
+}
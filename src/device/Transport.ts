@@ -0,0 +1,22 @@
+import type { Listener } from './Emitter';
+import type { LineEnding } from './protocol';
+
+export interface TransportEvents {
+    // Raw bytes received from the device
+    data: Uint8Array;
+    // Recoverable error reported by the link (the transport stays open)
+    error: Error;
+    // Link closed; carries the cause when it was not requested via close()
+    close: Error | undefined;
+}
+
+// Byte-level link to a laser controller. Web Serial is one implementation.
+export interface Transport {
+    readonly label: string;
+    // Terminator for commands written to this link; LF when unset
+    readonly lineEnding?: LineEnding;
+    open(): Promise<void>;
+    close(): Promise<void>;
+    write(data: Uint8Array): Promise<void>;
+    on<K extends keyof TransportEvents>(event: K, listener: Listener<TransportEvents[K]>): () => void;
+}
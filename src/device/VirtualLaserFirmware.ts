@@ -0,0 +1,166 @@
+import { PWM_MAX, PWM_MIN, type DeviceConfig, type DeviceReport } from './protocol';
+
+export interface VirtualLaserOptions {
+    version: string;
+    initialBrightness: number;
+    heartbeatIntervalMs: number;
+    statusIntervalMs: number;
+    totalHeapBytes: number;
+    // Laser PWM carrier frequency
+    pwmFrequencyHz: number;
+}
+
+export const DEFAULT_VIRTUAL_LASER_OPTIONS: VirtualLaserOptions = {
+    version: '5.1',
+    initialBrightness: 50,
+    heartbeatIntervalMs: 2000,
+    statusIntervalMs: 10000,
+    totalHeapBytes: 327680,
+    pwmFrequencyHz: 5000
+};
+
+// Accepted SET_CONFIG values, as the firmware checks them
+const CONFIG_RANGES: Record<keyof DeviceConfig, [number, number]> = {
+    default_brightness: [PWM_MIN, PWM_MAX],
+    boot_laser_state: [0, 1],
+    heartbeat_interval_ms: [100, 60000],
+    pwm_frequency_hz: [100, 40000]
+};
+
+function isConfigKey(key: string): key is keyof DeviceConfig {
+    return Object.hasOwn(CONFIG_RANGES, key);
+}
+
+// Behavioural model of the ESP32-S3 laser controller firmware. It consumes
+// command lines and produces the same JSON and plain-text lines the real
+// board prints, including the legacy boot banner.
+export class VirtualLaserFirmware {
+    readonly options: VirtualLaserOptions;
+    private readonly output: (line: string) => void;
+    private laserOn = false;
+    private brightness: number;
+    // Stands in for the board's preferences; default_brightness is also
+    // where the last SET_LASER_PWM value is saved
+    private readonly config: Required<DeviceConfig>;
+    private bootTime = Date.now();
+    private freeHeap: number;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private statusTimer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(output: (line: string) => void, options: Partial<VirtualLaserOptions> = {}) {
+        this.options = { ...DEFAULT_VIRTUAL_LASER_OPTIONS, ...options };
+        this.output = output;
+        this.brightness = this.options.initialBrightness;
+        this.config = {
+            default_brightness: this.options.initialBrightness,
+            boot_laser_state: false,
+            heartbeat_interval_ms: this.options.heartbeatIntervalMs,
+            pwm_frequency_hz: this.options.pwmFrequencyHz
+        };
+        this.freeHeap = Math.round(this.options.totalHeapBytes * 0.7);
+    }
+
+    // Boots the firmware and starts the periodic reports
+    start(): void {
+        this.stop();
+        this.bootTime = Date.now();
+        this.laserOn = this.config.boot_laser_state;
+        this.brightness = this.config.default_brightness;
+
+        this.output(`ESP32-S3 Laser Controller v${this.options.version}`);
+        this.output(`Loaded brightness: ${this.brightness}%`);
+        this.output(`Device initialized - Brightness: ${this.brightness}%, Laser: ${this.laserOn ? 'ON' : 'OFF'}`);
+        this.output('Connection detected');
+
+        this.restartHeartbeat();
+        this.statusTimer = setInterval(() => this.report('status'), this.options.statusIntervalMs);
+    }
+
+    stop(): void {
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        if (this.statusTimer) clearInterval(this.statusTimer);
+        this.heartbeatTimer = null;
+        this.statusTimer = null;
+    }
+
+    receive(line: string): void {
+        const command = line.trim();
+        if (!command) return;
+
+        if (command === 'GET_INITIAL_STATE') {
+            this.report('initial_state');
+        } else if (command === 'LASER_ON') {
+            this.laserOn = true;
+            this.report('status');
+        } else if (command === 'LASER_OFF') {
+            this.laserOn = false;
+            this.report('status');
+        } else if (command.startsWith('SET_LASER_PWM:')) {
+            const value = Number(command.slice('SET_LASER_PWM:'.length));
+            if (!Number.isInteger(value) || value < PWM_MIN || value > PWM_MAX) {
+                this.output(`Invalid PWM value: ${command.slice('SET_LASER_PWM:'.length)}`);
+                return;
+            }
+            this.brightness = value;
+            this.config.default_brightness = value;
+            this.report('status');
+        } else if (command === 'GET_CONFIG') {
+            this.reportConfig();
+        } else if (command.startsWith('SET_CONFIG:')) {
+            this.setConfig(command.slice('SET_CONFIG:'.length));
+        } else {
+            this.output(`Unknown command: ${command}`);
+        }
+    }
+
+    // <key>=<value>, saved straight away; a new heartbeat interval applies at once
+    private setConfig(assignment: string): void {
+        const [key, raw = ''] = assignment.split('=');
+        if (!isConfigKey(key)) {
+            this.output(`Unknown config key: ${key}`);
+            return;
+        }
+        const value = Number(raw);
+        const [min, max] = CONFIG_RANGES[key];
+        if (raw.trim() === '' || !Number.isInteger(value) || value < min || value > max) {
+            this.output(`Invalid config value: ${assignment}`);
+            return;
+        }
+
+        if (key === 'boot_laser_state') {
+            this.config.boot_laser_state = value === 1;
+        } else {
+            this.config[key] = value;
+        }
+        if (key === 'heartbeat_interval_ms' && this.heartbeatTimer) this.restartHeartbeat();
+        this.reportConfig();
+    }
+
+    private restartHeartbeat(): void {
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = setInterval(() => this.report('heartbeat'), this.config.heartbeat_interval_ms);
+    }
+
+    private reportConfig(): void {
+        this.output(JSON.stringify({ type: 'config', version: this.options.version, ...this.config }));
+    }
+
+    private report(type: 'initial_state' | 'status' | 'heartbeat'): void {
+        // Let the heap wander a little so the stats panel has something to show
+        const drift = Math.round((Math.random() - 0.5) * 2048);
+        const max = this.options.totalHeapBytes;
+        this.freeHeap = Math.min(max, Math.max(Math.round(max * 0.5), this.freeHeap + drift));
+
+        const message: DeviceReport & { type: string } = {
+            type,
+            uptime_ms: Date.now() - this.bootTime,
+            free_heap_bytes: this.freeHeap,
+            laser_state: this.laserOn,
+            laser_brightness: this.brightness
+        };
+        if (type !== 'heartbeat') {
+            message.version = this.options.version;
+        }
+        this.output(JSON.stringify(message));
+    }
+}
@@ -0,0 +1,121 @@
+import { Emitter } from './Emitter';
+import type { Transport, TransportEvents } from './Transport';
+import type { LineEnding } from './protocol';
+import type { SerialOptions, SerialPort } from '../types/serial';
+
+export const DEFAULT_SERIAL_OPTIONS: SerialOptions = {
+    baudRate: 115200,
+    dataBits: 8,
+    stopBits: 1,
+    parity: 'none',
+    flowControl: 'none'
+};
+
+// Errors after which the port is gone and reading cannot resume
+const FATAL_READ_ERRORS = ['NetworkError', 'NotFoundError'];
+
+export class WebSerialTransport extends Emitter<TransportEvents> implements Transport {
+    readonly label = 'Web Serial';
+    readonly port: SerialPort;
+    readonly options: SerialOptions;
+    readonly lineEnding: LineEnding;
+    private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+    private readLoop: Promise<void> | null = null;
+    private closing = false;
+
+    constructor(port: SerialPort, options: SerialOptions = DEFAULT_SERIAL_OPTIONS, lineEnding: LineEnding = '\n') {
+        super();
+        this.port = port;
+        this.options = options;
+        this.lineEnding = lineEnding;
+    }
+
+    async open(): Promise<void> {
+        await this.port.open(this.options);
+
+        const writer = this.port.writable?.getWriter();
+        if (!writer || !this.port.readable) {
+            throw new Error('Failed to get reader/writer from serial port');
+        }
+
+        this.writer = writer;
+        this.closing = false;
+        this.readLoop = this.read();
+    }
+
+    async write(data: Uint8Array): Promise<void> {
+        if (!this.writer) {
+            throw new Error('Serial port is not open');
+        }
+        await this.writer.write(data);
+    }
+
+    async close(): Promise<void> {
+        this.closing = true;
+
+        if (this.reader) {
+            try {
+                await this.reader.cancel();
+            } catch (error) {
+                console.error('Reader release error:', error);
+            }
+        }
+        await this.readLoop;
+
+        if (this.writer) {
+            try {
+                await this.writer.close();
+            } catch (error) {
+                console.error('Writer close error:', error);
+            }
+        }
+
+        this.writer = null;
+        this.readLoop = null;
+
+        try {
+            await this.port.close();
+        } finally {
+            this.emit('close', undefined);
+        }
+    }
+
+    // Reads until the port closes. Non-fatal errors (framing, parity, break...)
+    // replace port.readable, so a fresh reader is acquired and reading resumes.
+    private async read(): Promise<void> {
+        let failure: Error | undefined;
+
+        while (this.port.readable && !this.closing) {
+            const reader = this.port.readable.getReader();
+            this.reader = reader;
+            try {
+                for (;;) {
+                    const { value, done } = await reader.read();
+                    if (done) break;
+                    if (value) this.emit('data', value);
+                }
+            } catch (error) {
+                const readError = error as Error;
+                if (FATAL_READ_ERRORS.includes(readError.name)) {
+                    failure = readError;
+                    break;
+                }
+                this.emit('error', readError);
+            } finally {
+                reader.releaseLock();
+                this.reader = null;
+            }
+
+            if (this.closing) break;
+        }
+
+        if (!this.closing) {
+            this.writer?.releaseLock();
+            this.writer = null;
+            // Release the dead port so it can be opened again later
+            await this.port.close().catch(() => undefined);
+            this.emit('close', failure ?? new Error('Reading stream ended'));
+        }
+    }
+}
@@ -0,0 +1,68 @@
+import { PWM_MAX, PWM_MIN, parsePwmCommand } from './protocol';
+
+// A command the firmware understands, for completion and hints
+export interface CommandSpec {
+    name: string;
+    // Shown after the name, e.g. "<0-100>"; commands with an argument take `NAME:value`
+    argument?: string;
+    description: string;
+    // Returns a problem with the full command, if any
+    validate?: (command: string) => string | undefined;
+}
+
+export const COMMAND_CATALOG: CommandSpec[] = [
+    { name: 'LASER_ON', description: 'Switch the laser on' },
+    { name: 'LASER_OFF', description: 'Switch the laser off' },
+    {
+        name: 'SET_LASER_PWM',
+        argument: `<${PWM_MIN}-${PWM_MAX}>`,
+        description: 'Set the brightness in percent',
+        validate: command => {
+            const value = parsePwmCommand(command);
+            if (value === undefined) return 'Expected SET_LASER_PWM:<number>';
+            if (value < PWM_MIN || value > PWM_MAX) return `Value must be between ${PWM_MIN} and ${PWM_MAX}`;
+            return undefined;
+        }
+    },
+    { name: 'GET_INITIAL_STATE', description: 'Ask for an initial_state report' },
+    { name: 'GET_CONFIG', description: 'Ask for the saved configuration' },
+    {
+        name: 'SET_CONFIG',
+        argument: '<key>=<value>',
+        description: 'Save a configuration value, e.g. heartbeat_interval_ms=2000',
+        validate: command => /^SET_CONFIG:\w+=-?\d+$/i.test(command.trim())
+            ? undefined
+            : 'Expected SET_CONFIG:<key>=<number>'
+    }
+];
+
+function commandName(input: string): string {
+    return input.trim().split(':')[0].toUpperCase();
+}
+
+// Catalog entries whose name starts with what has been typed so far
+export function completeCommand(input: string): CommandSpec[] {
+    const typed = input.trim().toUpperCase();
+    if (typed.includes(':')) return [];
+    return COMMAND_CATALOG.filter(spec => spec.name.startsWith(typed));
+}
+
+// Text a completion inserts: the name, plus ':' when an argument follows
+export function completionText(spec: CommandSpec): string {
+    return spec.argument ? `${spec.name}:` : spec.name;
+}
+
+export function findCommand(input: string): CommandSpec | undefined {
+    const name = commandName(input);
+    return COMMAND_CATALOG.find(spec => spec.name === name);
+}
+
+// Longest prefix shared by every string
+export function commonPrefix(values: string[]): string {
+    if (values.length === 0) return '';
+    return values.reduce((prefix, value) => {
+        let i = 0;
+        while (i < prefix.length && prefix[i] === value[i]) i++;
+        return prefix.slice(0, i);
+    });
+}
@@ -0,0 +1,24 @@
+const STORAGE_KEY = 'laserController.commandHistory';
+const MAX_HISTORY = 100;
+
+// Commands typed into the console, oldest first
+export function loadCommandHistory(): string[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+// Appends a command, skipping an immediate repeat, and persists the result
+export function pushCommandHistory(history: string[], command: string): string[] {
+    const next = history[history.length - 1] === command ? history : [...history, command].slice(-MAX_HISTORY);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+        console.error('Failed to save command history:', error);
+    }
+    return next;
+}
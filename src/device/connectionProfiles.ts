@@ -0,0 +1,154 @@
+import type { LineEnding } from './protocol';
+import type { SerialOptions, SerialPortFilter, SerialPortInfo } from '../types/serial';
+
+// How a serial port is opened and which ports the picker offers
+export interface ConnectionProfile {
+    id: string;
+    name: string;
+    baudRate: number;
+    dataBits: 7 | 8;
+    stopBits: 1 | 2;
+    parity: 'none' | 'even' | 'odd';
+    flowControl: 'none' | 'hardware';
+    // Read and write buffer size in bytes
+    bufferSize: number;
+    lineEnding: LineEnding;
+    // USB ids the port picker is limited to; empty offers every port
+    filters: SerialPortFilter[];
+}
+
+export interface ConnectionProfiles {
+    profiles: ConnectionProfile[];
+    selectedId: string;
+}
+
+export const BAUD_RATES = [9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600];
+
+export const LINE_ENDINGS: Record<LineEnding, string> = {
+    '\n': 'LF',
+    '\r\n': 'CR LF',
+    '\r': 'CR'
+};
+
+// Chrome refuses larger buffers
+const MAX_BUFFER_SIZE = 16 * 1024 * 1024;
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// The settings the firmware ships with: 115200 8N1, no flow control. Built in
+// and read-only, so there is always a profile that works.
+export const DEFAULT_PROFILE: ConnectionProfile = {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    baudRate: 115200,
+    dataBits: 8,
+    stopBits: 1,
+    parity: 'none',
+    flowControl: 'none',
+    // Web Serial's own default
+    bufferSize: 255,
+    lineEnding: '\n',
+    filters: []
+};
+
+const STORAGE_KEY = 'laserController.connectionProfiles';
+
+function isUsbId(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffff;
+}
+
+// Returns an error message for an invalid profile
+export function validateConnectionProfile(profile: ConnectionProfile): string | undefined {
+    if (!profile.name.trim()) return 'Give the profile a name';
+    if (!Number.isInteger(profile.baudRate) || profile.baudRate <= 0) {
+        return 'Baud rate must be a positive whole number';
+    }
+    if (profile.dataBits !== 7 && profile.dataBits !== 8) return 'Data bits must be 7 or 8';
+    if (profile.stopBits !== 1 && profile.stopBits !== 2) return 'Stop bits must be 1 or 2';
+    if (!['none', 'even', 'odd'].includes(profile.parity)) return 'Parity must be none, even or odd';
+    if (!['none', 'hardware'].includes(profile.flowControl)) return 'Flow control must be none or hardware';
+    if (!Number.isInteger(profile.bufferSize) || profile.bufferSize < 1 || profile.bufferSize > MAX_BUFFER_SIZE) {
+        return `Buffer size must be a whole number of bytes between 1 and ${MAX_BUFFER_SIZE}`;
+    }
+    if (!(profile.lineEnding in LINE_ENDINGS)) return 'Line ending must be LF, CR LF or CR';
+    for (const filter of profile.filters) {
+        // Web Serial only filters on a product id together with its vendor id
+        if (!isUsbId(filter.usbVendorId)) return 'Every port filter needs a vendor id between 0000 and FFFF';
+        if (filter.usbProductId !== undefined && !isUsbId(filter.usbProductId)) {
+            return 'Product ids must be between 0000 and FFFF';
+        }
+    }
+    return undefined;
+}
+
+export function loadConnectionProfiles(): ConnectionProfiles {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<ConnectionProfiles>;
+            const saved = Array.isArray(parsed.profiles)
+                ? parsed.profiles.filter(profile =>
+                    profile.id !== DEFAULT_PROFILE_ID && !validateConnectionProfile({ ...DEFAULT_PROFILE, ...profile }))
+                : [];
+            const profiles = [DEFAULT_PROFILE, ...saved.map(profile => ({ ...DEFAULT_PROFILE, ...profile }))];
+            const selectedId = profiles.some(profile => profile.id === parsed.selectedId)
+                ? parsed.selectedId as string
+                : DEFAULT_PROFILE_ID;
+            return { profiles, selectedId };
+        }
+    } catch (error) {
+        console.error('Failed to load connection profiles:', error);
+    }
+    return { profiles: [DEFAULT_PROFILE], selectedId: DEFAULT_PROFILE_ID };
+}
+
+// The built-in default is not stored
+export function saveConnectionProfiles({ profiles, selectedId }: ConnectionProfiles): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            profiles: profiles.filter(profile => profile.id !== DEFAULT_PROFILE_ID),
+            selectedId
+        }));
+    } catch (error) {
+        console.error('Failed to save connection profiles:', error);
+    }
+}
+
+export function serialOptions(profile: ConnectionProfile): SerialOptions {
+    return {
+        baudRate: profile.baudRate,
+        dataBits: profile.dataBits,
+        stopBits: profile.stopBits,
+        parity: profile.parity,
+        flowControl: profile.flowControl,
+        bufferSize: profile.bufferSize
+    };
+}
+
+// "115200 8N1", with ", RTS/CTS" for hardware flow control
+export function formatSerialOptions(options: SerialOptions): string {
+    const parity = { none: 'N', even: 'E', odd: 'O' }[options.parity ?? 'none'];
+    const frame = `${options.baudRate} ${options.dataBits ?? 8}${parity}${options.stopBits ?? 1}`;
+    return options.flowControl === 'hardware' ? `${frame}, RTS/CTS` : frame;
+}
+
+// Four hex digits, as USB ids are usually written
+export function formatUsbId(id: number): string {
+    return id.toString(16).toUpperCase().padStart(4, '0');
+}
+
+// Accepts "2341" or "0x2341"; undefined for anything else
+export function parseUsbId(text: string): number | undefined {
+    const match = text.trim().match(/^(?:0x)?([0-9a-f]{1,4})$/i);
+    return match ? parseInt(match[1], 16) : undefined;
+}
+
+// "USB 2341:0043", "Bluetooth <service>" or "Unknown port"
+export function formatPortInfo(info: SerialPortInfo): string {
+    if (info.usbVendorId !== undefined) {
+        const product = info.usbProductId !== undefined ? formatUsbId(info.usbProductId) : '????';
+        return `USB ${formatUsbId(info.usbVendorId)}:${product}`;
+    }
+    if (info.bluetoothServiceClassId !== undefined) return `Bluetooth ${info.bluetoothServiceClassId}`;
+    return 'Unknown port';
+}
@@ -0,0 +1,114 @@
+import { PWM_MAX, PWM_MIN, type DeviceConfig } from './protocol';
+import type { SafetyLimits } from './safetySettings';
+
+export type NumericConfigKey = 'default_brightness' | 'heartbeat_interval_ms' | 'pwm_frequency_hz';
+
+export interface ConfigFieldSpec {
+    label: string;
+    unit: string;
+    min: number;
+    max: number;
+}
+
+// Ranges the firmware accepts for SET_CONFIG
+export const CONFIG_FIELDS: Record<NumericConfigKey, ConfigFieldSpec> = {
+    default_brightness: { label: 'Default brightness', unit: '%', min: PWM_MIN, max: PWM_MAX },
+    heartbeat_interval_ms: { label: 'Heartbeat interval', unit: 'ms', min: 100, max: 60000 },
+    pwm_frequency_hz: { label: 'PWM frequency', unit: 'Hz', min: 100, max: 40000 }
+};
+
+export const CONFIG_KEYS: Array<keyof DeviceConfig> = [
+    'default_brightness',
+    'boot_laser_state',
+    'heartbeat_interval_ms',
+    'pwm_frequency_hz'
+];
+
+// A saved copy of a board's configuration, for cloning it onto another board
+export interface ConfigBackup {
+    // Device the configuration was read from
+    device: string;
+    firmwareVersion?: string;
+    createdAt: number;
+    config: DeviceConfig;
+}
+
+const FILE_VERSION = 1;
+
+// Only the settings the firmware reported
+export function pickConfig(source: DeviceConfig): DeviceConfig {
+    const config: DeviceConfig = {};
+    for (const key of CONFIG_KEYS) {
+        if (source[key] !== undefined) Object.assign(config, { [key]: source[key] });
+    }
+    return config;
+}
+
+// Settings whose draft value differs from the device's
+export function changedKeys(current: DeviceConfig, draft: DeviceConfig): Array<keyof DeviceConfig> {
+    return CONFIG_KEYS.filter(key => draft[key] !== undefined && draft[key] !== current[key]);
+}
+
+// Returns an error message for a configuration the device should not get
+export function validateDeviceConfig(config: DeviceConfig, limits: SafetyLimits): string | undefined {
+    for (const key of Object.keys(CONFIG_FIELDS) as NumericConfigKey[]) {
+        const value = config[key];
+        const { label, unit, min, max } = CONFIG_FIELDS[key];
+        if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+            return `${label} must be a whole number from ${min} to ${max} ${unit}`;
+        }
+    }
+    if (config.default_brightness !== undefined && config.default_brightness > limits.maxPwm) {
+        return `Default brightness is above the ${limits.maxPwm}% safety limit`;
+    }
+    // The watchdog would switch the laser off between heartbeats
+    if (config.heartbeat_interval_ms !== undefined && limits.watchdogSec > 0
+        && config.heartbeat_interval_ms >= limits.watchdogSec * 1000) {
+        return `Heartbeat interval must be shorter than the ${limits.watchdogSec} s watchdog window`;
+    }
+    return undefined;
+}
+
+function validateConfig(value: unknown): DeviceConfig {
+    const config = value as Record<string, unknown>;
+    if (!config || typeof config !== 'object') throw new Error('Backup has no configuration');
+
+    for (const key of CONFIG_KEYS) {
+        const expected = key === 'boot_laser_state' ? 'boolean' : 'number';
+        if (config[key] !== undefined && typeof config[key] !== expected) {
+            throw new Error(`${key} must be a ${expected}`);
+        }
+    }
+    const picked = pickConfig(config as DeviceConfig);
+    if (Object.keys(picked).length === 0) throw new Error('Backup contains no settings');
+    return picked;
+}
+
+export function validateConfigBackup(value: unknown): ConfigBackup {
+    const backup = value as Record<string, unknown>;
+    if (!backup || typeof backup !== 'object') throw new Error('Backup is not an object');
+    if (typeof backup.device !== 'string' || !backup.device) throw new Error('Backup has no device');
+    return {
+        device: backup.device,
+        firmwareVersion: typeof backup.firmwareVersion === 'string' ? backup.firmwareVersion : undefined,
+        createdAt: typeof backup.createdAt === 'number' ? backup.createdAt : Date.now(),
+        config: validateConfig(backup.config)
+    };
+}
+
+export function exportConfigBackup(backup: ConfigBackup): string {
+    return JSON.stringify({ version: FILE_VERSION, backup }, null, 2);
+}
+
+// Accepts an exported file or a bare backup
+export function importConfigBackup(text: string): ConfigBackup {
+    const parsed: unknown = JSON.parse(text);
+    const file = parsed as { version?: unknown; backup?: unknown };
+    if (file && typeof file === 'object' && 'backup' in file) {
+        if (typeof file.version === 'number' && file.version > FILE_VERSION) {
+            throw new Error(`Unsupported configuration backup version ${file.version}`);
+        }
+        return validateConfigBackup(file.backup);
+    }
+    return validateConfigBackup(parsed);
+}
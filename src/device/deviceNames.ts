@@ -0,0 +1,54 @@
+import type { Transport } from './Transport';
+import { WebSerialTransport } from './WebSerialTransport';
+
+const STORAGE_KEY = 'laserController.deviceNames';
+
+function hex(id: number | undefined): string {
+    return id === undefined ? '????' : id.toString(16).padStart(4, '0');
+}
+
+// Identity a device name is remembered under: USB ids for serial ports,
+// the transport label otherwise
+export function deviceKey(transport: Transport): string {
+    if (transport instanceof WebSerialTransport) {
+        const info = transport.port.getInfo();
+        return `usb:${hex(info.usbVendorId)}:${hex(info.usbProductId)}`;
+    }
+    return transport.label.toLowerCase();
+}
+
+function loadDeviceNames(): Record<string, string> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : {};
+        return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, string> : {};
+    } catch {
+        return {};
+    }
+}
+
+export interface SavedUnit {
+    key: string;
+    name: string;
+}
+
+// Named boards remembered under `baseKey`: identical boards share it and
+// the second and later ones carry a #n suffix
+export function savedUnits(baseKey: string): SavedUnit[] {
+    return Object.entries(loadDeviceNames())
+        .filter(([key, name]) => (key === baseKey || key.startsWith(`${baseKey}#`)) && typeof name === 'string')
+        .map(([key, name]) => ({ key, name }));
+}
+
+export function loadDeviceName(key: string): string | undefined {
+    const name = loadDeviceNames()[key];
+    return typeof name === 'string' ? name : undefined;
+}
+
+export function saveDeviceName(key: string, name: string): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadDeviceNames(), [key]: name }));
+    } catch (error) {
+        console.error('Failed to save device name:', error);
+    }
+}
@@ -0,0 +1,55 @@
+import type { ParsedLine, ParseIssue } from '../protocol';
+import type { MessageDecoder } from './decoder';
+import { jsonDecoderV1 } from './jsonDecoder';
+import { legacyTextDecoderV1 } from './legacyTextDecoder';
+
+// Tried in order; the first decoder that claims a line decides its result
+export const DEFAULT_DECODERS: readonly MessageDecoder[] = [jsonDecoderV1, legacyTextDecoderV1];
+
+export interface ParseReport {
+    lines: number;
+    unknown: number;
+    malformed: number;
+    lastIssue: ParseIssue | null;
+}
+
+export function isParseIssue(result: ParsedLine): result is ParseIssue {
+    return result.kind === 'unknown' || result.kind === 'malformed';
+}
+
+// Stateless decode of a single line
+export function parseLine(line: string, decoders: readonly MessageDecoder[] = DEFAULT_DECODERS): ParsedLine {
+    for (const decoder of decoders) {
+        const result = decoder.decode(line);
+        if (result) return result;
+    }
+    return { kind: 'unknown', text: line, reason: 'Not recognised by any decoder' };
+}
+
+// Decodes device lines and keeps count of those that could not be used
+export class LineParser {
+    private readonly decoders: readonly MessageDecoder[];
+    private counts: ParseReport = { lines: 0, unknown: 0, malformed: 0, lastIssue: null };
+
+    constructor(decoders: readonly MessageDecoder[] = DEFAULT_DECODERS) {
+        this.decoders = decoders;
+    }
+
+    get report(): ParseReport {
+        return this.counts;
+    }
+
+    parse(line: string): ParsedLine {
+        const result = parseLine(line, this.decoders);
+        this.counts = { ...this.counts, lines: this.counts.lines + 1 };
+        if (isParseIssue(result)) {
+            this.counts[result.kind]++;
+            this.counts.lastIssue = result;
+        }
+        return result;
+    }
+
+    reset(): void {
+        this.counts = { lines: 0, unknown: 0, malformed: 0, lastIssue: null };
+    }
+}
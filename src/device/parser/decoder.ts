@@ -0,0 +1,14 @@
+import type { ParsedLine } from '../protocol';
+
+// One wire format, at one version. `decode` returns undefined when the line
+// is not in its format, so the next decoder can try it.
+export interface MessageDecoder {
+    readonly name: string;
+    readonly version: number;
+    decode(line: string): ParsedLine | undefined;
+}
+
+// Identifies a decoder in parse results and reports, e.g. "json/v1"
+export function decoderId(decoder: Pick<MessageDecoder, 'name' | 'version'>): string {
+    return `${decoder.name}/v${decoder.version}`;
+}
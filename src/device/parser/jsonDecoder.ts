@@ -0,0 +1,39 @@
+import type { ParsedLine } from '../protocol';
+import { decoderId, type MessageDecoder } from './decoder';
+import { isJsonObject, isMessageType, validateMessage } from './schema';
+
+const ID = decoderId({ name: 'json', version: 1 });
+
+// JSON protocol v1: one object per line with a `type` of initial_state,
+// status, heartbeat or config and the DeviceReport (and DeviceConfig) fields
+export const jsonDecoderV1: MessageDecoder = {
+    name: 'json',
+    version: 1,
+
+    decode(line: string): ParsedLine | undefined {
+        if (!line.startsWith('{')) return undefined;
+
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch {
+            return { kind: 'malformed', text: line, reason: 'Invalid JSON', decoder: ID };
+        }
+        if (!isJsonObject(value)) {
+            return { kind: 'malformed', text: line, reason: 'Not a JSON object', decoder: ID };
+        }
+
+        const type = value.type;
+        if (typeof type !== 'string') {
+            return { kind: 'unknown', text: line, reason: 'JSON message without a type', decoder: ID };
+        }
+        if (!isMessageType(type)) {
+            return { kind: 'unknown', text: line, reason: `Unknown message type "${type}"`, decoder: ID };
+        }
+
+        const result = validateMessage(type, value);
+        return result.ok
+            ? { kind: 'json', message: result.message, decoder: ID }
+            : { kind: 'malformed', text: line, reason: `Invalid ${type}: ${result.errors.join('; ')}`, decoder: ID };
+    }
+};
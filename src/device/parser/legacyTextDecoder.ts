@@ -0,0 +1,85 @@
+import type { LegacyTextInfo, ParsedLine } from '../protocol';
+import { decoderId, type MessageDecoder } from './decoder';
+
+const ID = decoderId({ name: 'legacy-text', version: 1 });
+
+interface TextPattern {
+    pattern: RegExp;
+    // Returns the extracted state, or a reason the line is malformed
+    read: (match: RegExpMatchArray) => LegacyTextInfo | string;
+}
+
+function brightness(value: string): number | undefined {
+    const parsed = parseInt(value);
+    return parsed >= 0 && parsed <= 100 ? parsed : undefined;
+}
+
+// Every plain-text line the v5 firmware prints. Lines are matched whole, so
+// an unrelated log line is reported as unknown instead of half-matching.
+const PATTERNS: TextPattern[] = [
+    {
+        pattern: /^ESP32-S3 Laser Controller v(\d+\.\d+(?:\.\d+)?)$/,
+        read: match => ({ firmwareVersion: match[1] })
+    },
+    {
+        pattern: /^Firmware Version:\s*v?(\d+\.\d+(?:\.\d+)?)$/,
+        read: match => ({ firmwareVersion: match[1] })
+    },
+    {
+        pattern: /^Loaded brightness:\s*(\d+)%$/,
+        read: match => {
+            const value = brightness(match[1]);
+            return value === undefined
+                ? `Brightness out of range: ${match[1]}%`
+                : { brightness: value, brightnessSource: 'preferences' };
+        }
+    },
+    {
+        pattern: /^Device initialized\b.*?Brightness:\s*(\d+)%.*?Laser:\s*(ON|OFF)$/,
+        read: match => {
+            const value = brightness(match[1]);
+            return value === undefined
+                ? `Brightness out of range: ${match[1]}%`
+                : { brightness: value, brightnessSource: 'initialized', laserOn: match[2] === 'ON' };
+        }
+    },
+    {
+        pattern: /^Laser State:\s*(ON|OFF)\b.*?Laser Brightness:\s*(\d+)%$/,
+        read: match => {
+            const value = brightness(match[2]);
+            return value === undefined
+                ? `Brightness out of range: ${match[2]}%`
+                : { laserOn: match[1] === 'ON', brightness: value, brightnessSource: 'manual' };
+        }
+    },
+    {
+        pattern: /^Connection detected\b/,
+        read: () => ({ connectionDetected: true })
+    },
+    {
+        pattern: /^(?:[\w\s-]+ )?Ready[.!]?$/,
+        read: () => ({})
+    },
+    {
+        pattern: /^(Invalid PWM value: .*|Invalid config value: .*|Unknown config key: .*|Unknown command: .*)$/,
+        read: match => ({ error: match[1] })
+    }
+];
+
+// Plain-text log lines of firmware before the JSON protocol
+export const legacyTextDecoderV1: MessageDecoder = {
+    name: 'legacy-text',
+    version: 1,
+
+    decode(line: string): ParsedLine | undefined {
+        for (const { pattern, read } of PATTERNS) {
+            const match = line.match(pattern);
+            if (!match) continue;
+            const info = read(match);
+            return typeof info === 'string'
+                ? { kind: 'malformed', text: line, reason: info, decoder: ID }
+                : { kind: 'text', text: line, info, decoder: ID };
+        }
+        return undefined;
+    }
+};
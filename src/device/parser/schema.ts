@@ -0,0 +1,132 @@
+import type { DeviceConfig, DeviceMessage, DeviceReport } from '../protocol';
+
+// Runtime schemas for the JSON messages the firmware sends. Validation reads
+// each field through a type guard, so a decoded message is fully typed
+// without casting the output of JSON.parse.
+
+export type JsonObject = { [key: string]: unknown };
+
+type MessageType = DeviceMessage['type'];
+
+interface FieldSpec<T> {
+    // Describes the accepted values in error messages
+    expected: string;
+    read: (value: unknown) => T | undefined;
+}
+
+type MessageFields = DeviceReport & DeviceConfig;
+
+export interface MessageSchema {
+    // Fields that must be present for the message to be usable
+    required: ReadonlyArray<keyof MessageFields>;
+}
+
+export function isJsonObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonNegative(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+const REPORT_FIELDS: { [K in keyof DeviceReport]-?: FieldSpec<NonNullable<DeviceReport[K]>> } = {
+    version: {
+        expected: 'a string',
+        read: value => typeof value === 'string' ? value : undefined
+    },
+    uptime_ms: {
+        expected: 'a non-negative number',
+        read: nonNegative
+    },
+    free_heap_bytes: {
+        expected: 'a non-negative number',
+        read: nonNegative
+    },
+    // Older firmware sends 0/1
+    laser_state: {
+        expected: 'a boolean',
+        read: value => typeof value === 'boolean' ? value : value === 0 || value === 1 ? value === 1 : undefined
+    },
+    laser_brightness: {
+        expected: 'a number from 0 to 100',
+        read: value => {
+            const brightness = nonNegative(value);
+            return brightness !== undefined && brightness <= 100 ? brightness : undefined;
+        }
+    }
+};
+
+function integerIn(min: number, max: number) {
+    return (value: unknown): number | undefined =>
+        typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+}
+
+// Only read from config messages
+const CONFIG_FIELDS: { [K in keyof DeviceConfig]-?: FieldSpec<NonNullable<DeviceConfig[K]>> } = {
+    default_brightness: {
+        expected: 'a whole number from 0 to 100',
+        read: integerIn(0, 100)
+    },
+    boot_laser_state: REPORT_FIELDS.laser_state,
+    heartbeat_interval_ms: {
+        expected: 'a positive whole number',
+        read: integerIn(1, Number.MAX_SAFE_INTEGER)
+    },
+    pwm_frequency_hz: {
+        expected: 'a positive whole number',
+        read: integerIn(1, Number.MAX_SAFE_INTEGER)
+    }
+};
+
+export const MESSAGE_SCHEMAS: Record<MessageType, MessageSchema> = {
+    initial_state: { required: ['laser_state', 'laser_brightness'] },
+    status: { required: [] },
+    heartbeat: { required: ['uptime_ms'] },
+    config: { required: ['default_brightness'] }
+};
+
+export function isMessageType(type: string): type is MessageType {
+    return Object.hasOwn(MESSAGE_SCHEMAS, type);
+}
+
+export type ValidationResult =
+    | { ok: true; message: DeviceMessage }
+    | { ok: false; errors: string[] };
+
+// Reads one optional field, recording why when it has the wrong shape
+function readField<T>(source: JsonObject, key: keyof MessageFields, spec: FieldSpec<T>, errors: string[]): T | undefined {
+    const value = source[key];
+    if (value === undefined || value === null) return undefined;
+    const parsed = spec.read(value);
+    if (parsed === undefined) {
+        errors.push(`${key} must be ${spec.expected}, got ${JSON.stringify(value)}`);
+    }
+    return parsed;
+}
+
+// Checks a JSON object against the schema of its `type`; unknown fields are ignored
+export function validateMessage(type: MessageType, source: JsonObject): ValidationResult {
+    const errors: string[] = [];
+    const report: DeviceReport = {
+        version: readField(source, 'version', REPORT_FIELDS.version, errors),
+        uptime_ms: readField(source, 'uptime_ms', REPORT_FIELDS.uptime_ms, errors),
+        free_heap_bytes: readField(source, 'free_heap_bytes', REPORT_FIELDS.free_heap_bytes, errors),
+        laser_state: readField(source, 'laser_state', REPORT_FIELDS.laser_state, errors),
+        laser_brightness: readField(source, 'laser_brightness', REPORT_FIELDS.laser_brightness, errors)
+    };
+    const config: DeviceConfig = type !== 'config' ? {} : {
+        default_brightness: readField(source, 'default_brightness', CONFIG_FIELDS.default_brightness, errors),
+        boot_laser_state: readField(source, 'boot_laser_state', CONFIG_FIELDS.boot_laser_state, errors),
+        heartbeat_interval_ms: readField(source, 'heartbeat_interval_ms', CONFIG_FIELDS.heartbeat_interval_ms, errors),
+        pwm_frequency_hz: readField(source, 'pwm_frequency_hz', CONFIG_FIELDS.pwm_frequency_hz, errors)
+    };
+    const fields: MessageFields = { ...report, ...config };
+
+    for (const key of MESSAGE_SCHEMAS[type].required) {
+        if (fields[key] === undefined && !errors.some(error => error.startsWith(`${key} `))) {
+            errors.push(`${key} is required`);
+        }
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, message: { ...fields, type } };
+}
@@ -0,0 +1,63 @@
+import type { SerialPort, SerialPortInfo } from '../types/serial';
+
+const STORAGE_KEY = 'laserController.knownPorts';
+
+// USB identity of a port the user granted access to
+export interface KnownPort {
+    usbVendorId: number;
+    usbProductId: number;
+    lastConnected: number;
+    // Connection profile it was last opened with
+    profileId?: string;
+}
+
+export function loadKnownPorts(): KnownPort[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed as KnownPort[] : [];
+    } catch {
+        return [];
+    }
+}
+
+function saveKnownPorts(ports: KnownPort[]): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(ports));
+    } catch (error) {
+        console.error('Failed to save known ports:', error);
+    }
+}
+
+// Same USB vendor and product; identical boards cannot be told apart
+export function sameDevice(a: SerialPortInfo, b: SerialPortInfo): boolean {
+    return a.usbVendorId === b.usbVendorId && a.usbProductId === b.usbProductId;
+}
+
+// Remembers a port by its USB ids; ports without ids (e.g. Bluetooth) are skipped
+export function rememberPort(info: SerialPortInfo, profileId?: string): void {
+    if (info.usbVendorId === undefined || info.usbProductId === undefined) return;
+
+    const entry: KnownPort = {
+        usbVendorId: info.usbVendorId,
+        usbProductId: info.usbProductId,
+        lastConnected: Date.now(),
+        profileId
+    };
+    saveKnownPorts([entry, ...loadKnownPorts().filter(port => !sameDevice(port, info))]);
+}
+
+// Profile a known port was last opened with
+export function knownProfileId(info: SerialPortInfo): string | undefined {
+    return loadKnownPorts().find(known => sameDevice(known, info))?.profileId;
+}
+
+export function isKnownPort(port: SerialPort): boolean {
+    const info = port.getInfo();
+    return loadKnownPorts().some(known => sameDevice(known, info));
+}
+
+// Every granted port that matches a known device, most recently used first
+export function findKnownPorts(ports: SerialPort[]): SerialPort[] {
+    return loadKnownPorts().flatMap(known => ports.filter(port => sameDevice(port.getInfo(), known)));
+}
@@ -0,0 +1,161 @@
+// Line protocol spoken by the ESP32-S3 laser controller firmware.
+// Commands are newline-terminated text; the device answers with JSON objects
+// (one per line) and, on older firmware, plain-text log lines. Decoding lives
+// in ./parser.
+
+export type LaserCommand =
+    | 'LASER_ON'
+    | 'LASER_OFF'
+    | 'GET_INITIAL_STATE'
+    | 'GET_CONFIG'
+    | `SET_LASER_PWM:${number}`
+    | `SET_CONFIG:${string}`;
+
+export const PWM_MIN = 0;
+export const PWM_MAX = 100;
+
+// Fields shared by every state report the firmware sends
+export interface DeviceReport {
+    version?: string;
+    uptime_ms?: number;
+    free_heap_bytes?: number;
+    laser_state?: boolean;
+    laser_brightness?: number;
+}
+
+export interface InitialStateMessage extends DeviceReport {
+    type: 'initial_state';
+}
+
+export interface StatusMessage extends DeviceReport {
+    type: 'status';
+}
+
+export interface HeartbeatMessage extends DeviceReport {
+    type: 'heartbeat';
+}
+
+// Persistent settings kept in the board's preferences. Firmware reports only
+// the ones it supports (e.g. no PWM frequency on fixed-frequency builds).
+export interface DeviceConfig {
+    default_brightness?: number;
+    boot_laser_state?: boolean;
+    heartbeat_interval_ms?: number;
+    pwm_frequency_hz?: number;
+}
+
+// Answer to GET_CONFIG and SET_CONFIG
+export interface ConfigMessage extends DeviceReport, DeviceConfig {
+    type: 'config';
+}
+
+export type DeviceMessage = InitialStateMessage | StatusMessage | HeartbeatMessage | ConfigMessage;
+
+// State extracted from a legacy plain-text line
+export interface LegacyTextInfo {
+    firmwareVersion?: string;
+    laserOn?: boolean;
+    brightness?: number;
+    brightnessSource?: 'preferences' | 'initialized' | 'manual';
+    connectionDetected?: boolean;
+    // The firmware rejected a command
+    error?: string;
+}
+
+// A line no decoder understood (unknown) or one that failed validation (malformed)
+export interface ParseIssue {
+    kind: 'unknown' | 'malformed';
+    text: string;
+    reason: string;
+    // Decoder that claimed the line, e.g. "json/v1"
+    decoder?: string;
+}
+
+export type ParsedLine =
+    | { kind: 'json'; message: DeviceMessage; decoder: string }
+    | { kind: 'text'; text: string; info: LegacyTextInfo; decoder: string }
+    | ParseIssue;
+
+// Terminator sent after each command
+export type LineEnding = '\n' | '\r\n' | '\r';
+
+const encoder = new TextEncoder();
+
+export function encodeCommand(command: string, lineEnding: LineEnding = '\n'): Uint8Array {
+    return encoder.encode(command + lineEnding);
+}
+
+export function pwmCommand(value: number): LaserCommand {
+    if (!Number.isFinite(value) || value < PWM_MIN || value > PWM_MAX) {
+        throw new RangeError(`PWM value must be between ${PWM_MIN} and ${PWM_MAX}, got ${value}`);
+    }
+    return `SET_LASER_PWM:${Math.round(value)}`;
+}
+
+// SET_CONFIG:<key>=<value>; booleans are sent as 0/1
+export function configCommand<K extends keyof DeviceConfig>(key: K, value: NonNullable<DeviceConfig[K]>): LaserCommand {
+    return `SET_CONFIG:${key}=${typeof value === 'boolean' ? Number(value) : value}`;
+}
+
+// Whether `command` is meant as SET_LASER_PWM in any spelling, including ones
+// parsePwmCommand does not accept (case, spaces, signs, exponents)
+export function isPwmCommand(command: string): boolean {
+    return /^\s*SET_LASER_PWM(?![A-Z_])/i.test(command);
+}
+
+// Extracts the value of a SET_LASER_PWM command, if that is what `command` is
+export function parsePwmCommand(command: string): number | undefined {
+    const match = command.trim().match(/^SET_LASER_PWM:(-?\d+(?:\.\d+)?)$/);
+    return match ? Number(match[1]) : undefined;
+}
+
+// Splits a byte stream into trimmed, non-empty lines ending in LF, CR LF or CR
+export class LineDecoder {
+    private readonly decoder = new TextDecoder();
+    private buffer = '';
+
+    push(chunk: Uint8Array): string[] {
+        this.buffer += this.decoder.decode(chunk, { stream: true });
+
+        // A CR LF split across chunks only adds an empty line, which is dropped
+        const lines = this.buffer.split(/\r\n|\r|\n/);
+        this.buffer = lines.pop() || '';
+
+        return lines.map(line => line.trim()).filter(line => line.length > 0);
+    }
+
+    reset(): void {
+        this.buffer = '';
+    }
+}
+
+// Acknowledgement matchers: a command counts as applied once the device
+// reports the resulting state, in JSON or in the legacy text format.
+
+export function confirmsLaserState(on: boolean) {
+    return (response: ParsedLine): boolean => {
+        if (response.kind === 'json') return response.message.laser_state === on;
+        return response.kind === 'text' && response.info.laserOn === on;
+    };
+}
+
+export function confirmsBrightness(value: number) {
+    const expected = Math.round(value);
+    return (response: ParsedLine): boolean => {
+        if (response.kind === 'json') return response.message.laser_brightness === expected;
+        return response.kind === 'text' && response.info.brightness === expected;
+    };
+}
+
+// A config report; with a key, one that shows `value` for it
+export function confirmsConfig<K extends keyof DeviceConfig>(key?: K, value?: DeviceConfig[K]) {
+    return (response: ParsedLine): boolean => {
+        if (response.kind !== 'json' || response.message.type !== 'config') return false;
+        return key === undefined || response.message[key] === value;
+    };
+}
+
+export function confirmsInitialState(response: ParsedLine): boolean {
+    if (response.kind === 'json') return response.message.type === 'initial_state';
+    return response.kind === 'text' && response.info.brightnessSource === 'manual';
+}
@@ -0,0 +1,64 @@
+import { PWM_MAX, PWM_MIN } from './protocol';
+
+// Client-side safety limits; 0 disables the on-time limit and the watchdog
+export interface SafetyLimits {
+    maxPwm: number;
+    maxOnTimeSec: number;
+    watchdogSec: number;
+}
+
+export interface SafetySettings {
+    limits: SafetyLimits;
+    // SHA-256 of the password protecting the limits, if one is set
+    passwordHash?: string;
+}
+
+export const DEFAULT_SAFETY_LIMITS: SafetyLimits = {
+    maxPwm: PWM_MAX,
+    maxOnTimeSec: 0,
+    watchdogSec: 10
+};
+
+const STORAGE_KEY = 'laserController.safety';
+
+// Returns an error message for invalid limits
+export function validateSafetyLimits(limits: SafetyLimits): string | undefined {
+    if (!Number.isInteger(limits.maxPwm) || limits.maxPwm < PWM_MIN || limits.maxPwm > PWM_MAX) {
+        return `Maximum PWM must be a whole number between ${PWM_MIN} and ${PWM_MAX}`;
+    }
+    if (!Number.isFinite(limits.maxOnTimeSec) || limits.maxOnTimeSec < 0) {
+        return 'Maximum on-time must be 0 (unlimited) or a positive number of seconds';
+    }
+    if (!Number.isFinite(limits.watchdogSec) || limits.watchdogSec < 0) {
+        return 'Watchdog window must be 0 (disabled) or a positive number of seconds';
+    }
+    if (limits.watchdogSec > 0 && limits.watchdogSec < 1) {
+        return 'Watchdog window must be at least 1 second';
+    }
+    return undefined;
+}
+
+export function loadSafetySettings(): SafetySettings {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as SafetySettings;
+            const limits = { ...DEFAULT_SAFETY_LIMITS, ...parsed.limits };
+            if (!validateSafetyLimits(limits)) {
+                return { limits, passwordHash: parsed.passwordHash };
+            }
+        }
+    } catch (error) {
+        console.error('Failed to load safety settings:', error);
+    }
+    return { limits: DEFAULT_SAFETY_LIMITS };
+}
+
+export function saveSafetySettings(settings: SafetySettings): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
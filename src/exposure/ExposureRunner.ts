@@ -0,0 +1,210 @@
+import { Emitter } from '../device/Emitter';
+import { CommandError } from '../device/CommandQueue';
+import type { LaserDevice } from '../device/LaserDevice';
+import type { StatusMessage } from '../device/protocol';
+import { exposureDuration, validateExposurePlan, type ExposurePlan, type PulseResult } from './exposure';
+
+export interface ExposureProgress {
+    // 1-based index of the current pulse
+    pulse: number;
+    pulses: number;
+    firing: boolean;
+    // Until the current pulse ends, or until the next one starts
+    phaseRemainingMs: number;
+    // Until the last LASER_OFF
+    remainingMs: number;
+}
+
+export interface ExposureResult {
+    // Ran to the end (true) or was stopped or interrupted (false)
+    completed: boolean;
+    results: PulseResult[];
+}
+
+export interface ExposureRunnerEvents {
+    running: boolean;
+    progress: ExposureProgress;
+    pulse: PulseResult;
+    finished: ExposureResult;
+    error: Error;
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+
+// Fires timed exposures and pulse trains through LASER_ON/SET_LASER_PWM/LASER_OFF.
+// The on-time is counted from the confirmed LASER_ON, and LASER_OFF is always
+// sent when a pulse ends, however the run ends (stop, failure or dispose).
+// Browsers throttle timers in hidden tabs, so pulses may stretch there; the
+// measured durations show it.
+export class ExposureRunner extends Emitter<ExposureRunnerEvents> {
+    private readonly device: LaserDevice;
+    private plan: ExposurePlan | null = null;
+    private aborted = false;
+    private wake: (() => void) | null = null;
+    private laserMayBeOn = false;
+    private startedAt = 0;
+    private pulseIndex = 0;
+    private phaseEndsAt = 0;
+    private firing = false;
+    private measuring: 'on' | 'off' | null = null;
+    private onUptime: number | undefined;
+    private offUptime: number | undefined;
+    private ticker: ReturnType<typeof setInterval> | null = null;
+    private readonly cleanup: Array<() => void>;
+
+    constructor(device: LaserDevice) {
+        super();
+        this.device = device;
+        this.cleanup = [
+            device.on('status', message => this.handleStatus(message)),
+            // The emergency stop has already written LASER_OFF
+            device.on('emergency_stop', () => this.abort()),
+            device.on('disconnect', () => this.abort())
+        ];
+    }
+
+    get isRunning(): boolean {
+        return this.plan !== null;
+    }
+
+    // Resolves with the per-pulse results once the laser is off again
+    async run(plan: ExposurePlan): Promise<ExposureResult> {
+        if (this.plan) {
+            throw new Error('An exposure is already running');
+        }
+        const problem = validateExposurePlan(plan);
+        if (problem) {
+            throw new Error(problem);
+        }
+
+        this.plan = plan;
+        this.aborted = false;
+        this.laserMayBeOn = false;
+        this.pulseIndex = 0;
+        this.startedAt = performance.now();
+        this.phaseEndsAt = this.startedAt;
+        this.emit('running', true);
+        this.ticker = setInterval(() => this.emitProgress(), PROGRESS_INTERVAL_MS);
+
+        const results: PulseResult[] = [];
+        try {
+            await this.device.setPwm(plan.level);
+            this.startedAt = performance.now();
+
+            for (let i = 0; i < plan.pulses && !this.aborted; i++) {
+                this.pulseIndex = i;
+                this.phaseEndsAt = this.startedAt + i * plan.periodMs;
+                await this.waitUntil(this.phaseEndsAt);
+                if (this.aborted) break;
+
+                const result = await this.firePulse(i, plan.onMs);
+                // A pulse cut short says nothing about timing accuracy
+                if (this.aborted) break;
+                results.push(result);
+                this.emit('pulse', result);
+            }
+        } finally {
+            this.firing = false;
+            await this.switchOff();
+            if (this.ticker) clearInterval(this.ticker);
+            this.ticker = null;
+            this.plan = null;
+            this.emit('running', false);
+        }
+
+        const outcome = { completed: !this.aborted, results };
+        this.emit('finished', outcome);
+        return outcome;
+    }
+
+    // Ends the run early; the laser is switched off before run() settles
+    stop(): void {
+        this.abort();
+    }
+
+    dispose(): void {
+        this.abort();
+        this.cleanup.forEach(unsubscribe => unsubscribe());
+    }
+
+    private async firePulse(index: number, onMs: number): Promise<PulseResult> {
+        this.onUptime = undefined;
+        this.offUptime = undefined;
+        this.laserMayBeOn = true;
+        this.measuring = 'on';
+        await this.device.laserOn();
+
+        this.firing = true;
+        this.phaseEndsAt = performance.now() + onMs;
+        this.emitProgress();
+        await this.waitUntil(this.phaseEndsAt);
+        this.firing = false;
+
+        await this.switchOff();
+        const measuredMs = this.onUptime !== undefined && this.offUptime !== undefined
+            ? this.offUptime - this.onUptime
+            : undefined;
+        return { index, requestedMs: onMs, measuredMs };
+    }
+
+    private async switchOff(): Promise<void> {
+        if (!this.laserMayBeOn || !this.device.isConnected) return;
+        this.measuring = 'off';
+        try {
+            await this.device.laserOff();
+        } catch (error) {
+            if (!(error instanceof CommandError && error.reason === 'superseded')) {
+                this.emit('error', error as Error);
+            }
+            // Unconfirmed: write it raw rather than leave the laser on
+            await this.device.send('LASER_OFF').catch(sendError => this.emit('error', sendError as Error));
+        }
+        this.laserMayBeOn = false;
+    }
+
+    // Records the device uptime of the first report showing the new state
+    private handleStatus(message: StatusMessage): void {
+        if (typeof message.uptime_ms !== 'number') return;
+        if (this.measuring === 'on' && message.laser_state === true) {
+            this.onUptime = message.uptime_ms;
+            this.measuring = null;
+        } else if (this.measuring === 'off' && message.laser_state === false) {
+            this.offUptime = message.uptime_ms;
+            this.measuring = null;
+        }
+    }
+
+    private waitUntil(deadline: number): Promise<void> {
+        const delay = deadline - performance.now();
+        if (delay <= 0 || this.aborted) return Promise.resolve();
+
+        return new Promise(resolve => {
+            const finish = (): void => {
+                clearTimeout(timer);
+                this.wake = null;
+                resolve();
+            };
+            const timer = setTimeout(finish, delay);
+            this.wake = finish;
+        });
+    }
+
+    private abort(): void {
+        if (!this.plan) return;
+        this.aborted = true;
+        this.wake?.();
+    }
+
+    private emitProgress(): void {
+        const plan = this.plan;
+        if (!plan) return;
+        const now = performance.now();
+        this.emit('progress', {
+            pulse: this.pulseIndex + 1,
+            pulses: plan.pulses,
+            firing: this.firing,
+            phaseRemainingMs: Math.max(0, this.phaseEndsAt - now),
+            remainingMs: Math.max(0, this.startedAt + exposureDuration(plan) - now)
+        });
+    }
+}
@@ -0,0 +1,68 @@
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+// A single timed exposure (pulses = 1) or a train of equal pulses
+export interface ExposurePlan {
+    level: number;
+    onMs: number;
+    pulses: number;
+    // Start-to-start spacing of pulses; ignored for a single exposure
+    periodMs: number;
+}
+
+// Requested and device-measured on-time of one pulse
+export interface PulseResult {
+    index: number;
+    requestedMs: number;
+    // From the uptime_ms of the status replies to LASER_ON and LASER_OFF;
+    // undefined when the firmware did not report it
+    measuredMs?: number;
+}
+
+export interface JitterSummary {
+    measured: number;
+    meanMs: number;
+    minMs: number;
+    maxMs: number;
+}
+
+export const DEFAULT_EXPOSURE_PLAN: ExposurePlan = {
+    level: 70,
+    onMs: 2500,
+    pulses: 1,
+    periodMs: 1000
+};
+
+export function validateExposurePlan(plan: ExposurePlan): string | undefined {
+    if (!Number.isInteger(plan.level) || plan.level < PWM_MIN || plan.level > PWM_MAX) {
+        return `Brightness must be a whole number between ${PWM_MIN} and ${PWM_MAX}`;
+    }
+    if (!Number.isFinite(plan.onMs) || plan.onMs <= 0) {
+        return 'On-time must be a positive number of milliseconds';
+    }
+    if (!Number.isInteger(plan.pulses) || plan.pulses < 1) {
+        return 'Pulse count must be a whole number of at least 1';
+    }
+    if (plan.pulses > 1 && (!Number.isFinite(plan.periodMs) || plan.periodMs <= plan.onMs)) {
+        return 'Pulse period must be longer than the on-time';
+    }
+    return undefined;
+}
+
+// Time from the first LASER_ON to the last LASER_OFF
+export function exposureDuration(plan: ExposurePlan): number {
+    return (plan.pulses - 1) * plan.periodMs + plan.onMs;
+}
+
+// Deviation of the measured on-times from the requested ones
+export function summarizeJitter(results: PulseResult[]): JitterSummary | undefined {
+    const deviations = results.flatMap(result =>
+        result.measuredMs === undefined ? [] : [result.measuredMs - result.requestedMs]);
+    if (deviations.length === 0) return undefined;
+
+    return {
+        measured: deviations.length,
+        meanMs: deviations.reduce((sum, value) => sum + value, 0) / deviations.length,
+        minMs: Math.min(...deviations),
+        maxMs: Math.max(...deviations)
+    };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ConsoleLog } from '../console/ConsoleLog';
+
+interface Announcement {
+    text: string;
+    // Alternates so repeating the same text is announced again
+    toggle: boolean;
+}
+
+const SILENT: Announcement = { text: '', toggle: false };
+
+// Screen reader announcements through polite and assertive live regions.
+// Console errors are announced as they arrive; the console itself stays
+// silent, as reading every heartbeat aloud would drown everything else.
+export function useAnnouncer(consoleLog: ConsoleLog) {
+    const [polite, setPolite] = useState<Announcement>(SILENT);
+    const [assertive, setAssertive] = useState<Announcement>(SILENT);
+
+    const announce = useCallback((text: string, urgent = false): void => {
+        const update = (prev: Announcement): Announcement => ({ text, toggle: !prev.toggle });
+        if (urgent) {
+            setAssertive(update);
+        } else {
+            setPolite(update);
+        }
+    }, []);
+
+    useEffect(() => consoleLog.on('entry', entry => {
+        if (entry.type === 'error') announce(`Error: ${entry.message}`, true);
+    }), [consoleLog, announce]);
+
+    // Trailing no-break space makes a repeated message a content change
+    const render = (announcement: Announcement): string => announcement.text + (announcement.toggle ? ' ' : '');
+
+    return {
+        polite: render(polite),
+        assertive: render(assertive),
+        announce
+    };
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import {
+    DEFAULT_CALIBRATION_STEPS,
+    exportCalibration,
+    fitCurve,
+    importCalibration,
+    validateCalibration,
+    type BrightnessUnit,
+    type Calibration,
+    type CalibrationPoint
+} from '../calibration/calibration';
+import { loadBrightnessUnit, loadCalibrations, saveBrightnessUnit, saveCalibrations } from '../calibration/calibrationStore';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+
+// A measurement in progress: the device is driven to each step in turn and
+// the user enters what the power meter reads
+export interface CalibrationRun {
+    device: string;
+    steps: number[];
+    index: number;
+    readings: CalibrationPoint[];
+    // Brightness to return to afterwards
+    previousBrightness: number;
+}
+
+// Per-device calibration curves and the unit the brightness is set in
+export function useCalibration(session: DeviceSession | null, maxPwm: number, logMessage: LogMessage) {
+    const [calibrations, setCalibrations] = useState<Record<string, Calibration>>(loadCalibrations);
+    const [unit, setUnit] = useState<BrightnessUnit>(loadBrightnessUnit);
+    const [run, setRun] = useState<CalibrationRun | null>(null);
+
+    const key = session?.key ?? null;
+    const calibration = key ? calibrations[key] ?? null : null;
+    const curve = useMemo(() => calibration ? fitCurve(calibration.points) : null, [calibration]);
+
+    const firmwareVersion = session?.snapshot.deviceStats.firmwareVersion;
+    const firmwareChanged = calibration?.firmwareVersion !== undefined && firmwareVersion !== undefined
+        && firmwareVersion !== 'Unknown' && firmwareVersion !== calibration.firmwareVersion;
+
+    const updateCalibrations = useCallback((update: (prev: Record<string, Calibration>) => Record<string, Calibration>): void => {
+        setCalibrations(prev => {
+            const next = update(prev);
+            saveCalibrations(next);
+            return next;
+        });
+    }, []);
+
+    const changeUnit = useCallback((next: BrightnessUnit): void => {
+        setUnit(next);
+        saveBrightnessUnit(next);
+    }, []);
+
+    // Drives the device to a step; the user then reads the meter
+    const driveTo = useCallback((pwm: number): void => {
+        if (!session) return;
+        session.setLocalBrightness(pwm);
+        session.sendBrightness(pwm);
+    }, [session]);
+
+    // A measurement belongs to one device; switching or losing it ends the run
+    useEffect(() => {
+        if (run && run.device !== key) {
+            setRun(null);
+            logMessage('Calibration cancelled: the device changed', 'warning');
+        }
+    }, [run, key, logMessage]);
+
+    const start = useCallback((steps: number[] = DEFAULT_CALIBRATION_STEPS): void => {
+        if (!session) return;
+        if (!session.snapshot.laserOn) {
+            logMessage('Switch the laser on and place the power meter before calibrating', 'warning');
+            return;
+        }
+        const allowed = steps.filter(step => step <= maxPwm);
+        if (allowed.length < steps.length) {
+            logMessage(`Calibration skips steps above the ${maxPwm}% safety limit`, 'warning');
+        }
+        if (allowed.filter(step => step > 0).length < 2) {
+            logMessage('The safety limit leaves too few steps to calibrate', 'error');
+            return;
+        }
+
+        setRun({ device: session.key, steps: allowed, index: 0, readings: [], previousBrightness: session.snapshot.laserBrightness });
+        logMessage(`Calibrating ${session.name}: ${allowed.length} steps`, 'info');
+        driveTo(allowed[0]);
+    }, [session, maxPwm, logMessage, driveTo]);
+
+    const finish = useCallback((current: CalibrationRun, readings: CalibrationPoint[]): void => {
+        setRun(null);
+        driveTo(current.previousBrightness);
+        try {
+            const measured = validateCalibration({
+                device: current.device,
+                firmwareVersion: firmwareVersion !== 'Unknown' ? firmwareVersion : undefined,
+                createdAt: Date.now(),
+                points: readings
+            });
+            updateCalibrations(prev => ({ ...prev, [measured.device]: measured }));
+            logMessage(`Calibration saved: ${fitCurve(measured.points).maxPowerMw.toFixed(1)} mW maximum`, 'success');
+        } catch (error) {
+            logMessage(`Calibration not saved: ${(error as Error).message}`, 'error');
+        }
+    }, [driveTo, firmwareVersion, updateCalibrations, logMessage]);
+
+    // Stores the reading for the current step and moves on
+    const record = useCallback((powerMw: number): void => {
+        if (!run || !(powerMw >= 0)) return;
+        const readings = [...run.readings, { pwm: run.steps[run.index], powerMw }];
+        if (run.index + 1 >= run.steps.length) {
+            finish(run, readings);
+            return;
+        }
+        setRun({ ...run, index: run.index + 1, readings });
+        driveTo(run.steps[run.index + 1]);
+    }, [run, finish, driveTo]);
+
+    // Returns to the previous step to measure it again
+    const back = useCallback((): void => {
+        if (!run || run.index === 0) return;
+        setRun({ ...run, index: run.index - 1, readings: run.readings.slice(0, -1) });
+        driveTo(run.steps[run.index - 1]);
+    }, [run, driveTo]);
+
+    const cancel = useCallback((): void => {
+        if (!run) return;
+        setRun(null);
+        driveTo(run.previousBrightness);
+        logMessage('Calibration cancelled', 'warning');
+    }, [run, driveTo, logMessage]);
+
+    const remove = useCallback((): void => {
+        if (!key) return;
+        updateCalibrations(prev => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+        logMessage('Calibration removed; brightness is set in PWM %', 'info');
+    }, [key, updateCalibrations, logMessage]);
+
+    // Imports for the selected device, even when the file came from another one
+    const importFile = useCallback(async (file: File): Promise<void> => {
+        try {
+            const imported = importCalibration(await file.text());
+            if (key && imported.device !== key) {
+                logMessage(`${file.name} was measured on ${imported.device}; applying it to ${key}`, 'warning');
+            }
+            const target = { ...imported, device: key ?? imported.device };
+            updateCalibrations(prev => ({ ...prev, [target.device]: target }));
+            logMessage(`Imported calibration with ${target.points.length} points from ${file.name}`, 'success');
+        } catch (error) {
+            logMessage(`Calibration import failed: ${(error as Error).message}`, 'error');
+        }
+    }, [key, updateCalibrations, logMessage]);
+
+    const exportFile = useCallback((): void => {
+        if (!calibration) return;
+        downloadFile(`laser-calibration-${fileTimestamp()}.json`, exportCalibration(calibration));
+    }, [calibration]);
+
+    return {
+        calibration,
+        curve,
+        firmwareChanged,
+        // Without a curve only PWM % makes sense
+        unit: curve ? unit : 'pwm',
+        setUnit: changeUnit,
+        run,
+        start,
+        record,
+        back,
+        cancel,
+        remove,
+        importFile,
+        exportFile
+    };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CommandError } from '../device/CommandQueue';
+import type { LaserDevice } from '../device/LaserDevice';
+import { findCommand } from '../device/commandCatalog';
+import { loadCommandHistory, pushCommandHistory } from '../device/commandHistory';
+import { formatHex, parseHex } from '../utils/hex';
+import type { LogMessage } from '../types/console';
+
+export type CommandLineMode = 'text' | 'hex';
+
+// Free-form commands from the console input, with persisted history and a
+// hex mode that sends raw bytes and shows received bytes as they arrive.
+// Without a device, text commands may be handed to `forward` (another tab).
+export function useCommandLine(device: LaserDevice | null, logMessage: LogMessage, forward?: (text: string) => boolean) {
+    const [history, setHistory] = useState<string[]>(loadCommandHistory);
+    const [mode, setMode] = useState<CommandLineMode>('text');
+
+    // In hex mode every received chunk is shown as well as the parsed lines
+    useEffect(() => {
+        if (!device || mode !== 'hex') return;
+        return device.on('received', chunk => logMessage(`RX (hex): ${formatHex(chunk)}`, 'info', undefined, { direction: 'received' }));
+    }, [device, mode, logMessage]);
+
+    // Resolves to true once the input has been written
+    const submit = useCallback(async (input: string): Promise<boolean> => {
+        const text = input.trim();
+        if (!text) return false;
+        if (mode === 'text') {
+            const problem = findCommand(text)?.validate?.(text);
+            if (problem) {
+                logMessage(`${text}: ${problem}`, 'error');
+                return false;
+            }
+        }
+        if (!device?.isConnected) {
+            if (mode === 'text' && forward?.(text)) {
+                setHistory(prev => pushCommandHistory(prev, text));
+                return true;
+            }
+            logMessage(forward && mode === 'hex'
+                ? 'Hex bytes can only be sent from the tab that controls the devices'
+                : 'No connection available', 'error');
+            return false;
+        }
+
+        try {
+            if (mode === 'hex') {
+                const bytes = parseHex(text);
+                await device.sendBytes(bytes);
+                logMessage(`Sent (hex): ${formatHex(bytes)}`, 'warning', undefined, { direction: 'sent' });
+            } else {
+                await device.send(text);
+            }
+            setHistory(prev => pushCommandHistory(prev, text));
+            return true;
+        } catch (error) {
+            // Refusals are logged by the guard that refused
+            if (!(error instanceof CommandError && error.reason === 'refused')) {
+                logMessage(`Send error: ${(error as Error).message}`, 'error');
+            }
+            return false;
+        }
+    }, [device, mode, logMessage, forward]);
+
+    return { history, mode, setMode, submit };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useState } from 'react';
+import {
+    DEFAULT_PROFILE_ID,
+    loadConnectionProfiles,
+    saveConnectionProfiles,
+    type ConnectionProfile,
+    type ConnectionProfiles
+} from '../device/connectionProfiles';
+
+// Saved serial connection profiles and the one used for new connections
+export function useConnectionProfiles() {
+    const [state, setState] = useState<ConnectionProfiles>(loadConnectionProfiles);
+
+    const update = useCallback((change: (prev: ConnectionProfiles) => ConnectionProfiles): void => {
+        setState(prev => {
+            const next = change(prev);
+            saveConnectionProfiles(next);
+            return next;
+        });
+    }, []);
+
+    const select = useCallback((id: string): void => {
+        update(prev => ({ ...prev, selectedId: id }));
+    }, [update]);
+
+    // Adds the profile, or replaces the one with its id, and selects it
+    const saveProfile = useCallback((profile: ConnectionProfile): void => {
+        if (profile.id === DEFAULT_PROFILE_ID) return;
+        update(prev => ({
+            profiles: prev.profiles.some(existing => existing.id === profile.id)
+                ? prev.profiles.map(existing => existing.id === profile.id ? profile : existing)
+                : [...prev.profiles, profile],
+            selectedId: profile.id
+        }));
+    }, [update]);
+
+    const deleteProfile = useCallback((id: string): void => {
+        if (id === DEFAULT_PROFILE_ID) return;
+        update(prev => ({
+            profiles: prev.profiles.filter(profile => profile.id !== id),
+            selectedId: prev.selectedId === id ? DEFAULT_PROFILE_ID : prev.selectedId
+        }));
+    }, [update]);
+
+    const selected = state.profiles.find(profile => profile.id === state.selectedId) ?? state.profiles[0];
+
+    return {
+        profiles: state.profiles,
+        selected,
+        select,
+        saveProfile,
+        deleteProfile
+    };
+}
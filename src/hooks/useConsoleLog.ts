@@ -0,0 +1,27 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import { ConsoleLog } from '../console/ConsoleLog';
+import type { ConsoleEntry, LogMessage } from '../types/console';
+
+export function useConsoleLog(initialMessages: Array<Pick<ConsoleEntry, 'message' | 'type'>> = []) {
+    const [consoleLog] = useState(() => {
+        const log = new ConsoleLog();
+        initialMessages.forEach(({ message, type }) => log.append(message, type));
+        return log;
+    });
+
+    const logMessage: LogMessage = useCallback((message, type = 'info', source, details) => {
+        consoleLog.append(message, type, source, details);
+    }, [consoleLog]);
+
+    const clearConsole = useCallback((): void => {
+        consoleLog.clear();
+    }, [consoleLog]);
+
+    return { consoleLog, logMessage, clearConsole };
+}
+
+// Entries of a console log; only the component using this re-renders on new lines
+export function useConsoleEntries(consoleLog: ConsoleLog): readonly ConsoleEntry[] {
+    const subscribe = useCallback((onChange: () => void) => consoleLog.on('change', onChange), [consoleLog]);
+    return useSyncExternalStore(subscribe, () => consoleLog.entries);
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import type { DeviceConfig } from '../device/protocol';
+import type { SafetyLimits } from '../device/safetySettings';
+import {
+    changedKeys,
+    exportConfigBackup,
+    importConfigBackup,
+    pickConfig,
+    validateDeviceConfig
+} from '../device/deviceConfig';
+import { CommandError } from '../device/CommandQueue';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+
+// idle: not read yet; unsupported: the firmware did not answer GET_CONFIG
+export type DeviceConfigStatus = 'idle' | 'reading' | 'unsupported' | 'ready' | 'saving';
+
+// The selected device's persistent configuration and an editable draft of it
+export function useDeviceConfig(session: DeviceSession | null, limits: SafetyLimits, logMessage: LogMessage) {
+    const [status, setStatus] = useState<DeviceConfigStatus>('idle');
+    // As last reported by the device
+    const [config, setConfig] = useState<DeviceConfig | null>(null);
+    const [draft, setDraft] = useState<DeviceConfig>({});
+
+    // Starts over for every device; config reports keep the copy current,
+    // including ones answering SET_CONFIG typed on the command line
+    useEffect(() => {
+        setStatus('idle');
+        setConfig(null);
+        setDraft({});
+        if (!session) return;
+        return session.device.on('config', message => {
+            const reported = pickConfig(message);
+            setConfig(reported);
+            setDraft(prev => Object.keys(prev).length === 0 ? reported : prev);
+            setStatus(prev => prev === 'idle' || prev === 'unsupported' ? 'ready' : prev);
+        });
+    }, [session]);
+
+    const read = useCallback(async (): Promise<void> => {
+        if (!session) return;
+        setStatus('reading');
+        try {
+            const reported = pickConfig(await session.device.readConfig());
+            setConfig(reported);
+            setDraft(reported);
+            setStatus('ready');
+            logMessage('Device configuration read', 'success');
+        } catch (error) {
+            if (error instanceof CommandError && error.reason === 'timeout') {
+                setStatus('unsupported');
+                logMessage('The firmware did not answer GET_CONFIG; it may not support configuration', 'warning');
+                return;
+            }
+            setStatus(prev => prev === 'reading' ? 'idle' : prev);
+            logMessage(`Reading the configuration failed: ${(error as Error).message}`, 'error');
+        }
+    }, [session, logMessage]);
+
+    const update = useCallback((changes: DeviceConfig): void => {
+        setDraft(prev => ({ ...prev, ...changes }));
+    }, []);
+
+    const revert = useCallback((): void => {
+        if (config) setDraft(config);
+    }, [config]);
+
+    const changes = useMemo(() => config ? changedKeys(config, draft) : [], [config, draft]);
+    const problem = config ? validateDeviceConfig(draft, limits) : undefined;
+
+    // Writes the changed settings one at a time, stopping at the first failure
+    const save = useCallback(async (): Promise<void> => {
+        if (!session || !config || changes.length === 0) return;
+        if (problem) {
+            logMessage(`Configuration not saved: ${problem}`, 'error');
+            return;
+        }
+        setStatus('saving');
+        try {
+            let latest = config;
+            for (const key of changes) {
+                const value = draft[key];
+                if (value === undefined) continue;
+                latest = pickConfig(await session.device.writeConfig(key, value));
+            }
+            setConfig(latest);
+            setDraft(latest);
+            logMessage(`Saved ${changes.length} setting${changes.length === 1 ? '' : 's'} to ${session.name}`, 'success');
+        } catch (error) {
+            logMessage(`Saving the configuration failed: ${(error as Error).message}`, 'error');
+        } finally {
+            setStatus('ready');
+        }
+    }, [session, config, draft, changes, problem, logMessage]);
+
+    const exportFile = useCallback((): void => {
+        if (!session || !config) return;
+        const firmwareVersion = session.snapshot.deviceStats.firmwareVersion;
+        downloadFile(`laser-config-${fileTimestamp()}.json`, exportConfigBackup({
+            device: session.key,
+            firmwareVersion: firmwareVersion !== 'Unknown' ? firmwareVersion : undefined,
+            createdAt: Date.now(),
+            config
+        }));
+    }, [session, config]);
+
+    // Loads a backup into the draft; nothing is written until it is saved
+    const importFile = useCallback(async (file: File): Promise<void> => {
+        if (!config) return;
+        try {
+            const backup = importConfigBackup(await file.text());
+            const entries = Object.entries(backup.config);
+            const unsupported = entries.filter(([key]) => !(key in config)).map(([key]) => key);
+            const restored: DeviceConfig = { ...config, ...Object.fromEntries(entries.filter(([key]) => key in config)) };
+            if (unsupported.length > 0) {
+                logMessage(`This firmware does not support ${unsupported.join(', ')}; skipped`, 'warning');
+            }
+            setDraft(restored);
+            logMessage(`Restored ${file.name} from ${backup.device}; review and save to write it`, 'info');
+        } catch (error) {
+            logMessage(`Configuration restore failed: ${(error as Error).message}`, 'error');
+        }
+    }, [config, logMessage]);
+
+    return {
+        status,
+        config,
+        draft,
+        changes,
+        error: problem,
+        read,
+        update,
+        revert,
+        save,
+        exportFile,
+        importFile
+    };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import type { LogMessage } from '../types/console';
+import { isInteractive } from '../utils/dom';
+
+// Emergency stop: immediate LASER_OFF from a button or hotkey (Escape, or
+// Space outside form controls), latching the laser off until re-armed. Also
+// switches the lasers off when the page is closed or hidden for good. Acts on
+// every connected device at once. Without devices of its own, `relay` may pass
+// the stop on (to the tab that owns them) and returns whether it did.
+export function useEmergencyStop(sessions: DeviceSession[], logMessage: LogMessage, relay?: () => boolean) {
+    const [stopped, setStopped] = useState<boolean>(false);
+    const sessionsRef = useRef<DeviceSession[]>(sessions);
+
+    const relayRef = useRef(relay);
+    useEffect(() => {
+        relayRef.current = relay;
+    });
+
+    useEffect(() => {
+        sessionsRef.current = sessions;
+    }, [sessions]);
+
+    const emergencyStop = useCallback((): void => {
+        setStopped(true);
+        logMessage('EMERGENCY STOP: laser switched off and locked out', 'error');
+
+        const connected = sessionsRef.current.filter(session => session.device.isConnected);
+        if (connected.length === 0) {
+            if (relayRef.current?.()) {
+                logMessage('EMERGENCY STOP: passed to the tab that controls the laser', 'warning');
+                return;
+            }
+            logMessage('EMERGENCY STOP: no device connected, nothing sent', 'warning');
+            return;
+        }
+        for (const session of connected) {
+            session.device.emergencyStop().catch(error => {
+                logMessage(`EMERGENCY STOP send failed: ${(error as Error).message}`, 'error', session.source);
+            });
+        }
+    }, [logMessage]);
+
+    const rearm = useCallback((): void => {
+        setStopped(false);
+        logMessage('Emergency stop released, laser re-armed', 'warning');
+    }, [logMessage]);
+
+    // While latched, refuse to switch any laser on
+    useEffect(() => {
+        if (!stopped) return;
+        const removers = sessions.map(session => session.device.addGuard(command => {
+            if (command.trim() !== 'LASER_ON') return undefined;
+            const reason = 'Refused LASER_ON: emergency stop is active, re-arm first';
+            logMessage(reason, 'warning', session.source);
+            return reason;
+        }));
+        return () => removers.forEach(remove => remove());
+    }, [sessions, stopped, logMessage]);
+
+    // Global hotkeys
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent): void => {
+            if (event.key === 'Escape' || (event.code === 'Space' && !isInteractive(event.target))) {
+                event.preventDefault();
+                emergencyStop();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [emergencyStop]);
+
+    // Best-effort shutdown when the tab goes away; the write starts synchronously
+    useEffect(() => {
+        const switchOff = (): void => {
+            sessionsRef.current.forEach(session => session.device.emergencyStop().catch(() => undefined));
+        };
+        window.addEventListener('beforeunload', switchOff);
+        window.addEventListener('pagehide', switchOff);
+        return () => {
+            window.removeEventListener('beforeunload', switchOff);
+            window.removeEventListener('pagehide', switchOff);
+        };
+    }, []);
+
+    return { stopped, emergencyStop, rearm };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CommandError } from '../device/CommandQueue';
+import type { LaserDevice } from '../device/LaserDevice';
+import { ExposureRunner, type ExposureProgress } from '../exposure/ExposureRunner';
+import {
+    DEFAULT_EXPOSURE_PLAN,
+    summarizeJitter,
+    type ExposurePlan,
+    type PulseResult
+} from '../exposure/exposure';
+import type { LogMessage } from '../types/console';
+
+function describePlan(plan: ExposurePlan): string {
+    return plan.pulses === 1
+        ? `${plan.level}% for ${plan.onMs} ms`
+        : `${plan.pulses} × ${plan.onMs} ms every ${plan.periodMs} ms at ${plan.level}%`;
+}
+
+function formatDeviation(ms: number): string {
+    return `${ms >= 0 ? '+' : ''}${Math.round(ms)} ms`;
+}
+
+// Timed exposures and pulse trains. The runner lives as long as the device,
+// not the panel, so hiding the panel never leaves the laser on.
+export function useExposure(device: LaserDevice | null, logMessage: LogMessage) {
+    const [plan, setPlan] = useState<ExposurePlan>(DEFAULT_EXPOSURE_PLAN);
+    const [running, setRunning] = useState<boolean>(false);
+    const [progress, setProgress] = useState<ExposureProgress | null>(null);
+    const [results, setResults] = useState<PulseResult[]>([]);
+    const runnerRef = useRef<ExposureRunner | null>(null);
+
+    useEffect(() => {
+        if (!device) return;
+
+        const runner = new ExposureRunner(device);
+        runner.on('running', value => {
+            setRunning(value);
+            if (!value) setProgress(null);
+        });
+        runner.on('progress', setProgress);
+        runner.on('pulse', result => {
+            setResults(prev => [...prev, result]);
+            const measured = result.measuredMs === undefined
+                ? 'not reported by the device'
+                : `${result.measuredMs} ms measured (${formatDeviation(result.measuredMs - result.requestedMs)})`;
+            logMessage(`Pulse ${result.index + 1}: ${measured}`, 'info');
+        });
+        runner.on('finished', ({ completed, results: pulses }) => {
+            if (!completed) {
+                logMessage('Exposure stopped, laser switched off', 'warning');
+                return;
+            }
+            const jitter = summarizeJitter(pulses);
+            logMessage(jitter
+                ? `Exposure complete: on-time deviation ${formatDeviation(jitter.meanMs)} mean, ${formatDeviation(jitter.minMs)} to ${formatDeviation(jitter.maxMs)}`
+                : 'Exposure complete', 'success');
+        });
+        runner.on('error', error => logMessage(`Exposure error: ${error.message}`, 'error'));
+        runnerRef.current = runner;
+
+        return () => {
+            runner.dispose();
+            runnerRef.current = null;
+            setRunning(false);
+            setProgress(null);
+        };
+    }, [device, logMessage]);
+
+    const fire = useCallback(async (): Promise<void> => {
+        const runner = runnerRef.current;
+        if (!runner) {
+            logMessage('No connection available', 'error');
+            return;
+        }
+
+        logMessage(`Exposure started: ${describePlan(plan)}`, 'info');
+        setResults([]);
+        try {
+            await runner.run(plan);
+        } catch (error) {
+            // Refusals are logged by the guard that refused
+            if (error instanceof CommandError && error.reason === 'refused') return;
+            logMessage(`Exposure failed: ${(error as Error).message}`, 'error');
+        }
+    }, [plan, logMessage]);
+
+    const stop = useCallback(() => runnerRef.current?.stop(), []);
+
+    return { plan, setPlan, running, progress, results, fire, stop };
+}
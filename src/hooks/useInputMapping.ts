@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InputLearner, InputMapper, type MappedAction } from '../input/InputMapper';
+import { MidiInput } from '../input/MidiInput';
+import { GamepadInput } from '../input/GamepadInput';
+import {
+    defaultAction,
+    describeSource,
+    exportInputMappings,
+    importInputMappings,
+    loadInputMappings,
+    saveInputMappings,
+    sourceKey,
+    type InputEvent,
+    type InputMapping
+} from '../input/inputMapping';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+
+// What learn mode will bind the next control to
+export interface LearnTarget {
+    // Rebinds this mapping; a new one is added when missing
+    mappingId?: string;
+}
+
+// MIDI controllers and gamepads bound to controller actions. Gamepads are
+// polled from the start; MIDI needs permission, so it waits for enableMidi().
+export function useInputMapping(onAction: (action: MappedAction) => void, logMessage: LogMessage) {
+    const [mappings, setMappings] = useState<InputMapping[]>(loadInputMappings);
+    const [learning, setLearning] = useState<LearnTarget | null>(null);
+    const [midiEnabled, setMidiEnabled] = useState<boolean>(false);
+    const [midiDevices, setMidiDevices] = useState<string[]>([]);
+    const [gamepads, setGamepads] = useState<string[]>([]);
+    const mapperRef = useRef(new InputMapper());
+    const learnerRef = useRef(new InputLearner());
+    const midiRef = useRef<MidiInput | null>(null);
+    const learningRef = useRef<LearnTarget | null>(null);
+    const onActionRef = useRef(onAction);
+
+    useEffect(() => {
+        onActionRef.current = onAction;
+    });
+
+    const update = useCallback((change: (prev: InputMapping[]) => InputMapping[]): void => {
+        setMappings(prev => {
+            const next = change(prev);
+            saveInputMappings(next);
+            return next;
+        });
+    }, []);
+
+    useEffect(() => {
+        mapperRef.current.setMappings(mappings);
+    }, [mappings]);
+
+    const learn = useCallback((event: InputEvent): void => {
+        const target = learningRef.current;
+        const source = target && learnerRef.current.feed(event);
+        if (!target || !source) return;
+
+        learningRef.current = null;
+        setLearning(null);
+        update(prev => {
+            // A control drives one mapping; learning it again moves it
+            const others = prev.filter(mapping => mapping.id === target.mappingId || sourceKey(mapping.source) !== sourceKey(source));
+            const existing = others.find(mapping => mapping.id === target.mappingId);
+            return existing
+                ? others.map(mapping => mapping === existing ? { ...mapping, source } : mapping)
+                : [...others, { id: crypto.randomUUID(), source, action: defaultAction(source) }];
+        });
+        logMessage(`Learned ${describeSource(source)} on ${source.device}`, 'success');
+    }, [update, logMessage]);
+
+    useEffect(() => {
+        const handleInput = (event: InputEvent): void => {
+            if (learningRef.current) {
+                learn(event);
+                return;
+            }
+            for (const action of mapperRef.current.handle(event)) onActionRef.current(action);
+        };
+
+        const gamepad = new GamepadInput();
+        const cleanup = [
+            gamepad.on('input', handleInput),
+            gamepad.on('devices', setGamepads)
+        ];
+        gamepad.start();
+
+        const midi = midiRef.current;
+        if (midi) {
+            cleanup.push(midi.on('input', handleInput), midi.on('devices', setMidiDevices));
+        }
+
+        return () => {
+            cleanup.forEach(off => off());
+            gamepad.stop();
+        };
+    }, [learn, midiEnabled]);
+
+    useEffect(() => () => midiRef.current?.stop(), []);
+
+    const enableMidi = useCallback(async (): Promise<void> => {
+        if (!MidiInput.isSupported) {
+            logMessage('This browser does not support Web MIDI', 'error');
+            return;
+        }
+        const midi = midiRef.current ?? new MidiInput();
+        midiRef.current = midi;
+        // Subscribed before start() so the first device list is not missed
+        const off = midi.on('devices', setMidiDevices);
+        try {
+            await midi.start();
+            setMidiEnabled(true);
+            logMessage('MIDI input enabled', 'success');
+        } catch (error) {
+            midiRef.current = null;
+            logMessage(`MIDI access failed: ${(error as Error).message}`, 'error');
+        } finally {
+            off();
+        }
+    }, [logMessage]);
+
+    const startLearning = useCallback((mappingId?: string): void => {
+        learnerRef.current.reset();
+        learningRef.current = { mappingId };
+        setLearning({ mappingId });
+    }, []);
+
+    const cancelLearning = useCallback((): void => {
+        learningRef.current = null;
+        setLearning(null);
+    }, []);
+
+    const updateMapping = useCallback((mapping: InputMapping): void => {
+        update(prev => prev.map(existing => existing.id === mapping.id ? mapping : existing));
+    }, [update]);
+
+    const deleteMapping = useCallback((id: string): void => {
+        update(prev => prev.filter(mapping => mapping.id !== id));
+    }, [update]);
+
+    const importFile = useCallback(async (file: File): Promise<void> => {
+        try {
+            const imported = importInputMappings(await file.text());
+            update(prev => {
+                const keys = new Set(imported.map(mapping => sourceKey(mapping.source)));
+                return [...prev.filter(mapping => !keys.has(sourceKey(mapping.source))), ...imported];
+            });
+            logMessage(`Imported ${imported.length} input mapping(s) from ${file.name}`, 'success');
+        } catch (error) {
+            logMessage(`Input mapping import failed: ${(error as Error).message}`, 'error');
+        }
+    }, [update, logMessage]);
+
+    const exportFile = useCallback((): void => {
+        downloadFile(`input-mappings-${fileTimestamp()}.json`, exportInputMappings(mappings));
+    }, [mappings]);
+
+    return {
+        mappings,
+        learning,
+        midiSupported: MidiInput.isSupported,
+        midiEnabled,
+        midiDevices,
+        gamepads,
+        enableMidi,
+        startLearning,
+        cancelLearning,
+        updateMapping,
+        deleteMapping,
+        importFile,
+        exportFile
+    };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    DEFAULT_ACCESSIBILITY_SETTINGS,
+    eventBinding,
+    findAction,
+    loadAccessibilitySettings,
+    saveAccessibilitySettings,
+    type AccessibilitySettings,
+    type ShortcutAction
+} from '../accessibility/shortcuts';
+import { isInteractive, isTextEntry } from '../utils/dom';
+
+// Actions that must not fire again from a held-down key
+const NO_REPEAT: ShortcutAction[] = ['toggleLaser', 'preset1', 'preset2', 'preset3', 'preset4'];
+
+// Keys that press a focused button or follow a focused link
+const ACTIVATION_KEYS = ['Space', 'Enter', 'NumpadEnter'];
+
+// Configurable keyboard shortcuts for the laser controls. They work wherever
+// keyboard focus is, except in text fields, for Space and Enter on a focused
+// control, and for anything another handler claimed.
+export function useKeyboardShortcuts(onAction: (action: ShortcutAction) => void) {
+    const [settings, setSettings] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+
+    const onActionRef = useRef(onAction);
+    useEffect(() => {
+        onActionRef.current = onAction;
+    });
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent): void => {
+            if (event.defaultPrevented || isTextEntry(event.target)) return;
+            if (ACTIVATION_KEYS.includes(event.code) && isInteractive(event.target)) return;
+            const binding = eventBinding(event);
+            const action = binding && findAction(settings.bindings, binding);
+            if (!action || (event.repeat && NO_REPEAT.includes(action))) return;
+            event.preventDefault();
+            onActionRef.current(action);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [settings.bindings]);
+
+    const updateSettings = useCallback((changes: Partial<AccessibilitySettings>): void => {
+        setSettings(prev => {
+            const next = { ...prev, ...changes };
+            saveAccessibilitySettings(next);
+            return next;
+        });
+    }, []);
+
+    const resetSettings = useCallback((): void => {
+        setSettings(DEFAULT_ACCESSIBILITY_SETTINGS);
+        saveAccessibilitySettings(DEFAULT_ACCESSIBILITY_SETTINGS);
+    }, []);
+
+    return { settings, updateSettings, resetSettings };
+}
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DeviceSession, INITIAL_STATS, type DeviceSnapshot } from '../device/DeviceSession';
+import { deviceKey, loadDeviceName, saveDeviceName, savedUnits, type SavedUnit } from '../device/deviceNames';
+import { WebSerialTransport } from '../device/WebSerialTransport';
+import type { Transport } from '../device/Transport';
+import type { LogMessage } from '../types/console';
+
+export interface LaserDeviceOptions {
+    // Called after a link closed; `cause` is set when the close was unexpected
+    onDisconnect?: (cause: Error | undefined, transport: Transport) => void;
+    // Called with each new session before it connects, to attach extra listeners
+    onCreate?: (session: DeviceSession) => void;
+}
+
+// Shown while no device is selected
+const DISCONNECTED: DeviceSnapshot = {
+    name: '',
+    laserOn: false,
+    laserBrightness: 50,
+    brightnessInitialized: false,
+    deviceStats: INITIAL_STATS,
+    pending: { laser: false, brightness: false },
+    parseIssues: { unknown: 0, malformed: 0 }
+};
+
+// Asks which of several saved identical boards was just plugged in
+function pickUnit(units: SavedUnit[]): string | undefined {
+    const list = units.map((unit, index) => `${index + 1}. ${unit.name}`).join('\n');
+    const answer = window.prompt(`Several saved boards have the same USB ids:\n${list}\n\nWhich one was just connected? Leave empty for another board.`, '1');
+    return units[Number(answer) - 1]?.key;
+}
+
+// Connects any number of laser controllers and mirrors their state into
+// React. The selected device drives the single-device controls.
+export function useLaserDevice(logMessage: LogMessage, options: LaserDeviceOptions = {}) {
+    const [sessions, setSessions] = useState<DeviceSession[]>([]);
+    const [snapshots, setSnapshots] = useState<Record<string, DeviceSnapshot>>({});
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const sessionsRef = useRef<DeviceSession[]>([]);
+
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    const updateSessions = useCallback((next: DeviceSession[]): void => {
+        sessionsRef.current = next;
+        setSessions(next);
+    }, []);
+
+    // Resolves to false (after logging why) when the link could not be opened
+    const connect = useCallback(async (transport: Transport): Promise<boolean> => {
+        // Identical boards share a key and are numbered in connection order.
+        // That order can change, so with several saved boards that could be
+        // this one the user picks it; names, calibrations and usage follow the key.
+        const serial = transport instanceof WebSerialTransport;
+        const baseKey = deviceKey(transport);
+        const taken = (candidate: string): boolean => sessionsRef.current.some(session => session.key === candidate);
+        const saved = serial ? savedUnits(baseKey) : [];
+        const units = saved.filter(unit => !taken(unit.key));
+        const picked = units.length > 1 ? pickUnit(units) : baseKey;
+        // A board that is none of the saved ones must not take over their keys
+        const inUse = (candidate: string): boolean =>
+            taken(candidate) || (picked === undefined && saved.some(unit => unit.key === candidate));
+        let key = picked ?? baseKey;
+        for (let n = 2; inUse(key); n++) {
+            key = `${baseKey}#${n}`;
+        }
+        if (serial && taken(baseKey)) {
+            logMessage(`This board has the same USB ids as one already connected; its name, calibration and usage are kept under ${key}. Rename it so it can be picked out next time.`, 'warning');
+        }
+        const kind = serial ? 'Laser' : transport.label;
+        const name = loadDeviceName(key) ?? `${kind} ${sessionsRef.current.length + 1}`;
+
+        const session = new DeviceSession(transport, { id: crypto.randomUUID(), key, name, logMessage });
+        session.on('change', snapshot => setSnapshots(prev => ({ ...prev, [session.id]: snapshot })));
+        session.on('disconnect', cause => {
+            const remaining = sessionsRef.current.filter(other => other !== session);
+            updateSessions(remaining);
+            setSnapshots(prev => {
+                const next = { ...prev };
+                delete next[session.id];
+                return next;
+            });
+            setSelectedId(prev => prev === session.id ? remaining[0]?.id ?? null : prev);
+            optionsRef.current.onDisconnect?.(cause, transport);
+        });
+        optionsRef.current.onCreate?.(session);
+
+        if (!await session.connect()) return false;
+
+        updateSessions([...sessionsRef.current, session]);
+        setSnapshots(prev => ({ ...prev, [session.id]: session.snapshot }));
+        setSelectedId(session.id);
+        return true;
+    }, [logMessage, updateSessions]);
+
+    const selected = sessions.find(session => session.id === selectedId) ?? null;
+    const snapshot = selected ? snapshots[selected.id] ?? selected.snapshot : DISCONNECTED;
+
+    const findSession = useCallback((id: string): DeviceSession | undefined => {
+        return sessionsRef.current.find(session => session.id === id);
+    }, []);
+
+    const rename = useCallback((id: string, name: string): void => {
+        const session = findSession(id);
+        if (!session || !name.trim()) return;
+        session.rename(name.trim());
+        saveDeviceName(session.key, name.trim());
+    }, [findSession]);
+
+    const disconnectSession = useCallback(async (id: string): Promise<void> => {
+        await findSession(id)?.disconnect();
+    }, [findSession]);
+
+    const disconnect = useCallback(async (): Promise<void> => {
+        await selected?.disconnect();
+    }, [selected]);
+
+    const setLaserBrightness = useCallback((brightness: number): void => {
+        selected?.setLocalBrightness(brightness);
+    }, [selected]);
+
+    const setLaser = useCallback(async (on: boolean): Promise<boolean> => {
+        if (!selected) {
+            logMessage('No connection available', 'error');
+            return false;
+        }
+        return selected.setLaser(on);
+    }, [selected, logMessage]);
+
+    const sendBrightness = useCallback(async (brightness: number): Promise<boolean> => {
+        if (!selected) {
+            logMessage('No connection available', 'error');
+            return false;
+        }
+        return selected.sendBrightness(brightness);
+    }, [selected, logMessage]);
+
+    // Group actions; resolve to true when every device confirmed
+    const setLaserAll = useCallback(async (on: boolean): Promise<boolean> => {
+        const results = await Promise.all(sessionsRef.current.map(session => session.setLaser(on)));
+        return results.every(Boolean);
+    }, []);
+
+    const sendBrightnessAll = useCallback(async (brightness: number): Promise<boolean> => {
+        const results = await Promise.all(sessionsRef.current.map(session => {
+            session.setLocalBrightness(brightness);
+            return session.sendBrightness(brightness);
+        }));
+        return results.every(Boolean);
+    }, []);
+
+    return {
+        sessions,
+        snapshots,
+        selectedId,
+        select: setSelectedId,
+        rename,
+        session: selected,
+        device: selected?.device ?? null,
+        isConnected: selected !== null,
+        laserOn: snapshot.laserOn,
+        laserBrightness: snapshot.laserBrightness,
+        setLaserBrightness,
+        brightnessInitialized: snapshot.brightnessInitialized,
+        deviceStats: snapshot.deviceStats,
+        pending: snapshot.pending,
+        parseIssues: snapshot.parseIssues,
+        connect,
+        disconnect,
+        disconnectSession,
+        setLaser,
+        sendBrightness,
+        setLaserAll,
+        sendBrightnessAll
+    };
+}
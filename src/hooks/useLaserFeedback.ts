@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { playStateTone } from '../accessibility/feedback';
+import type { AccessibilitySettings } from '../accessibility/shortcuts';
+
+interface LaserFeedbackState {
+    // Selected device; switching devices is not a state change
+    deviceId: string | null;
+    // The device reported its state at least once
+    synced: boolean;
+    laserOn: boolean;
+    // A switch command is awaiting confirmation
+    pending: boolean;
+}
+
+const FLASH_MS = 700;
+
+// Announces, sounds and flashes laser state changes once the device has
+// confirmed them, so an optimistic switch that gets rolled back stays quiet
+export function useLaserFeedback(
+    { deviceId, synced, laserOn, pending }: LaserFeedbackState,
+    settings: Pick<AccessibilitySettings, 'sound' | 'flash'>,
+    announce: (text: string, urgent?: boolean) => void
+) {
+    const [flash, setFlash] = useState<{ on: boolean; count: number } | null>(null);
+    const confirmedRef = useRef<{ deviceId: string; laserOn: boolean } | null>(null);
+
+    useEffect(() => {
+        if (!deviceId || !synced) {
+            confirmedRef.current = null;
+            return;
+        }
+        if (pending) return;
+
+        const previous = confirmedRef.current;
+        if (previous?.deviceId === deviceId && previous.laserOn === laserOn) return;
+        confirmedRef.current = { deviceId, laserOn };
+
+        // First state of a device: describe it, nothing changed
+        if (previous?.deviceId !== deviceId) {
+            announce(`Laser is ${laserOn ? 'on' : 'off'}`);
+            return;
+        }
+
+        announce(laserOn ? 'Laser on' : 'Laser off', true);
+        if (settings.sound) playStateTone(laserOn);
+        if (settings.flash) setFlash(prev => ({ on: laserOn, count: (prev?.count ?? 0) + 1 }));
+    }, [deviceId, synced, laserOn, pending, settings.sound, settings.flash, announce]);
+
+    useEffect(() => {
+        if (!flash) return;
+        const timer = setTimeout(() => setFlash(null), FLASH_MS);
+        return () => clearTimeout(timer);
+    }, [flash]);
+
+    return flash;
+}
@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import { LinkHealthMonitor, type LinkHealth } from '../device/LinkHealthMonitor';
+import { ReplayTransport } from '../recording/ReplayTransport';
+import type { LogMessage } from '../types/console';
+import { useSessionEffect } from './useSessionEffect';
+
+// Link health of every connected device, keyed by session id. Status
+// changes are logged once, not on every update.
+export function useLinkHealth(sessions: DeviceSession[], logMessage: LogMessage) {
+    const [health, setHealth] = useState<Record<string, LinkHealth>>({});
+
+    useSessionEffect(sessions, session => {
+        // A replay cannot answer pings
+        const replay = session.device.transport instanceof ReplayTransport;
+        const monitor = new LinkHealthMonitor(session.device, replay ? { pingIntervalMs: 0 } : {});
+        let status = monitor.health.status;
+
+        monitor.on('change', next => {
+            setHealth(prev => ({ ...prev, [session.id]: next }));
+            if (next.status === status) return;
+            status = next.status;
+            if (next.status === 'ok') {
+                logMessage('Link healthy again', 'success', session.source);
+            } else {
+                logMessage(`Link ${next.status}: ${next.reasons.join('; ')}`, 'warning', session.source);
+            }
+        });
+
+        return () => {
+            monitor.dispose();
+            setHealth(prev => {
+                const next = { ...prev };
+                delete next[session.id];
+                return next;
+            });
+        };
+    });
+
+    return health;
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    PRESETS_STORAGE_KEY,
+    exportPresets,
+    importPresets,
+    loadPresets,
+    savePresets,
+    type Preset
+} from '../presets/presets';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+
+// Named presets, kept in step with edits made in other tabs
+export function usePresets(logMessage: LogMessage) {
+    const [presets, setPresets] = useState<Preset[]>(loadPresets);
+
+    useEffect(() => {
+        const handleStorage = (event: StorageEvent): void => {
+            if (event.key === PRESETS_STORAGE_KEY) setPresets(loadPresets());
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    const update = useCallback((change: (prev: Preset[]) => Preset[]): void => {
+        setPresets(prev => {
+            const next = change(prev);
+            savePresets(next);
+            return next;
+        });
+    }, []);
+
+    // Adds the preset, or replaces the one with its id
+    const savePreset = useCallback((preset: Preset): void => {
+        update(prev => prev.some(existing => existing.id === preset.id)
+            ? prev.map(existing => existing.id === preset.id ? preset : existing)
+            : [...prev, preset]);
+    }, [update]);
+
+    const deletePreset = useCallback((id: string): void => {
+        update(prev => prev.filter(preset => preset.id !== id));
+    }, [update]);
+
+    const importFile = useCallback(async (file: File): Promise<void> => {
+        try {
+            const imported = importPresets(await file.text());
+            update(prev => {
+                const ids = new Set(imported.map(preset => preset.id));
+                return [...prev.filter(preset => !ids.has(preset.id)), ...imported];
+            });
+            logMessage(`Imported ${imported.length} preset(s) from ${file.name}`, 'success');
+        } catch (error) {
+            logMessage(`Preset import failed: ${(error as Error).message}`, 'error');
+        }
+    }, [update, logMessage]);
+
+    const exportFile = useCallback((): void => {
+        downloadFile(`laser-presets-${fileTimestamp()}.json`, exportPresets(presets));
+    }, [presets]);
+
+    return { presets, savePreset, deletePreset, importFile, exportFile };
+}
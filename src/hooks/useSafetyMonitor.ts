@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import { SafetyMonitor } from '../device/SafetyMonitor';
+import {
+    hashPassword,
+    loadSafetySettings,
+    saveSafetySettings,
+    type SafetyLimits,
+    type SafetySettings
+} from '../device/safetySettings';
+import type { LogMessage } from '../types/console';
+import { useSessionEffect } from './useSessionEffect';
+
+// Attaches a SafetyMonitor to every connected device and manages the stored limits
+export function useSafetyMonitor(sessions: DeviceSession[], logMessage: LogMessage) {
+    const [settings, setSettings] = useState<SafetySettings>(loadSafetySettings);
+    const [alarm, setAlarm] = useState<string | null>(null);
+    const monitorsRef = useRef(new Set<SafetyMonitor>());
+    const limitsRef = useRef<SafetyLimits>(settings.limits);
+
+    useSessionEffect(sessions, session => {
+        const monitor = new SafetyMonitor(session.device, limitsRef.current);
+        monitor.on('enforcement', ({ kind, message }) => {
+            logMessage(message, 'warning', session.source);
+            if (kind === 'watchdog' || kind === 'max_on_time') {
+                setAlarm(`${session.name}: ${message}`);
+            }
+        });
+        monitorsRef.current.add(monitor);
+
+        return () => {
+            monitor.dispose();
+            monitorsRef.current.delete(monitor);
+        };
+    });
+
+    useEffect(() => {
+        limitsRef.current = settings.limits;
+        monitorsRef.current.forEach(monitor => monitor.setLimits(settings.limits));
+    }, [settings.limits]);
+
+    const verifyPassword = useCallback(async (password: string): Promise<boolean> => {
+        if (!settings.passwordHash) return true;
+        return await hashPassword(password) === settings.passwordHash;
+    }, [settings.passwordHash]);
+
+    // `password` undefined keeps the current one, '' removes it
+    const updateSettings = useCallback(async (limits: SafetyLimits, password?: string): Promise<void> => {
+        const passwordHash = password === undefined
+            ? settings.passwordHash
+            : password ? await hashPassword(password) : undefined;
+        const next: SafetySettings = { limits, passwordHash };
+
+        saveSafetySettings(next);
+        setSettings(next);
+        logMessage(
+            `Safety limits changed: max PWM ${limits.maxPwm}%, max on-time ${limits.maxOnTimeSec || 'unlimited'}${limits.maxOnTimeSec ? 's' : ''}, watchdog ${limits.watchdogSec ? `${limits.watchdogSec}s` : 'off'}`,
+            'warning'
+        );
+    }, [settings.passwordHash, logMessage]);
+
+    const dismissAlarm = useCallback((): void => setAlarm(null), []);
+
+    return {
+        limits: settings.limits,
+        hasPassword: !!settings.passwordHash,
+        alarm,
+        dismissAlarm,
+        verifyPassword,
+        updateSettings
+    };
+}
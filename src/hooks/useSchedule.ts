@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Scheduler } from '../presets/Scheduler';
+import {
+    SCHEDULE_STORAGE_KEY,
+    describeScheduleAction,
+    loadSchedule,
+    saveSchedule,
+    upcomingEvents,
+    type ScheduleEntry,
+    type ScheduledEvent
+} from '../presets/schedule';
+import type { Preset } from '../presets/presets';
+import type { LogMessage } from '../types/console';
+
+// Upcoming runs listed in the panel
+const UPCOMING_COUNT = 5;
+// How often the upcoming list moves on
+const REFRESH_INTERVAL = 30000;
+
+// Wall-clock schedule of presets and switch-offs. Only an active tab (the one
+// owning the ports) runs it, so a schedule fires once however many tabs are
+// open. `run` carries out a due entry and returns why it was skipped, if it was.
+export function useSchedule(
+    presets: Preset[],
+    active: boolean,
+    run: (event: ScheduledEvent) => string | undefined,
+    logMessage: LogMessage
+) {
+    const [entries, setEntries] = useState<ScheduleEntry[]>(loadSchedule);
+    const [now, setNow] = useState<Date>(() => new Date());
+    const schedulerRef = useRef(new Scheduler());
+    const runRef = useRef(run);
+    const presetsRef = useRef(presets);
+
+    useEffect(() => {
+        runRef.current = run;
+        presetsRef.current = presets;
+    });
+
+    useEffect(() => {
+        const handleStorage = (event: StorageEvent): void => {
+            if (event.key === SCHEDULE_STORAGE_KEY) setEntries(loadSchedule());
+        };
+        window.addEventListener('storage', handleStorage);
+        const timer = setInterval(() => setNow(new Date()), REFRESH_INTERVAL);
+        return () => {
+            window.removeEventListener('storage', handleStorage);
+            clearInterval(timer);
+        };
+    }, []);
+
+    const update = useCallback((change: (prev: ScheduleEntry[]) => ScheduleEntry[]): void => {
+        setEntries(prev => {
+            const next = change(prev);
+            saveSchedule(next);
+            return next;
+        });
+        setNow(new Date());
+    }, []);
+
+    useEffect(() => {
+        schedulerRef.current.setEntries(entries);
+    }, [entries]);
+
+    useEffect(() => {
+        if (!active) return;
+        const scheduler = schedulerRef.current;
+
+        // One-off entries are done once their time has passed, run or not
+        const finish = ({ entry }: ScheduledEvent): void => {
+            if (entry.repeat === 'once') {
+                update(prev => prev.map(existing => existing.id === entry.id ? { ...existing, enabled: false } : existing));
+            } else {
+                setNow(new Date());
+            }
+        };
+        const describe = (event: ScheduledEvent): string =>
+            `${describeScheduleAction(event.entry.action, presetsRef.current)} at ${event.entry.time}`;
+
+        const cleanup = [
+            scheduler.on('due', event => {
+                const skipped = runRef.current(event);
+                if (skipped) {
+                    logMessage(`Scheduled ${describe(event)} skipped: ${skipped}`, 'warning');
+                } else {
+                    logMessage(`Scheduled ${describe(event)} applied`, 'info');
+                }
+                finish(event);
+            }),
+            scheduler.on('missed', event => {
+                logMessage(`Scheduled ${describe(event)} skipped: the app was asleep or suspended at the time`, 'warning');
+                finish(event);
+            })
+        ];
+        scheduler.start();
+
+        return () => {
+            cleanup.forEach(off => off());
+            scheduler.stop();
+        };
+    }, [active, update, logMessage]);
+
+    // Adds the entry, or replaces the one with its id
+    const saveEntry = useCallback((entry: ScheduleEntry): void => {
+        update(prev => prev.some(existing => existing.id === entry.id)
+            ? prev.map(existing => existing.id === entry.id ? entry : existing)
+            : [...prev, entry]);
+    }, [update]);
+
+    const deleteEntry = useCallback((id: string): void => {
+        update(prev => prev.filter(entry => entry.id !== id));
+    }, [update]);
+
+    const upcoming = useMemo(() => upcomingEvents(entries, now, UPCOMING_COUNT), [entries, now]);
+
+    return { entries, upcoming, active, saveEntry, deleteEntry };
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import { SelfTestRunner, type SelfTestProgress } from '../selftest/SelfTestRunner';
+import {
+    exportSelfTestReport,
+    loadSelfTestOptions,
+    saveSelfTestOptions,
+    selfTestReportHtml,
+    type SelfTestCheck,
+    type SelfTestOptions,
+    type SelfTestReport
+} from '../selftest/selfTest';
+import { CommandError } from '../device/CommandQueue';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+
+// Self-test of the selected device. Started without a device, it connects
+// one first and tests it as soon as it is selected.
+export function useSelfTest(
+    session: DeviceSession | null,
+    maxPwm: number,
+    logMessage: LogMessage,
+    connect: () => Promise<boolean>
+) {
+    const [options, setOptions] = useState<SelfTestOptions>(loadSelfTestOptions);
+    const [running, setRunning] = useState<boolean>(false);
+    const [progress, setProgress] = useState<SelfTestProgress | null>(null);
+    const [checks, setChecks] = useState<SelfTestCheck[]>([]);
+    const [report, setReport] = useState<SelfTestReport | null>(null);
+    const runnerRef = useRef<SelfTestRunner | null>(null);
+    // Set while connecting a device to test
+    const awaitingDeviceRef = useRef<boolean>(false);
+
+    useEffect(() => {
+        if (!session) return;
+
+        const runner = new SelfTestRunner(session.device);
+        runner.on('running', value => {
+            setRunning(value);
+            if (!value) setProgress(null);
+        });
+        runner.on('progress', setProgress);
+        runner.on('check', check => {
+            setChecks(prev => [...prev, check]);
+            if (check.status === 'fail') logMessage(`Self-test: ${check.name} failed: ${check.detail}`, 'error', session.source);
+        });
+        runner.on('finished', finished => {
+            setReport(finished);
+            const failed = finished.checks.filter(check => check.status === 'fail').length;
+            if (!finished.completed) {
+                logMessage('Self-test stopped, laser switched off', 'warning', session.source);
+            } else if (finished.passed) {
+                logMessage(`Self-test passed: ${finished.checks.length} checks`, 'success', session.source);
+            } else {
+                logMessage(`Self-test failed: ${failed} of ${finished.checks.length} checks`, 'error', session.source);
+            }
+        });
+        runner.on('error', error => logMessage(`Self-test error: ${error.message}`, 'error', session.source));
+        runnerRef.current = runner;
+
+        return () => {
+            runner.dispose();
+            runnerRef.current = null;
+            setRunning(false);
+            setProgress(null);
+        };
+    }, [session, logMessage]);
+
+    const start = useCallback(async (target: DeviceSession): Promise<void> => {
+        const runner = runnerRef.current;
+        if (!runner) return;
+
+        const pwmSteps = options.pwmSteps.filter(step => step <= maxPwm);
+        if (pwmSteps.length < options.pwmSteps.length) {
+            logMessage(`Self-test skips brightness steps above the ${maxPwm}% safety limit`, 'warning');
+        }
+        const firmwareVersion = target.snapshot.deviceStats.firmwareVersion;
+
+        logMessage(`Self-test started on ${target.name}`, 'info', target.source);
+        setChecks([]);
+        setReport(null);
+        try {
+            await runner.run(
+                { name: target.name, firmwareVersion: firmwareVersion !== 'Unknown' ? firmwareVersion : undefined },
+                { ...options, pwmSteps }
+            );
+        } catch (error) {
+            // Refusals are logged by the guard that refused
+            if (error instanceof CommandError && error.reason === 'refused') return;
+            logMessage(`Self-test failed to run: ${(error as Error).message}`, 'error');
+        }
+    }, [options, maxPwm, logMessage]);
+
+    // The device connected for the test is selected, and its runner created, by now
+    useEffect(() => {
+        if (session && awaitingDeviceRef.current) {
+            awaitingDeviceRef.current = false;
+            start(session);
+        }
+    }, [session, start]);
+
+    const run = useCallback(async (): Promise<void> => {
+        if (session) {
+            await start(session);
+            return;
+        }
+        awaitingDeviceRef.current = true;
+        if (!await connect()) awaitingDeviceRef.current = false;
+    }, [session, start, connect]);
+
+    const stop = useCallback(() => runnerRef.current?.stop(), []);
+
+    const updateOptions = useCallback((changes: Partial<SelfTestOptions>): void => {
+        setOptions(prev => {
+            const next = { ...prev, ...changes };
+            saveSelfTestOptions(next);
+            return next;
+        });
+    }, []);
+
+    const exportJson = useCallback((): void => {
+        if (report) downloadFile(`self-test-${fileTimestamp()}.json`, exportSelfTestReport(report));
+    }, [report]);
+
+    const exportHtml = useCallback((): void => {
+        if (report) downloadFile(`self-test-${fileTimestamp()}.html`, selfTestReportHtml(report), 'text/html');
+    }, [report]);
+
+    return { options, updateOptions, running, progress, checks, report, run, stop, exportJson, exportHtml };
+}
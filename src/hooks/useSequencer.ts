@@ -0,0 +1,146 @@
+import { useCallback, useRef, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import {
+    SequencePlayer,
+    type PlayerOptions,
+    type PlayerProgress,
+    type PlayerState
+} from '../sequencer/SequencePlayer';
+import { sequencePeak, type Sequence } from '../sequencer/sequence';
+import { exportSequences, importSequences, loadSequences, saveSequences } from '../sequencer/sequenceLibrary';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+import { useSessionEffect } from './useSessionEffect';
+
+// Sequence library plus a SequencePlayer per connected device. A sequence
+// plays on the selected device or, synchronised, on all of them; the first
+// active player drives the shown state and progress. Sequences that go above
+// the safety limit are refused rather than played clipped.
+export function useSequencer(
+    sessions: DeviceSession[],
+    selected: DeviceSession | null,
+    maxPwm: number,
+    logMessage: LogMessage
+) {
+    const [sequences, setSequences] = useState<Sequence[]>(loadSequences);
+    const [playerState, setPlayerState] = useState<PlayerState>('idle');
+    const [progress, setProgress] = useState<PlayerProgress | null>(null);
+    const playersRef = useRef(new Map<DeviceSession, SequencePlayer>());
+    // Players of the current run, lead first
+    const activeRef = useRef<SequencePlayer[]>([]);
+
+    const isLead = (player: SequencePlayer): boolean => activeRef.current[0] === player;
+
+    useSessionEffect(sessions, session => {
+        const player = new SequencePlayer(session.device);
+        player.on('state', state => {
+            if (state === 'idle') {
+                // Hand the display over to the next player still running
+                activeRef.current = activeRef.current.filter(active => active !== player);
+                const next = activeRef.current[0];
+                setPlayerState(next?.currentState ?? 'idle');
+                if (!next) setProgress(null);
+            } else if (isLead(player)) {
+                setPlayerState(state);
+            }
+        });
+        player.on('progress', progress => {
+            if (isLead(player)) setProgress(progress);
+        });
+        player.on('finished', finished => {
+            logMessage(finished ? 'Sequence finished' : 'Sequence stopped', 'info', session.source);
+        });
+        player.on('error', error => logMessage(`Sequence error: ${error.message}`, 'error', session.source));
+        playersRef.current.set(session, player);
+
+        return () => {
+            player.dispose();
+            playersRef.current.delete(session);
+        };
+    });
+
+    const play = useCallback(async (sequence: Sequence, options: Partial<PlayerOptions> = {}, all = false): Promise<void> => {
+        const targets = all ? sessions : selected ? [selected] : [];
+        const players = targets.flatMap(session => playersRef.current.get(session) ?? []);
+        if (players.length === 0) {
+            logMessage('No connection available', 'error');
+            return;
+        }
+        const peak = sequencePeak(sequence);
+        if (peak > maxPwm) {
+            logMessage(`Sequence "${sequence.name}" reaches ${peak}%, above the ${maxPwm}% safety limit; not played`, 'warning');
+            return;
+        }
+
+        logMessage(players.length > 1
+            ? `Playing sequence "${sequence.name}" on ${players.length} devices`
+            : `Playing sequence "${sequence.name}"`, 'info');
+        activeRef.current = players;
+        try {
+            // Switch every laser on first, then start all clocks on the same instant
+            await Promise.all(players.map(player => player.prepare(sequence, options)));
+            const startAt = performance.now();
+            players.forEach(player => player.start(startAt));
+            // A player halted while preparing (e.g. emergency stop) never started
+            activeRef.current = players.filter(player => player.currentState !== 'idle');
+            setPlayerState(activeRef.current[0]?.currentState ?? 'idle');
+        } catch (error) {
+            players.forEach(player => player.stop());
+            activeRef.current = [];
+            logMessage(`Sequence could not start: ${(error as Error).message}`, 'error');
+        }
+    }, [sessions, selected, maxPwm, logMessage]);
+
+    const pause = useCallback(() => activeRef.current.forEach(player => player.pause()), []);
+    const resume = useCallback(() => activeRef.current.forEach(player => player.resume()), []);
+    const stop = useCallback(() => [...activeRef.current].forEach(player => player.stop()), []);
+
+    const updateLibrary = useCallback((update: (prev: Sequence[]) => Sequence[]): void => {
+        setSequences(prev => {
+            const next = update(prev);
+            saveSequences(next);
+            return next;
+        });
+    }, []);
+
+    const saveSequence = useCallback((sequence: Sequence): void => {
+        updateLibrary(prev => prev.some(s => s.id === sequence.id)
+            ? prev.map(s => s.id === sequence.id ? sequence : s)
+            : [...prev, sequence]);
+    }, [updateLibrary]);
+
+    const deleteSequence = useCallback((id: string): void => {
+        updateLibrary(prev => prev.filter(s => s.id !== id));
+    }, [updateLibrary]);
+
+    const importFile = useCallback(async (file: File): Promise<void> => {
+        try {
+            const imported = importSequences(await file.text());
+            updateLibrary(prev => {
+                const ids = new Set(imported.map(s => s.id));
+                return [...prev.filter(s => !ids.has(s.id)), ...imported];
+            });
+            logMessage(`Imported ${imported.length} sequence(s) from ${file.name}`, 'success');
+        } catch (error) {
+            logMessage(`Sequence import failed: ${(error as Error).message}`, 'error');
+        }
+    }, [updateLibrary, logMessage]);
+
+    const exportFile = useCallback((selection: Sequence[]): void => {
+        downloadFile(`laser-sequences-${fileTimestamp()}.json`, exportSequences(selection));
+    }, []);
+
+    return {
+        sequences,
+        playerState,
+        progress,
+        play,
+        pause,
+        resume,
+        stop,
+        saveSequence,
+        deleteSequence,
+        importFile,
+        exportFile
+    };
+}
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { WebSerialTransport } from '../device/WebSerialTransport';
+import { findKnownPorts, isKnownPort, knownProfileId, rememberPort, sameDevice } from '../device/portMemory';
+import { formatPortInfo, formatSerialOptions, serialOptions, type ConnectionProfile } from '../device/connectionProfiles';
+import type { Transport } from '../device/Transport';
+import type { SerialPort, SerialPortInfo } from '../types/serial';
+import type { LogMessage } from '../types/console';
+
+interface SerialConnectionOptions {
+    connectDevice: (transport: Transport) => Promise<boolean>;
+    logMessage: LogMessage;
+    // Reopen previously granted ports; only the tab that owns them does
+    autoConnect: boolean;
+    // Every saved profile, and the one chosen for new connections
+    profiles: ConnectionProfile[];
+    profile: ConnectionProfile;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 8;
+const BASE_RECONNECT_DELAY = 500;
+const MAX_RECONNECT_DELAY = 15000;
+// A tab taking over may find the ports still held by the one that closed
+const AUTO_CONNECT_ATTEMPTS = 3;
+const AUTO_CONNECT_RETRY_DELAY = 1000;
+
+// Exponential backoff: 0.5s, 1s, 2s, 4s ... capped at 15s
+function reconnectDelay(attempt: number): number {
+    return Math.min(MAX_RECONNECT_DELAY, BASE_RECONNECT_DELAY * 2 ** (attempt - 1));
+}
+
+// Web Serial connection flow for any number of ports: port picker, silent
+// reopening of previously granted ports and reconnection with backoff after
+// a link drops. Known ports are reopened with the profile they last used.
+export function useSerialConnection({ connectDevice, logMessage, autoConnect, profiles, profile }: SerialConnectionOptions) {
+    const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null);
+
+    // Read when a port opens, so changing profiles does not restart auto-connect
+    const profilesRef = useRef({ profiles, profile });
+    useEffect(() => {
+        profilesRef.current = { profiles, profile };
+    });
+
+    // Ports with an open link, or one being opened
+    const openPortsRef = useRef<Set<SerialPort>>(new Set());
+    // USB identities of links that dropped unexpectedly and should come back
+    const droppedRef = useRef<SerialPortInfo[]>([]);
+    const attemptRef = useRef<number>(0);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const cancelReconnect = useCallback((): void => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = null;
+        attemptRef.current = 0;
+        setReconnectAttempt(null);
+    }, []);
+
+    // Opens with `chosen`, or else the profile the port last used
+    const openPort = useCallback(async (port: SerialPort, chosen?: ConnectionProfile): Promise<boolean> => {
+        if (openPortsRef.current.has(port)) return false;
+
+        const info = port.getInfo();
+        const lastUsed = knownProfileId(info);
+        const profile = chosen
+            ?? profilesRef.current.profiles.find(candidate => candidate.id === lastUsed)
+            ?? profilesRef.current.profile;
+        const options = serialOptions(profile);
+        logMessage(`Opening ${formatPortInfo(info)} with the ${profile.name} profile (${formatSerialOptions(options)})`, 'info');
+
+        openPortsRef.current.add(port);
+        const connected = await connectDevice(new WebSerialTransport(port, options, profile.lineEnding));
+        if (connected) {
+            rememberPort(info, profile.id);
+        } else {
+            openPortsRef.current.delete(port);
+        }
+        return connected;
+    }, [connectDevice, logMessage]);
+
+    // Opens every granted port that matches a remembered device
+    const openKnownPorts = useCallback(async (): Promise<number> => {
+        if (!navigator.serial) return 0;
+        let opened = 0;
+        for (const port of findKnownPorts(await navigator.serial.getPorts())) {
+            if (await openPort(port)) opened++;
+        }
+        return opened;
+    }, [openPort]);
+
+    // Reopens a granted port for every dropped link; true once none is missing
+    const reopenDropped = useCallback(async (): Promise<boolean> => {
+        if (!navigator.serial) return false;
+        const ports = await navigator.serial.getPorts();
+
+        for (const info of [...droppedRef.current]) {
+            const port = ports.find(candidate =>
+                !openPortsRef.current.has(candidate) && sameDevice(candidate.getInfo(), info));
+            if (port && await openPort(port)) {
+                droppedRef.current = droppedRef.current.filter(dropped => dropped !== info);
+            }
+        }
+        return droppedRef.current.length === 0;
+    }, [openPort]);
+
+    const attemptReconnect = useCallback(async (): Promise<void> => {
+        timerRef.current = null;
+        if (droppedRef.current.length === 0) return;
+
+        const attempt = attemptRef.current + 1;
+        attemptRef.current = attempt;
+        setReconnectAttempt(attempt);
+        logMessage(`Reconnecting (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})...`, 'warning');
+
+        if (await reopenDropped()) {
+            logMessage('Connection restored', 'success');
+            cancelReconnect();
+            return;
+        }
+
+        if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+            logMessage('Giving up on reconnection; plug the device back in or connect manually', 'error');
+            droppedRef.current = [];
+            cancelReconnect();
+            return;
+        }
+
+        timerRef.current = setTimeout(attemptReconnect, reconnectDelay(attempt));
+    }, [logMessage, reopenDropped, cancelReconnect]);
+
+    // Hooked into useLaserDevice: a dropped serial link starts the retry loop
+    const handleDisconnect = useCallback((cause: Error | undefined, transport: Transport): void => {
+        if (!(transport instanceof WebSerialTransport)) return;
+        openPortsRef.current.delete(transport.port);
+        if (!cause) return;
+
+        droppedRef.current = [...droppedRef.current, transport.port.getInfo()];
+        if (timerRef.current) return;
+
+        attemptRef.current = 0;
+        timerRef.current = setTimeout(attemptReconnect, reconnectDelay(1));
+    }, [attemptReconnect]);
+
+    // Prompts the user to pick a port; true once a device is connected on it
+    const requestConnection = useCallback(async (): Promise<boolean> => {
+        try {
+            if (!navigator.serial) {
+                logMessage('Web Serial API not supported. Please use Chrome 89+ or Edge 89+', 'error');
+                return false;
+            }
+
+            logMessage('Requesting serial port access...', 'warning');
+
+            // The picker only lists ports matching the profile's USB ids, if it has any
+            const { profile: chosen } = profilesRef.current;
+            const selectedPort = await navigator.serial.requestPort(
+                chosen.filters.length > 0 ? { filters: chosen.filters } : undefined
+            );
+            if (openPortsRef.current.has(selectedPort)) {
+                logMessage('That port is already connected', 'warning');
+                return false;
+            }
+            return await openPort(selectedPort, chosen);
+        } catch (error) {
+            logMessage(`Connection failed: ${(error as Error).message}`, 'error');
+            return false;
+        }
+    }, [logMessage, openPort]);
+
+    // Forget dropped links and stop retrying
+    const stopAutoReconnect = useCallback((): void => {
+        droppedRef.current = [];
+        cancelReconnect();
+    }, [cancelReconnect]);
+
+    // Silently reopen previously granted ports on load, or once this tab
+    // becomes the owner
+    useEffect(() => {
+        if (!autoConnect || !navigator.serial) return;
+        const serial = navigator.serial;
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const attempt = async (remaining: number): Promise<void> => {
+            const opened = await openKnownPorts();
+            if (cancelled) return;
+            if (opened > 0) {
+                logMessage(`Reconnected to ${opened === 1 ? 'previously used device' : `${opened} previously used devices`}`, 'success');
+                return;
+            }
+            // Known ports that did not open may still be closing elsewhere
+            const known = findKnownPorts(await serial.getPorts());
+            if (remaining > 1 && known.some(port => !openPortsRef.current.has(port))) {
+                timer = setTimeout(() => attempt(remaining - 1).catch(error => console.error('Auto-connect failed:', error)), AUTO_CONNECT_RETRY_DELAY);
+            }
+        };
+        attempt(AUTO_CONNECT_ATTEMPTS).catch(error => console.error('Auto-connect failed:', error));
+
+        return () => {
+            cancelled = true;
+            if (timer) clearTimeout(timer);
+        };
+    }, [autoConnect, openKnownPorts, logMessage]);
+
+    // React to a device being plugged in or removed
+    useEffect(() => {
+        const serial = navigator.serial;
+        if (!serial) return;
+
+        const handleConnect = (event: Event): void => {
+            const port = event.target as SerialPort;
+            const info = port.getInfo();
+            if (!droppedRef.current.some(dropped => sameDevice(dropped, info))) return;
+
+            logMessage('Known laser device plugged in, reconnecting...', 'info');
+            reopenDropped()
+                .then(restored => {
+                    if (restored) cancelReconnect();
+                })
+                .catch(error => logMessage(`Reconnection failed: ${(error as Error).message}`, 'error'));
+        };
+
+        const handleUnplug = (event: Event): void => {
+            if (isKnownPort(event.target as SerialPort)) {
+                logMessage('Laser device unplugged', 'warning');
+            }
+        };
+
+        serial.addEventListener('connect', handleConnect);
+        serial.addEventListener('disconnect', handleUnplug);
+        return () => {
+            serial.removeEventListener('connect', handleConnect);
+            serial.removeEventListener('disconnect', handleUnplug);
+        };
+    }, [logMessage, reopenDropped, cancelReconnect]);
+
+    // Clear pending retries on unmount
+    useEffect(() => () => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+    }, []);
+
+    return {
+        reconnectAttempt,
+        requestConnection,
+        stopAutoReconnect,
+        handleDisconnect
+    };
+}
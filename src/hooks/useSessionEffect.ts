@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+
+// Runs `attach` once for each session as it appears and the returned cleanup
+// when it goes away (or on unmount), leaving the other sessions untouched
+export function useSessionEffect(sessions: DeviceSession[], attach: (session: DeviceSession) => () => void): void {
+    const attachRef = useRef(attach);
+    useEffect(() => {
+        attachRef.current = attach;
+    });
+
+    const cleanupsRef = useRef(new Map<DeviceSession, () => void>());
+
+    useEffect(() => {
+        const cleanups = cleanupsRef.current;
+        for (const session of sessions) {
+            if (!cleanups.has(session)) {
+                cleanups.set(session, attachRef.current(session));
+            }
+        }
+        for (const [session, cleanup] of cleanups) {
+            if (!sessions.includes(session)) {
+                cleanup();
+                cleanups.delete(session);
+            }
+        }
+    }, [sessions]);
+
+    useEffect(() => {
+        const cleanups = cleanupsRef.current;
+        return () => {
+            cleanups.forEach(cleanup => cleanup());
+            cleanups.clear();
+        };
+    }, []);
+}
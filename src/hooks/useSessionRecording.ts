@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import { SessionRecorder } from '../recording/SessionRecorder';
+import { ReplayTransport } from '../recording/ReplayTransport';
+import { parseSession, toCsv, toJsonl } from '../recording/session';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+
+export interface ReplayProgress {
+    index: number;
+    total: number;
+}
+
+// Records every session for export, and turns recordings back into a transport
+export function useSessionRecording(logMessage: LogMessage) {
+    const [recorder] = useState(() => new SessionRecorder());
+    const [entryCount, setEntryCount] = useState<number>(0);
+    const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(null);
+
+    useEffect(() => recorder.on('change', setEntryCount), [recorder]);
+
+    // Replays are not recorded again
+    const attach = useCallback((session: DeviceSession): void => {
+        if (!(session.device.transport instanceof ReplayTransport)) {
+            recorder.attach(session.device, session.name);
+        }
+    }, [recorder]);
+
+    const exportJsonl = useCallback((): void => {
+        downloadFile(`laser-session-${fileTimestamp()}.jsonl`, toJsonl(recorder.entries, recorder.transportLabel), 'application/x-ndjson');
+    }, [recorder]);
+
+    const exportCsv = useCallback((): void => {
+        downloadFile(`laser-session-${fileTimestamp()}.csv`, toCsv(recorder.entries), 'text/csv');
+    }, [recorder]);
+
+    const clear = useCallback((): void => {
+        recorder.clear();
+        logMessage('Session recording cleared', 'info');
+    }, [recorder, logMessage]);
+
+    // Resolves to null (after logging why) when the file cannot be replayed
+    const loadReplay = useCallback(async (file: File, speed: number): Promise<ReplayTransport | null> => {
+        try {
+            let entries = parseSession(await file.text());
+            // A transport stands for one device; replay the first one recorded
+            const devices = [...new Set(entries.map(entry => entry.device))];
+            if (devices.length > 1) {
+                entries = entries.filter(entry => entry.device === devices[0]);
+                logMessage(`Recording holds ${devices.length} devices; replaying only "${devices[0] ?? 'unnamed'}"`, 'warning');
+            }
+            const transport = new ReplayTransport(entries, speed);
+            transport.on('recorded_command', command => logMessage(`Sent (recorded): ${command}`, 'warning', undefined, { direction: 'sent' }));
+            transport.on('progress', setReplayProgress);
+            transport.on('close', () => {
+                setReplayProgress(null);
+                logMessage('Replay finished', 'info');
+            });
+            logMessage(`Replaying ${entries.length} recorded lines from ${file.name} at ${speed}×`, 'info');
+            return transport;
+        } catch (error) {
+            logMessage(`Cannot replay ${file.name}: ${(error as Error).message}`, 'error');
+            return null;
+        }
+    }, [logMessage]);
+
+    return {
+        entryCount,
+        dropped: recorder.dropped,
+        replayProgress,
+        attach,
+        exportJsonl,
+        exportCsv,
+        clear,
+        loadReplay
+    };
+}
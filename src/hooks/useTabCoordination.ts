@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DeviceSession, DeviceSnapshot } from '../device/DeviceSession';
+import type { ConsoleLog } from '../console/ConsoleLog';
+import { TabCoordinator, type TabRole } from '../tabs/TabCoordinator';
+import type { MirrorState, RemoteCommand, TabMessage } from '../tabs/messages';
+import type { ConsoleEntry, LogMessage } from '../types/console';
+
+interface TabCoordinationOptions {
+    sessions: DeviceSession[];
+    snapshots: Record<string, DeviceSnapshot>;
+    selectedId: string | null;
+    stopped: boolean;
+    consoleLog: ConsoleLog;
+    logMessage: LogMessage;
+    // Owner only: a follower asked for an action
+    onCommand: (command: RemoteCommand) => void;
+    // Owner only: close every port so another tab can open them
+    onHandOver: () => Promise<void>;
+}
+
+// Console lines a new follower gets to start with
+const HISTORY_ENTRIES = 500;
+const CONSOLE_BATCH_MS = 100;
+
+// Keeps one tab in charge of the serial ports. The owner publishes its state
+// and console; followers mirror them, forward actions to the owner and can
+// ask to take over.
+export function useTabCoordination({
+    sessions,
+    snapshots,
+    selectedId,
+    stopped,
+    consoleLog,
+    logMessage,
+    onCommand,
+    onHandOver
+}: TabCoordinationOptions) {
+    const [role, setRole] = useState<TabRole>('pending');
+    const [mirror, setMirror] = useState<MirrorState | null>(null);
+    const coordinatorRef = useRef<TabCoordinator | null>(null);
+
+    const callbacksRef = useRef({ onCommand, onHandOver });
+    useEffect(() => {
+        callbacksRef.current = { onCommand, onHandOver };
+    });
+
+    const stateRef = useRef<MirrorState>({ devices: [], selectedId: null, stopped: false });
+    useEffect(() => {
+        stateRef.current = {
+            devices: sessions.map(session => ({ id: session.id, key: session.key, snapshot: snapshots[session.id] ?? session.snapshot })),
+            selectedId,
+            stopped
+        };
+        if (coordinatorRef.current?.role === 'owner') {
+            coordinatorRef.current.post({ kind: 'state', state: stateRef.current });
+        }
+    }, [sessions, snapshots, selectedId, stopped]);
+
+    useEffect(() => {
+        const coordinator = new TabCoordinator();
+        coordinatorRef.current = coordinator;
+
+        const handleMessage = (message: TabMessage): void => {
+            if (coordinator.role === 'owner') {
+                switch (message.kind) {
+                    case 'hello':
+                        coordinator.post({ kind: 'state', state: stateRef.current }, message.from);
+                        coordinator.post({ kind: 'console', entries: consoleLog.entries.slice(-HISTORY_ENTRIES) }, message.from);
+                        break;
+                    case 'command':
+                        callbacksRef.current.onCommand(message.command);
+                        break;
+                    case 'handover_request':
+                        logMessage('Another tab asked for control; closing the serial ports', 'warning');
+                        callbacksRef.current.onHandOver()
+                            .catch(error => console.error('Handover failed:', error))
+                            .finally(() => coordinator.handOver(message.from));
+                        break;
+                }
+                return;
+            }
+
+            switch (message.kind) {
+                case 'state':
+                    setMirror(message.state);
+                    break;
+                case 'console':
+                    consoleLog.appendEntries(message.entries);
+                    break;
+                case 'handover':
+                    coordinator.takeOver();
+                    break;
+            }
+        };
+
+        const unsubscribers = [
+            coordinator.on('message', handleMessage),
+            coordinator.on('role', next => {
+                setRole(next);
+                if (next === 'owner') {
+                    setMirror(null);
+                    coordinator.post({ kind: 'state', state: stateRef.current });
+                } else if (next === 'follower') {
+                    logMessage('The laser is controlled from another tab; showing its state here', 'info');
+                    coordinator.post({ kind: 'hello' });
+                }
+            })
+        ];
+        coordinator.start();
+
+        return () => {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+            coordinator.dispose();
+            coordinatorRef.current = null;
+        };
+    }, [consoleLog, logMessage]);
+
+    // The owner's console lines go out in batches
+    useEffect(() => {
+        const coordinator = coordinatorRef.current;
+        if (!coordinator || role !== 'owner') return;
+        let batch: ConsoleEntry[] = [];
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const unsubscribe = consoleLog.on('entry', entry => {
+            batch.push(entry);
+            timer ??= setTimeout(() => {
+                coordinator.post({ kind: 'console', entries: batch });
+                batch = [];
+                timer = null;
+            }, CONSOLE_BATCH_MS);
+        });
+        return () => {
+            unsubscribe();
+            if (timer) clearTimeout(timer);
+        };
+    }, [role, consoleLog]);
+
+    // Passes an action to the owner; false when this tab is the owner itself
+    const forward = useCallback((command: RemoteCommand): boolean => {
+        const coordinator = coordinatorRef.current;
+        if (!coordinator || coordinator.role !== 'follower') return false;
+        coordinator.post({ kind: 'command', command });
+        return true;
+    }, []);
+
+    const requestControl = useCallback((): void => {
+        if (coordinatorRef.current?.role !== 'follower') return;
+        logMessage('Asking the controlling tab to hand over the serial ports...', 'info');
+        coordinatorRef.current.post({ kind: 'handover_request' });
+    }, [logMessage]);
+
+    const follower = role === 'follower';
+    return {
+        role,
+        // The owner's state while this tab follows
+        mirror: follower ? mirror : null,
+        forward,
+        requestControl
+    };
+}
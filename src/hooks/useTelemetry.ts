@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import { TelemetryStore, type RebootEvent, type TelemetrySample } from '../telemetry/TelemetryStore';
+import type { LogMessage } from '../types/console';
+import { useSessionEffect } from './useSessionEffect';
+
+function formatUptimeMs(ms: number): string {
+    return `${(ms / 1000).toFixed(0)}s`;
+}
+
+// Session-long telemetry history per device; alerts go to the console. The
+// charts follow the selected device and keep showing it after it disconnects.
+export function useTelemetry(sessions: DeviceSession[], selected: DeviceSession | null, logMessage: LogMessage) {
+    // Keyed by device identity so history carries over reconnects
+    const storesRef = useRef(new Map<string, TelemetryStore>());
+    const [shownKey, setShownKey] = useState<string | null>(null);
+    const [samples, setSamples] = useState<readonly TelemetrySample[]>([]);
+    const [lastReboot, setLastReboot] = useState<RebootEvent | null>(null);
+
+    if (selected && selected.key !== shownKey) {
+        setShownKey(selected.key);
+    }
+
+    useSessionEffect(sessions, session => {
+        let store = storesRef.current.get(session.key);
+        if (!store) {
+            store = new TelemetryStore();
+            storesRef.current.set(session.key, store);
+        }
+
+        const unsubscribers = [
+            store.attach(session.device),
+            store.on('reboot', event => {
+                logMessage(
+                    `Device reboot detected: uptime went back from ${formatUptimeMs(event.previousUptimeMs)} to ${formatUptimeMs(event.uptimeMs)}`,
+                    'warning',
+                    session.source
+                );
+            }),
+            store.on('heap_decline', event => {
+                logMessage(
+                    `Free heap is declining steadily: ${Math.round(event.bytesPerMinute)} bytes/min over the last ${event.windowMs / 60000} min (possible memory leak)`,
+                    'warning',
+                    session.source
+                );
+            }),
+            store.on('heap_recovered', () => logMessage('Free heap has stopped declining', 'info', session.source))
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    });
+
+    // Mirror the shown store into React state
+    useEffect(() => {
+        const store = shownKey ? storesRef.current.get(shownKey) : undefined;
+        setSamples(store ? store.samples.slice() : []);
+        setLastReboot(store?.lastReboot ?? null);
+        if (!store) return;
+
+        const unsubscribers = [
+            store.on('sample', () => setSamples(store.samples.slice())),
+            store.on('reboot', setLastReboot)
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [shownKey, sessions]);
+
+    const clear = useCallback((): void => {
+        if (!shownKey) return;
+        storesRef.current.get(shownKey)?.clear();
+        setSamples([]);
+        setLastReboot(null);
+    }, [shownKey]);
+
+    return { samples, lastReboot, clear };
+}
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { DeviceSession } from '../device/DeviceSession';
+import { ReplayTransport } from '../recording/ReplayTransport';
+import { UsageDb } from '../usage/usageDb';
+import { UsageTracker } from '../usage/UsageTracker';
+import {
+    formatHours,
+    lastService,
+    loadServiceInterval,
+    saveServiceInterval,
+    summarizeUsage,
+    usageToCsv,
+    type UsageEvent,
+    type UsageRange
+} from '../usage/usage';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import type { LogMessage } from '../types/console';
+import { useSessionEffect } from './useSessionEffect';
+
+const HOUR = 3600000;
+
+// Persists the laser usage of every connected device to IndexedDB and exposes
+// the ledger of the selected one (kept after it disconnects, like telemetry)
+export function useUsageLedger(sessions: DeviceSession[], selected: DeviceSession | null, logMessage: LogMessage) {
+    const dbRef = useRef<Promise<UsageDb | null> | null>(null);
+    const [available, setAvailable] = useState<boolean>(true);
+    const [shownKey, setShownKey] = useState<string | null>(null);
+    const shownKeyRef = useRef<string | null>(null);
+    const [events, setEvents] = useState<UsageEvent[]>([]);
+    const [serviceIntervalHours, setServiceIntervalHours] = useState<number>(loadServiceInterval);
+
+    if (selected && selected.key !== shownKey) {
+        setShownKey(selected.key);
+    }
+
+    useEffect(() => {
+        const opened = UsageDb.open().catch(error => {
+            logMessage(`Usage ledger unavailable: ${(error as Error).message}`, 'warning');
+            setAvailable(false);
+            return null;
+        });
+        dbRef.current = opened;
+        return () => {
+            opened.then(db => db?.close());
+            dbRef.current = null;
+        };
+    }, [logMessage]);
+
+    const persist = useCallback((event: UsageEvent): void => {
+        dbRef.current?.then(db => db?.add(event))
+            .then(id => {
+                if (id === undefined || event.device !== shownKeyRef.current) return;
+                setEvents(prev => [...prev, { ...event, id }]);
+            })
+            .catch(error => console.error('Failed to record laser usage:', error));
+    }, []);
+
+    useSessionEffect(sessions, session => {
+        // A replay is not real usage
+        if (session.device.transport instanceof ReplayTransport) return () => undefined;
+
+        // A page that closed while the laser was on left its last span open;
+        // end it at the last entry rather than stretching it to now
+        dbRef.current?.then(db => db?.events(session.key))
+            .then(stored => {
+                const last = stored?.at(-1);
+                if (last?.laserOn) {
+                    persist({ device: last.device, time: last.time, kind: 'off', laserOn: false, brightness: last.brightness, source: 'tracker' });
+                }
+            })
+            .catch(error => console.error('Failed to read laser usage:', error));
+
+        const tracker = new UsageTracker(session.device, session.key);
+        tracker.on('record', persist);
+        return () => tracker.dispose();
+    });
+
+    // Load the ledger of the shown device
+    useEffect(() => {
+        shownKeyRef.current = shownKey;
+        setEvents([]);
+        if (!shownKey) return;
+
+        let cancelled = false;
+        dbRef.current?.then(db => db?.events(shownKey))
+            .then(stored => {
+                if (!cancelled && stored) setEvents(stored);
+            })
+            .catch(error => logMessage(`Could not load usage history: ${(error as Error).message}`, 'error'));
+        return () => {
+            cancelled = true;
+        };
+    }, [shownKey, logMessage]);
+
+    // On-time since the last service (or ever), for the service warning
+    const serviceDueAt = useMemo(() => lastService(events), [events]);
+    const sinceServiceMs = summarizeUsage(events, { from: serviceDueAt }, selected?.snapshot.laserOn ? Date.now() : undefined).onMs;
+    const serviceOverdue = shownKey !== null && sinceServiceMs >= serviceIntervalHours * HOUR;
+
+    // Warn once per device and interval, not on every update
+    const warnedRef = useRef<string | null>(null);
+    useEffect(() => {
+        const warning = `${shownKey}:${serviceIntervalHours}`;
+        if (!serviceOverdue || warnedRef.current === warning) return;
+        warnedRef.current = warning;
+        logMessage(`Laser diode service due: ${formatHours(sinceServiceMs)} on since the last service (interval ${serviceIntervalHours} h)`, 'warning');
+    }, [serviceOverdue, sinceServiceMs, shownKey, serviceIntervalHours, logMessage]);
+
+    const updateServiceInterval = useCallback((hours: number): void => {
+        if (!(hours > 0)) return;
+        setServiceIntervalHours(hours);
+        saveServiceInterval(hours);
+    }, []);
+
+    const markServiced = useCallback((): void => {
+        const last = events.at(-1);
+        if (!shownKey) return;
+        persist({
+            device: shownKey,
+            time: Date.now(),
+            kind: 'service',
+            laserOn: last?.laserOn ?? false,
+            brightness: last?.brightness ?? 0,
+            source: 'user'
+        });
+        logMessage('Laser diode service recorded', 'success');
+    }, [events, shownKey, persist, logMessage]);
+
+    const exportCsv = useCallback((range: UsageRange): void => {
+        const selection = events.filter(event =>
+            (range.from === undefined || event.time >= range.from) && (range.to === undefined || event.time <= range.to));
+        downloadFile(`laser-usage-${fileTimestamp()}.csv`, usageToCsv(selection), 'text/csv');
+    }, [events]);
+
+    return {
+        available,
+        device: shownKey,
+        events,
+        sinceServiceMs,
+        serviceOverdue,
+        serviceIntervalHours,
+        setServiceIntervalHours: updateServiceInterval,
+        markServiced,
+        exportCsv
+    };
+}
@@ -0,0 +1,95 @@
+import { Emitter } from '../device/Emitter';
+import type { InputEvent } from './inputMapping';
+
+export interface GamepadInputEvents {
+    input: InputEvent;
+    // Ids of the connected gamepads, on every connect or disconnect
+    devices: string[];
+}
+
+// The readings of one gamepad that input events are made of
+export interface GamepadState {
+    id: string;
+    axes: readonly number[];
+    buttons: readonly number[];
+}
+
+// Axis changes smaller than this are sensor noise
+const AXIS_DEADBAND = 0.01;
+
+// Input events for what changed since the readings last reported. Axes are
+// mapped from -1..1 to 0..1. The first poll of a pad only records where it rests.
+export function diffGamepad(previous: GamepadState | undefined, current: GamepadState): InputEvent[] {
+    if (!previous) return [];
+    const events: InputEvent[] = [];
+    current.axes.forEach((axis, index) => {
+        const before = previous.axes[index];
+        if (before === undefined || Math.abs(axis - before) >= AXIS_DEADBAND) {
+            events.push({ source: { kind: 'gamepad_axis', device: current.id, control: index }, value: (axis + 1) / 2 });
+        }
+    });
+    current.buttons.forEach((button, index) => {
+        if (button !== previous.buttons[index]) {
+            events.push({ source: { kind: 'gamepad_button', device: current.id, control: index }, value: button });
+        }
+    });
+    return events;
+}
+
+function readGamepad(gamepad: Gamepad): GamepadState {
+    return { id: gamepad.id, axes: [...gamepad.axes], buttons: gamepad.buttons.map(button => button.value) };
+}
+
+// Polls the Gamepad API once a frame while started; browsers only expose a
+// pad after a button on it has been pressed.
+export class GamepadInput extends Emitter<GamepadInputEvents> {
+    private frame: number | null = null;
+    private states = new Map<number, GamepadState>();
+
+    static get isSupported(): boolean {
+        return typeof navigator !== 'undefined' && 'getGamepads' in navigator;
+    }
+
+    start(): void {
+        if (this.frame !== null || !GamepadInput.isSupported) return;
+        const poll = (): void => {
+            this.poll();
+            this.frame = requestAnimationFrame(poll);
+        };
+        this.frame = requestAnimationFrame(poll);
+    }
+
+    stop(): void {
+        if (this.frame !== null) cancelAnimationFrame(this.frame);
+        this.frame = null;
+        this.states.clear();
+    }
+
+    private poll(): void {
+        const seen = new Set<number>();
+        let changed = false;
+        for (const gamepad of navigator.getGamepads()) {
+            if (!gamepad?.connected) continue;
+            seen.add(gamepad.index);
+            const previous = this.states.get(gamepad.index);
+            const current = readGamepad(gamepad);
+            if (!previous) changed = true;
+            const events = diffGamepad(previous, current);
+            for (const event of events) this.emit('input', event);
+            // Axes inside the deadband keep their reported reading, so a
+            // slow turn still adds up to a change
+            const moved = new Set(events.filter(e => e.source.kind === 'gamepad_axis').map(e => e.source.control));
+            this.states.set(gamepad.index, {
+                ...current,
+                axes: current.axes.map((axis, index) => !previous || moved.has(index) ? axis : previous.axes[index])
+            });
+        }
+        for (const index of this.states.keys()) {
+            if (!seen.has(index)) {
+                this.states.delete(index);
+                changed = true;
+            }
+        }
+        if (changed) this.emit('devices', [...this.states.values()].map(state => state.id));
+    }
+}
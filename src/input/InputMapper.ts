@@ -0,0 +1,102 @@
+import { allowsMomentary, brightnessFor, sourceKey, type InputEvent, type InputMapping, type InputSource, type MappingAction } from './inputMapping';
+
+// What a mapped input asks the controller to do
+export type MappedAction =
+    | { kind: 'brightness'; level: number }
+    | { kind: 'toggle' }
+    | { kind: 'preset'; preset: number }
+    | { kind: 'emergency_stop' };
+
+// Buttons, keys and pedals count as pressed from half travel
+const PRESS_THRESHOLD = 0.5;
+
+// Turns input events into controller actions. Momentary actions fire once on
+// the press edge; brightness only when the level it maps to changes, so a
+// jittery stick does not flood the debounced send. Holds no timers or devices,
+// so it can be driven with synthetic events.
+export class InputMapper {
+    private mappings = new Map<string, InputMapping[]>();
+    private pressed = new Map<string, boolean>();
+    private levels = new Map<string, number>();
+
+    constructor(mappings: InputMapping[] = []) {
+        this.setMappings(mappings);
+    }
+
+    setMappings(mappings: InputMapping[]): void {
+        this.mappings.clear();
+        for (const mapping of mappings) {
+            const key = sourceKey(mapping.source);
+            this.mappings.set(key, [...this.mappings.get(key) ?? [], mapping]);
+        }
+        // Forget levels of mappings that were changed or removed
+        const ids = new Set(mappings.map(mapping => mapping.id));
+        for (const id of this.levels.keys()) {
+            if (!ids.has(id)) this.levels.delete(id);
+        }
+    }
+
+    handle(event: InputEvent): MappedAction[] {
+        const key = sourceKey(event.source);
+        const wasPressed = this.pressed.get(key) ?? false;
+        const isPressed = event.value >= PRESS_THRESHOLD;
+        this.pressed.set(key, isPressed);
+
+        const actions: MappedAction[] = [];
+        for (const mapping of this.mappings.get(key) ?? []) {
+            const action = this.actionFor(mapping, event.value, isPressed && !wasPressed);
+            if (action) actions.push(action);
+        }
+        return actions;
+    }
+
+    private actionFor(mapping: InputMapping, value: number, pressedNow: boolean): MappedAction | null {
+        const { action } = mapping;
+        if (action.kind === 'brightness') {
+            const level = brightnessFor(value, action);
+            if (this.levels.get(mapping.id) === level) return null;
+            this.levels.set(mapping.id, level);
+            return { kind: 'brightness', level };
+        }
+        return pressedNow && allowsMomentary(mapping.source) ? momentary(action) : null;
+    }
+}
+
+function momentary(action: Exclude<MappingAction, { kind: 'brightness' }>): MappedAction {
+    return action.kind === 'preset' ? { kind: 'preset', preset: action.preset } : { kind: action.kind };
+}
+
+// How far a knob or stick must move before learn mode takes it
+const LEARN_MOVEMENT = 0.2;
+
+// Learn mode: picks the first control the user deliberately operates. Notes
+// and buttons are taken when pressed and MIDI knobs on any message, since
+// MIDI only reports movement. Gamepad axes must move well away from where
+// they were first seen, so a drifting stick is not grabbed by accident.
+export class InputLearner {
+    private baselines = new Map<string, number>();
+
+    feed(event: InputEvent): InputSource | null {
+        const { source, value } = event;
+        switch (source.kind) {
+            case 'midi_cc':
+                return source;
+            case 'midi_note':
+            case 'gamepad_button':
+                return value >= PRESS_THRESHOLD ? source : null;
+            case 'gamepad_axis': {
+                const key = sourceKey(source);
+                const baseline = this.baselines.get(key);
+                if (baseline === undefined) {
+                    this.baselines.set(key, value);
+                    return null;
+                }
+                return Math.abs(value - baseline) >= LEARN_MOVEMENT ? source : null;
+            }
+        }
+    }
+
+    reset(): void {
+        this.baselines.clear();
+    }
+}
@@ -0,0 +1,73 @@
+import { Emitter } from '../device/Emitter';
+import type { InputEvent } from './inputMapping';
+
+export interface MidiInputEvents {
+    input: InputEvent;
+    // Names of the connected MIDI inputs, on every plug or unplug
+    devices: string[];
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+
+// Note and control change messages as input events; clock, sysex and the
+// rest are ignored. A note on with velocity 0 is a note off.
+export function parseMidiMessage(data: ArrayLike<number>, device: string): InputEvent | null {
+    if (data.length < 3) return null;
+    const type = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    const control = data[1];
+    switch (type) {
+        case CONTROL_CHANGE:
+            return { source: { kind: 'midi_cc', device, channel, control }, value: data[2] / 127 };
+        case NOTE_ON:
+        case NOTE_OFF:
+            return {
+                source: { kind: 'midi_note', device, channel, control },
+                value: type === NOTE_ON && data[2] > 0 ? 1 : 0
+            };
+        default:
+            return null;
+    }
+}
+
+// Listens to every connected MIDI input through Web MIDI, including ones
+// plugged in later. start() asks for permission, so call it from a click.
+export class MidiInput extends Emitter<MidiInputEvents> {
+    private access: MIDIAccess | null = null;
+
+    static get isSupported(): boolean {
+        return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+    }
+
+    async start(): Promise<void> {
+        if (this.access) return;
+        this.access = await navigator.requestMIDIAccess();
+        this.access.onstatechange = () => this.attach();
+        this.attach();
+    }
+
+    stop(): void {
+        if (!this.access) return;
+        this.access.onstatechange = null;
+        this.access.inputs.forEach(input => {
+            input.onmidimessage = null;
+        });
+        this.access = null;
+    }
+
+    private attach(): void {
+        if (!this.access) return;
+        const names: string[] = [];
+        this.access.inputs.forEach(input => {
+            const name = input.name ?? input.id;
+            names.push(name);
+            input.onmidimessage = event => {
+                const parsed = event.data && parseMidiMessage(event.data, name);
+                if (parsed) this.emit('input', parsed);
+            };
+        });
+        this.emit('devices', names);
+    }
+}
@@ -0,0 +1,214 @@
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+// MIDI control change and note messages, gamepad axes and buttons
+export type InputKind = 'midi_cc' | 'midi_note' | 'gamepad_axis' | 'gamepad_button';
+
+// One physical control
+export interface InputSource {
+    kind: InputKind;
+    // MIDI port name or gamepad id, so two controllers can be told apart
+    device: string;
+    // MIDI channel 1-16; unused for gamepads
+    channel?: number;
+    // CC number, note number, axis index or button index
+    control: number;
+}
+
+// A control moved or was pressed. Values are normalised to 0-1: CC value / 127,
+// note on 1 and off 0, axes from -1..1, buttons their pressure.
+export interface InputEvent {
+    source: InputSource;
+    value: number;
+}
+
+// Fine control near the low end (exponential) or the high end (logarithmic)
+export type BrightnessCurve = 'linear' | 'exponential' | 'logarithmic';
+
+export type MappingAction =
+    | { kind: 'brightness'; min: number; max: number; curve: BrightnessCurve }
+    | { kind: 'toggle' }
+    // Recalls one of the keyboard shortcut presets, 1-4
+    | { kind: 'preset'; preset: number }
+    | { kind: 'emergency_stop' };
+
+export interface InputMapping {
+    id: string;
+    source: InputSource;
+    action: MappingAction;
+}
+
+export const INPUT_KIND_LABELS: Record<InputKind, string> = {
+    midi_cc: 'MIDI CC',
+    midi_note: 'MIDI note',
+    gamepad_axis: 'Gamepad axis',
+    gamepad_button: 'Gamepad button'
+};
+
+export const CURVE_LABELS: Record<BrightnessCurve, string> = {
+    linear: 'Linear',
+    exponential: 'Exponential',
+    logarithmic: 'Logarithmic'
+};
+
+export const DEFAULT_BRIGHTNESS_ACTION: MappingAction = { kind: 'brightness', min: PWM_MIN, max: PWM_MAX, curve: 'linear' };
+
+// A stick rests at half travel and jitters around it, so it would press and
+// release a momentary action on its own; axes only drive brightness
+export function allowsMomentary(source: InputSource): boolean {
+    return source.kind !== 'gamepad_axis';
+}
+
+// Knobs and sticks default to brightness, keys and buttons to the switch
+export function defaultAction(source: InputSource): MappingAction {
+    return source.kind === 'midi_cc' || source.kind === 'gamepad_axis' ? DEFAULT_BRIGHTNESS_ACTION : { kind: 'toggle' };
+}
+
+// Same control on the same device
+export function sourceKey(source: InputSource): string {
+    return `${source.kind}:${source.device}:${source.channel ?? ''}:${source.control}`;
+}
+
+// "MIDI CC 7, ch 1" or "Gamepad button 0"
+export function describeSource(source: InputSource): string {
+    const channel = source.channel !== undefined ? `, ch ${source.channel}` : '';
+    return `${INPUT_KIND_LABELS[source.kind]} ${source.control}${channel}`;
+}
+
+const CURVE_EXPONENT = 2.5;
+
+export function applyCurve(value: number, curve: BrightnessCurve): number {
+    const clamped = Math.max(0, Math.min(1, value));
+    switch (curve) {
+        case 'linear':
+            return clamped;
+        case 'exponential':
+            return clamped ** CURVE_EXPONENT;
+        case 'logarithmic':
+            return clamped ** (1 / CURVE_EXPONENT);
+    }
+}
+
+// PWM % for a normalised input value; max below min turns the control around
+export function brightnessFor(value: number, action: Extract<MappingAction, { kind: 'brightness' }>): number {
+    return Math.round(action.min + (action.max - action.min) * applyCurve(value, action.curve));
+}
+
+function isLevel(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= PWM_MIN && (value as number) <= PWM_MAX;
+}
+
+function validateSource(source: unknown): InputSource {
+    const candidate = source as Partial<InputSource> | null;
+    if (!candidate || typeof candidate !== 'object') throw new Error('Mapping has no input');
+    if (!candidate.kind || !(candidate.kind in INPUT_KIND_LABELS)) throw new Error(`Unknown input kind ${String(candidate.kind)}`);
+    if (typeof candidate.device !== 'string') throw new Error('Mapping input has no device');
+    if (!Number.isInteger(candidate.control) || (candidate.control as number) < 0) {
+        throw new Error('Mapping input needs a control number');
+    }
+    if (candidate.channel !== undefined
+        && (!Number.isInteger(candidate.channel) || candidate.channel < 1 || candidate.channel > 16)) {
+        throw new Error('MIDI channels are 1-16');
+    }
+    return {
+        kind: candidate.kind,
+        device: candidate.device,
+        channel: candidate.channel,
+        control: candidate.control as number
+    };
+}
+
+function validateAction(action: unknown): MappingAction {
+    const candidate = action as Partial<Record<string, unknown>> | null;
+    if (!candidate || typeof candidate !== 'object') throw new Error('Mapping has no action');
+    switch (candidate.kind) {
+        case 'brightness':
+            if (!isLevel(candidate.min) || !isLevel(candidate.max)) {
+                throw new Error(`Brightness range must be whole numbers between ${PWM_MIN} and ${PWM_MAX}`);
+            }
+            if (typeof candidate.curve !== 'string' || !(candidate.curve in CURVE_LABELS)) {
+                throw new Error(`Unknown brightness curve ${String(candidate.curve)}`);
+            }
+            return { kind: 'brightness', min: candidate.min as number, max: candidate.max as number, curve: candidate.curve as BrightnessCurve };
+        case 'preset':
+            if (!Number.isInteger(candidate.preset) || (candidate.preset as number) < 1 || (candidate.preset as number) > 4) {
+                throw new Error('Presets are numbered 1-4');
+            }
+            return { kind: 'preset', preset: candidate.preset as number };
+        case 'toggle':
+        case 'emergency_stop':
+            return { kind: candidate.kind };
+        default:
+            throw new Error(`Unknown mapping action ${String(candidate.kind)}`);
+    }
+}
+
+// Checks mappings from storage or a file; throws on the first invalid one
+export function validateInputMappings(value: unknown): InputMapping[] {
+    if (!Array.isArray(value)) throw new Error('Mappings must be a list');
+    return value.map((mapping, index) => {
+        try {
+            const candidate = mapping as Partial<InputMapping>;
+            const source = validateSource(candidate.source);
+            const action = validateAction(candidate.action);
+            if (action.kind !== 'brightness' && !allowsMomentary(source)) {
+                throw new Error('Gamepad axes can only control brightness');
+            }
+            return {
+                id: typeof candidate.id === 'string' && candidate.id ? candidate.id : crypto.randomUUID(),
+                source,
+                action
+            };
+        } catch (error) {
+            throw new Error(`Mapping ${index + 1}: ${(error as Error).message}`);
+        }
+    });
+}
+
+const STORAGE_KEY = 'laserController.inputMappings';
+const FILE_VERSION = 1;
+
+// Invalid mappings, such as a stick bound to the switch by an older version,
+// are left out one by one so the rest survive the next save
+export function loadInputMappings(): InputMapping[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        if (!Array.isArray(parsed)) return [];
+        return parsed.flatMap(mapping => {
+            try {
+                return validateInputMappings([mapping]);
+            } catch (error) {
+                console.error('Skipped a stored input mapping:', error);
+                return [];
+            }
+        });
+    } catch (error) {
+        console.error('Failed to load input mappings:', error);
+        return [];
+    }
+}
+
+export function saveInputMappings(mappings: InputMapping[]): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+    } catch (error) {
+        console.error('Failed to save input mappings:', error);
+    }
+}
+
+export function exportInputMappings(mappings: InputMapping[]): string {
+    return JSON.stringify({ version: FILE_VERSION, mappings }, null, 2);
+}
+
+// Accepts an exported file or a bare list of mappings
+export function importInputMappings(text: string): InputMapping[] {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) return validateInputMappings(parsed);
+
+    const file = parsed as { version?: unknown; mappings?: unknown } | null;
+    if (!file || typeof file !== 'object') throw new Error('Not an input mapping file');
+    if (typeof file.version === 'number' && file.version > FILE_VERSION) {
+        throw new Error(`Unsupported input mapping file version ${file.version}`);
+    }
+    return validateInputMappings(file.mappings);
+}
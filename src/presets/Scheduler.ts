@@ -0,0 +1,81 @@
+import { Emitter } from '../device/Emitter';
+import { nextOccurrence, type ScheduleEntry, type ScheduledEvent } from './schedule';
+
+export interface SchedulerEvents {
+    due: ScheduledEvent;
+    // A run that passed while the computer slept or the tab was suspended
+    missed: ScheduledEvent;
+}
+
+// Re-checks at least this often, so sleep and clock changes are noticed
+const MAX_WAIT = 30000;
+// Runs found later than this are reported missed instead of carried out
+const MISSED_AFTER = 2 * 60000;
+
+// Fires schedule entries at their wall-clock time while the app is open.
+// Timers only decide when to look: every check runs what fell due since the
+// previous one, and an entry that fell due several times while the computer
+// slept is reported once, as missed, so the laser never switches hours late.
+export class Scheduler extends Emitter<SchedulerEvents> {
+    private entries: ScheduleEntry[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private lastCheck: Date | null = null;
+    private readonly now: () => Date;
+
+    constructor(now: () => Date = () => new Date()) {
+        super();
+        this.now = now;
+    }
+
+    get running(): boolean {
+        return this.lastCheck !== null;
+    }
+
+    setEntries(entries: ScheduleEntry[]): void {
+        this.entries = entries;
+        if (this.running) this.schedule();
+    }
+
+    start(): void {
+        if (this.running) return;
+        this.lastCheck = this.now();
+        this.schedule();
+    }
+
+    stop(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.lastCheck = null;
+    }
+
+    // Runs everything due since the last check; the timer calls it, tests can too
+    check(): void {
+        if (!this.lastCheck) return;
+        const since = this.lastCheck;
+        const now = this.now();
+        this.lastCheck = now;
+
+        for (const entry of [...this.entries]) {
+            if (!entry.enabled) continue;
+            let latest: Date | null = null;
+            for (let at = nextOccurrence(entry, since); at && at <= now; at = nextOccurrence(entry, at)) {
+                latest = at;
+            }
+            if (!latest) continue;
+            const late = now.getTime() - latest.getTime() > MISSED_AFTER;
+            this.emit(late ? 'missed' : 'due', { entry, at: latest });
+        }
+        if (this.running) this.schedule();
+    }
+
+    private schedule(): void {
+        if (this.timer) clearTimeout(this.timer);
+        const now = this.now();
+        const next = this.entries
+            .filter(entry => entry.enabled)
+            .map(entry => nextOccurrence(entry, now)?.getTime() ?? Infinity)
+            .reduce((soonest, at) => Math.min(soonest, at), Infinity);
+        const delay = Math.max(0, Math.min(MAX_WAIT, next - now.getTime()));
+        this.timer = setTimeout(() => this.check(), delay);
+    }
+}
@@ -0,0 +1,92 @@
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+// A named laser state to recall in one click
+export interface Preset {
+    id: string;
+    name: string;
+    laserOn: boolean;
+    // PWM %
+    brightness: number;
+    // Only for this device (its session key) instead of the selected one
+    deviceKey?: string;
+    // The device's name when the preset was saved, for display
+    deviceName?: string;
+}
+
+export function validatePreset(value: unknown): Preset {
+    const candidate = value as Partial<Preset> | null;
+    if (!candidate || typeof candidate !== 'object') throw new Error('Preset must be an object');
+    if (typeof candidate.name !== 'string' || !candidate.name.trim()) throw new Error('Preset needs a name');
+    if (typeof candidate.laserOn !== 'boolean') throw new Error(`Preset "${candidate.name}" has no laser state`);
+    if (!Number.isInteger(candidate.brightness)
+        || (candidate.brightness as number) < PWM_MIN || (candidate.brightness as number) > PWM_MAX) {
+        throw new Error(`Preset "${candidate.name}" brightness must be a whole number between ${PWM_MIN} and ${PWM_MAX}`);
+    }
+    if (candidate.deviceKey !== undefined && typeof candidate.deviceKey !== 'string') {
+        throw new Error(`Preset "${candidate.name}" has an invalid device`);
+    }
+    return {
+        id: typeof candidate.id === 'string' && candidate.id ? candidate.id : crypto.randomUUID(),
+        name: candidate.name.trim(),
+        laserOn: candidate.laserOn,
+        brightness: candidate.brightness as number,
+        deviceKey: candidate.deviceKey,
+        deviceName: typeof candidate.deviceName === 'string' ? candidate.deviceName : undefined
+    };
+}
+
+// "ON at 40%" or "OFF"
+export function describePreset(preset: Pick<Preset, 'laserOn' | 'brightness'>): string {
+    return preset.laserOn ? `ON at ${preset.brightness}%` : 'OFF';
+}
+
+// Other tabs watch this key for edits
+export const PRESETS_STORAGE_KEY = 'laserController.presets';
+const FILE_VERSION = 1;
+
+// Invalid presets are left out one by one, so the next save keeps the rest
+export function loadPresets(): Preset[] {
+    try {
+        const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        if (!Array.isArray(parsed)) return [];
+        return parsed.flatMap(value => {
+            try {
+                return [validatePreset(value)];
+            } catch (error) {
+                console.error('Skipped a stored preset:', error);
+                return [];
+            }
+        });
+    } catch (error) {
+        console.error('Failed to load presets:', error);
+        return [];
+    }
+}
+
+export function savePresets(presets: Preset[]): void {
+    try {
+        localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error('Failed to save presets:', error);
+    }
+}
+
+export function exportPresets(presets: Preset[]): string {
+    return JSON.stringify({ version: FILE_VERSION, presets }, null, 2);
+}
+
+// Accepts an exported file, a bare array of presets or a single preset
+export function importPresets(text: string): Preset[] {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed.map(validatePreset);
+
+    const file = parsed as { version?: unknown; presets?: unknown };
+    if (file && typeof file === 'object' && Array.isArray(file.presets)) {
+        if (typeof file.version === 'number' && file.version > FILE_VERSION) {
+            throw new Error(`Unsupported preset file version ${file.version}`);
+        }
+        return file.presets.map(validatePreset);
+    }
+    return [validatePreset(parsed)];
+}
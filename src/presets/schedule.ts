@@ -0,0 +1,117 @@
+import type { Preset } from './presets';
+
+// once runs on `date`; weekdays are Monday to Friday
+export type ScheduleRepeat = 'once' | 'daily' | 'weekdays';
+
+export type ScheduleAction =
+    | { kind: 'preset'; presetId: string }
+    // Switches every connected device off
+    | { kind: 'off' };
+
+export interface ScheduleEntry {
+    id: string;
+    action: ScheduleAction;
+    // Local wall-clock time, "HH:MM"
+    time: string;
+    repeat: ScheduleRepeat;
+    // "YYYY-MM-DD", for entries that run once
+    date?: string;
+    enabled: boolean;
+}
+
+// One run of an entry
+export interface ScheduledEvent {
+    entry: ScheduleEntry;
+    at: Date;
+}
+
+export const REPEAT_LABELS: Record<ScheduleRepeat, string> = {
+    once: 'Once',
+    daily: 'Daily',
+    weekdays: 'Weekdays'
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function validateScheduleEntry(entry: ScheduleEntry): string | undefined {
+    if (!TIME_PATTERN.test(entry.time)) return 'Time must be HH:MM';
+    if (entry.repeat === 'once' && !DATE_PATTERN.test(entry.date ?? '')) return 'A one-off entry needs a date';
+    if (entry.action.kind === 'preset' && !entry.action.presetId) return 'Choose a preset';
+    return undefined;
+}
+
+function isWeekday(day: Date): boolean {
+    return day.getDay() !== 0 && day.getDay() !== 6;
+}
+
+// First run of the entry strictly after `after`, or null when there is none.
+// Built from local date parts, so runs stay at the same wall-clock time
+// across daylight saving changes.
+export function nextOccurrence(entry: ScheduleEntry, after: Date): Date | null {
+    const time = entry.time.match(TIME_PATTERN);
+    if (!time) return null;
+    const hours = Number(time[1]);
+    const minutes = Number(time[2]);
+
+    if (entry.repeat === 'once') {
+        const date = entry.date?.match(DATE_PATTERN);
+        if (!date) return null;
+        const at = new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3]), hours, minutes);
+        return at > after ? at : null;
+    }
+
+    // A week always holds a weekday
+    for (let days = 0; days <= 7; days++) {
+        const at = new Date(after.getFullYear(), after.getMonth(), after.getDate() + days, hours, minutes);
+        if (at <= after) continue;
+        if (entry.repeat === 'weekdays' && !isWeekday(at)) continue;
+        return at;
+    }
+    return null;
+}
+
+// `Preset "Evening"` or "Laser off"
+export function describeScheduleAction(action: ScheduleAction, presets: Preset[]): string {
+    if (action.kind === 'off') return 'Laser off';
+    const preset = presets.find(candidate => candidate.id === action.presetId);
+    return preset ? `Preset "${preset.name}"` : 'Deleted preset';
+}
+
+// The next runs of all enabled entries, soonest first
+export function upcomingEvents(entries: ScheduleEntry[], after: Date, count: number): ScheduledEvent[] {
+    const events: ScheduledEvent[] = [];
+    for (const entry of entries) {
+        if (!entry.enabled) continue;
+        let at = nextOccurrence(entry, after);
+        while (at && events.filter(event => event.entry === entry).length < count) {
+            events.push({ entry, at });
+            at = nextOccurrence(entry, at);
+        }
+    }
+    return events.sort((a, b) => a.at.getTime() - b.at.getTime()).slice(0, count);
+}
+
+// Exported so other tabs can pick up edits through the storage event
+export const SCHEDULE_STORAGE_KEY = 'laserController.schedule';
+
+export function loadSchedule(): ScheduleEntry[] {
+    try {
+        const stored = localStorage.getItem(SCHEDULE_STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed)
+            ? (parsed as ScheduleEntry[]).filter(entry => entry && entry.action && !validateScheduleEntry(entry))
+            : [];
+    } catch (error) {
+        console.error('Failed to load schedule:', error);
+        return [];
+    }
+}
+
+export function saveSchedule(entries: ScheduleEntry[]): void {
+    try {
+        localStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error('Failed to save schedule:', error);
+    }
+}
@@ -0,0 +1,83 @@
+import { Emitter } from '../device/Emitter';
+import type { Transport, TransportEvents } from '../device/Transport';
+import type { SessionEntry } from './session';
+
+export interface ReplayTransportEvents extends TransportEvents {
+    // A command the original session sent, at its recorded time
+    recorded_command: string;
+    progress: { index: number; total: number };
+}
+
+// Plays a recorded session back as if it came from a device: received lines
+// are delivered at their original pace (scaled by `speed`) and go through the
+// normal LaserDevice parsing path. Writes from the app are discarded.
+export class ReplayTransport extends Emitter<ReplayTransportEvents> implements Transport {
+    readonly label = 'Replay';
+    private readonly entries: readonly SessionEntry[];
+    private readonly speed: number;
+    private readonly encoder = new TextEncoder();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private index = 0;
+    private startedAt = 0;
+    private isOpen = false;
+
+    constructor(entries: readonly SessionEntry[], speed = 1) {
+        super();
+        this.entries = entries;
+        this.speed = speed;
+    }
+
+    get total(): number {
+        return this.entries.length;
+    }
+
+    async open(): Promise<void> {
+        this.isOpen = true;
+        this.index = 0;
+        this.startedAt = performance.now();
+        // Let the device finish connecting before the first line arrives
+        this.timer = setTimeout(() => this.deliverDue(), 0);
+    }
+
+    async close(): Promise<void> {
+        if (!this.isOpen) return;
+        this.stop();
+        this.emit('close', undefined);
+    }
+
+    async write(): Promise<void> {
+        if (!this.isOpen) {
+            throw new Error('The replay has ended.');
+        }
+    }
+
+    private deliverDue(): void {
+        const origin = this.entries[0].time;
+        const elapsed = (performance.now() - this.startedAt) * this.speed;
+
+        while (this.index < this.entries.length && this.entries[this.index].time - origin <= elapsed) {
+            const entry = this.entries[this.index++];
+            if (entry.direction === 'rx') {
+                this.emit('data', this.encoder.encode(entry.data + '\n'));
+            } else {
+                this.emit('recorded_command', entry.data);
+            }
+            // Delivering a line may have closed the link
+            if (!this.isOpen) return;
+        }
+        this.emit('progress', { index: this.index, total: this.entries.length });
+
+        if (this.index >= this.entries.length) {
+            this.close();
+            return;
+        }
+        const next = (this.entries[this.index].time - origin - elapsed) / this.speed;
+        this.timer = setTimeout(() => this.deliverDue(), Math.max(0, next));
+    }
+
+    private stop(): void {
+        this.isOpen = false;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+}
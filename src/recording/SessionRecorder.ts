@@ -0,0 +1,70 @@
+import { Emitter } from '../device/Emitter';
+import type { LaserDevice } from '../device/LaserDevice';
+import { preciseNow, type SessionEntry } from './session';
+
+export interface SessionRecorderEvents {
+    // Entry count changed (recorded or cleared); at most once per interval
+    change: number;
+}
+
+// Entries kept; the oldest are dropped once TRIM_SLACK more have piled up
+export const MAX_SESSION_ENTRIES = 200000;
+// Old entries are dropped in chunks so trimming is not a copy per line
+const TRIM_SLACK = 1000;
+// Lines arrive faster than the entry count is worth re-rendering
+const CHANGE_INTERVAL = 250;
+
+// Records every raw line received from and command sent to a device
+export class SessionRecorder extends Emitter<SessionRecorderEvents> {
+    private readonly data: SessionEntry[] = [];
+    private droppedCount = 0;
+    private lastTransport: string | undefined;
+    private readonly decoder = new TextDecoder();
+    private changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    get entries(): readonly SessionEntry[] {
+        return this.data;
+    }
+
+    // Entries discarded because the recording hit MAX_SESSION_ENTRIES
+    get dropped(): number {
+        return this.droppedCount;
+    }
+
+    get transportLabel(): string | undefined {
+        return this.lastTransport;
+    }
+
+    // Call before device.connect() so nothing from the first moments is missed.
+    // Stops recording by itself when the device disconnects. `name` labels the
+    // entries so recordings of several devices can be told apart.
+    attach(device: LaserDevice, name?: string): void {
+        this.lastTransport = device.transport.label;
+        const add = (direction: SessionEntry['direction'], data: string): void => this.add(direction, data, name);
+        const unsubscribers = [
+            device.on('line', line => add('rx', line)),
+            device.on('sent', command => add('tx', command)),
+            device.on('sent_bytes', data => add('tx', this.decoder.decode(data).replace(/\r?\n$/, ''))),
+            device.on('disconnect', () => unsubscribers.forEach(unsubscribe => unsubscribe()))
+        ];
+    }
+
+    clear(): void {
+        this.data.length = 0;
+        this.droppedCount = 0;
+        if (this.changeTimer) clearTimeout(this.changeTimer);
+        this.changeTimer = null;
+        this.emit('change', 0);
+    }
+
+    private add(direction: SessionEntry['direction'], data: string, device?: string): void {
+        this.data.push(device ? { time: preciseNow(), device, direction, data } : { time: preciseNow(), direction, data });
+        if (this.data.length > MAX_SESSION_ENTRIES + TRIM_SLACK) {
+            this.droppedCount += this.data.splice(0, this.data.length - MAX_SESSION_ENTRIES).length;
+        }
+        this.changeTimer ??= setTimeout(() => {
+            this.changeTimer = null;
+            this.emit('change', this.data.length);
+        }, CHANGE_INTERVAL);
+    }
+}
@@ -0,0 +1,145 @@
+// One line that crossed the link, as recorded
+export interface SessionEntry {
+    // Epoch milliseconds with sub-millisecond resolution
+    time: number;
+    // Received from (rx) or sent to (tx) the device
+    direction: 'rx' | 'tx';
+    data: string;
+    // Name of the device, when several were connected
+    device?: string;
+}
+
+export interface SessionHeader {
+    type: 'session';
+    version: 1;
+    started: string;
+    transport?: string;
+}
+
+const CSV_HEADER = 'time_iso,time_ms,device,direction,data';
+// Written before recordings carried a device column
+const LEGACY_CSV_HEADER = 'time_iso,time_ms,direction,data';
+
+// High-resolution wall-clock time
+export function preciseNow(): number {
+    return performance.timeOrigin + performance.now();
+}
+
+// One JSON object per line: a header, then every entry in order
+export function toJsonl(entries: readonly SessionEntry[], transport?: string): string {
+    const header: SessionHeader = {
+        type: 'session',
+        version: 1,
+        started: new Date(entries[0]?.time ?? Date.now()).toISOString(),
+        transport
+    };
+    return [header, ...entries].map(item => JSON.stringify(item)).join('\n') + '\n';
+}
+
+function csvField(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(entries: readonly SessionEntry[]): string {
+    const rows = entries.map(entry => [
+        new Date(entry.time).toISOString(),
+        entry.time.toFixed(3),
+        csvField(entry.device ?? ''),
+        entry.direction,
+        csvField(entry.data)
+    ].join(','));
+    return [CSV_HEADER, ...rows].join('\n') + '\n';
+}
+
+function isEntry(value: unknown): value is SessionEntry {
+    if (typeof value !== 'object' || value === null) return false;
+    const entry = value as Partial<SessionEntry>;
+    return typeof entry.time === 'number'
+        && (entry.direction === 'rx' || entry.direction === 'tx')
+        && typeof entry.data === 'string'
+        && (entry.device === undefined || typeof entry.device === 'string');
+}
+
+function parseJsonl(text: string): SessionEntry[] {
+    const entries: SessionEntry[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch {
+            throw new Error(`Line ${index + 1} is not valid JSON`);
+        }
+        if (isEntry(value)) {
+            entries.push(value);
+        } else if ((value as Partial<SessionHeader>)?.type !== 'session') {
+            throw new Error(`Line ${index + 1} is not a session entry`);
+        }
+    });
+    return entries;
+}
+
+// Splits CSV text into rows of fields, honouring quoted fields with newlines
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+function parseCsv(text: string): SessionEntry[] {
+    const [header, ...rows] = parseCsvRows(text);
+    const legacy = header?.join(',') === LEGACY_CSV_HEADER;
+    if (!legacy && header?.join(',') !== CSV_HEADER) {
+        throw new Error('Unrecognised CSV header');
+    }
+    return rows.filter(row => row.length > 1).map((row, index) => {
+        const [device, direction, data] = legacy ? [undefined, row[2], row[3]] : [row[2] || undefined, row[3], row[4]];
+        const entry = { time: Number(row[1]), direction, data: data ?? '', ...(device ? { device } : {}) };
+        if (!isEntry(entry) || !Number.isFinite(entry.time)) {
+            throw new Error(`Row ${index + 2} is not a session entry`);
+        }
+        return entry;
+    });
+}
+
+// Reads a recording exported as JSONL or CSV
+export function parseSession(text: string): SessionEntry[] {
+    const entries = text.trimStart().startsWith('{') ? parseJsonl(text) : parseCsv(text);
+    if (entries.length === 0) {
+        throw new Error('The recording is empty');
+    }
+    return entries.sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,352 @@
+import { Emitter } from '../device/Emitter';
+import { CommandError, type AckMatcher } from '../device/CommandQueue';
+import type { LaserDevice } from '../device/LaserDevice';
+import {
+    confirmsBrightness,
+    confirmsInitialState,
+    confirmsLaserState,
+    pwmCommand,
+    type DeviceReport,
+    type InitialStateMessage,
+    type StatusMessage
+} from '../device/protocol';
+import {
+    compareVersions,
+    mean,
+    standardDeviation,
+    validateSelfTestOptions,
+    type SelfTestCheck,
+    type SelfTestOptions,
+    type SelfTestReport
+} from './selfTest';
+
+export interface SelfTestProgress {
+    // 1-based index of the running check
+    step: number;
+    steps: number;
+    name: string;
+}
+
+export interface SelfTestRunnerEvents {
+    running: boolean;
+    progress: SelfTestProgress;
+    check: SelfTestCheck;
+    finished: SelfTestReport;
+    error: Error;
+}
+
+// Identifies the device in the report
+export interface SelfTestTarget {
+    name: string;
+    // Known from a legacy text banner when the firmware has no JSON version
+    firmwareVersion?: string;
+}
+
+// How long a command may take to be confirmed, and the status report after it
+const COMMAND_TIMEOUT_MS = 2000;
+
+// Checks a controller end to end: the initial_state handshake, the firmware
+// version, LASER_ON, every brightness step and LASER_OFF against the status
+// reports that follow them, command latency and heartbeat regularity.
+// Commands are not retried, so a lost reply fails the check it belongs to.
+// The laser is switched off however the run ends.
+export class SelfTestRunner extends Emitter<SelfTestRunnerEvents> {
+    private readonly device: LaserDevice;
+    private running = false;
+    private abortReason: string | null = null;
+    private wake: (() => void) | null = null;
+    private laserMayBeOn = false;
+    private heartbeats: number[] = [];
+    private heartbeatsWanted = Infinity;
+    private readonly cleanup: Array<() => void>;
+
+    constructor(device: LaserDevice) {
+        super();
+        this.device = device;
+        this.cleanup = [
+            device.on('heartbeat', () => this.handleHeartbeat()),
+            // The emergency stop has already written LASER_OFF
+            device.on('emergency_stop', () => this.abort('emergency stop')),
+            device.on('disconnect', () => this.abort('the link was lost'))
+        ];
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    async run(target: SelfTestTarget, options: SelfTestOptions): Promise<SelfTestReport> {
+        if (this.running) {
+            throw new Error('A self-test is already running');
+        }
+        const problem = validateSelfTestOptions(options);
+        if (problem) {
+            throw new Error(problem);
+        }
+
+        this.running = true;
+        this.abortReason = null;
+        this.laserMayBeOn = false;
+        this.heartbeats = [];
+        this.heartbeatsWanted = Infinity;
+        this.emit('running', true);
+
+        const startedAt = new Date();
+        const checks: SelfTestCheck[] = [];
+        const latencies: number[] = [];
+        const stepNames = [
+            'Initial state handshake',
+            'Firmware version',
+            'Laser on',
+            ...options.pwmSteps.map(level => `Brightness ${level}%`),
+            'Laser off',
+            'Command latency',
+            'Heartbeat regularity'
+        ];
+        let initial: InitialStateMessage | undefined;
+        let firmwareVersion = target.firmwareVersion;
+
+        // Runs one check, or records it as skipped once the run was aborted
+        const step = async (perform: () => Promise<Omit<SelfTestCheck, 'name'>>): Promise<void> => {
+            const name = stepNames[checks.length];
+            let check: SelfTestCheck;
+            if (this.abortReason) {
+                check = { name, status: 'skip', detail: `Not run: ${this.abortReason}` };
+            } else {
+                this.emit('progress', { step: checks.length + 1, steps: stepNames.length, name });
+                check = { name, ...await perform() };
+                if (check.latencyMs !== undefined) latencies.push(check.latencyMs);
+            }
+            checks.push(check);
+            this.emit('check', check);
+        };
+
+        try {
+            await step(async () => {
+                const result = await this.handshake();
+                initial = result.message;
+                firmwareVersion = initial?.version ?? firmwareVersion;
+                return result.check;
+            });
+
+            await step(async () => {
+                if (!firmwareVersion) {
+                    return { status: 'fail', detail: 'The firmware did not report its version' };
+                }
+                const comparison = compareVersions(firmwareVersion, options.minFirmwareVersion);
+                if (comparison === undefined) {
+                    return { status: 'fail', detail: `Unrecognised version "${firmwareVersion}"` };
+                }
+                return comparison >= 0
+                    ? { status: 'pass', detail: `v${firmwareVersion} (minimum ${options.minFirmwareVersion})` }
+                    : { status: 'fail', detail: `v${firmwareVersion} is older than the minimum ${options.minFirmwareVersion}` };
+            });
+
+            this.laserMayBeOn = true;
+            await step(() => this.confirm('LASER_ON', confirmsLaserState(true), { laser_state: true }));
+            for (const level of options.pwmSteps) {
+                await step(() => this.confirm(pwmCommand(level), confirmsBrightness(level), { laser_brightness: level }));
+            }
+            await step(async () => {
+                const check = await this.confirm('LASER_OFF', confirmsLaserState(false), { laser_state: false });
+                if (check.status === 'pass') this.laserMayBeOn = false;
+                return check;
+            });
+
+            await step(async () => {
+                let failures = 0;
+                for (let i = 0; i < options.pings && !this.abortReason; i++) {
+                    try {
+                        latencies.push(await this.device.ping(COMMAND_TIMEOUT_MS));
+                    } catch {
+                        failures++;
+                    }
+                }
+                if (latencies.length === 0) {
+                    return { status: 'fail', detail: 'No command was confirmed' };
+                }
+                const worst = Math.max(...latencies);
+                const detail = `Mean ${Math.round(mean(latencies))} ms, worst ${Math.round(worst)} ms over ${latencies.length} round trips`
+                    + (failures > 0 ? `; ${failures} of ${options.pings} pings unanswered` : '');
+                return {
+                    status: failures === 0 && worst <= options.maxLatencyMs ? 'pass' : 'fail',
+                    detail: worst > options.maxLatencyMs ? `${detail} (limit ${options.maxLatencyMs} ms)` : detail
+                };
+            });
+
+            await step(async () => {
+                // Heartbeats seen during the earlier checks count too
+                this.heartbeatsWanted = options.heartbeatIntervals + 1;
+                await this.waitUntil(performance.now() + options.heartbeatTimeoutMs);
+                const intervals = this.heartbeats.slice(1).map((at, i) => at - this.heartbeats[i]);
+                if (intervals.length < 2) {
+                    return {
+                        status: 'fail',
+                        detail: `Only ${this.heartbeats.length} heartbeat${this.heartbeats.length === 1 ? '' : 's'} during the test`
+                    };
+                }
+                const interval = mean(intervals);
+                const jitter = standardDeviation(intervals);
+                const detail = `Every ${Math.round(interval)} ms ± ${Math.round(jitter)} ms over ${intervals.length} intervals`;
+                return jitter <= interval * options.maxHeartbeatJitter
+                    ? { status: 'pass', detail }
+                    : { status: 'fail', detail: `${detail}; more irregular than ±${Math.round(options.maxHeartbeatJitter * 100)}%` };
+            });
+        } finally {
+            await this.switchOff();
+            // Leave the slider where it was before the test
+            if (initial?.laser_brightness !== undefined && this.device.isConnected) {
+                await this.device.setPwm(initial.laser_brightness).catch(error => this.emit('error', error as Error));
+            }
+            this.heartbeatsWanted = Infinity;
+            this.running = false;
+            this.emit('running', false);
+        }
+
+        const report: SelfTestReport = {
+            device: target.name,
+            firmwareVersion,
+            startedAt: startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            completed: this.abortReason === null,
+            passed: this.abortReason === null && checks.every(check => check.status === 'pass'),
+            options,
+            checks
+        };
+        this.emit('finished', report);
+        return report;
+    }
+
+    // Ends the run early; the remaining checks are skipped
+    stop(): void {
+        this.abort('stopped');
+    }
+
+    dispose(): void {
+        this.abort('stopped');
+        this.cleanup.forEach(unsubscribe => unsubscribe());
+    }
+
+    private async handshake(): Promise<{ check: Omit<SelfTestCheck, 'name'>; message?: InitialStateMessage }> {
+        let message: InitialStateMessage | undefined;
+        const unsubscribe = this.device.on('initial_state', received => {
+            message ??= received;
+        });
+        const started = performance.now();
+        try {
+            await this.device.request('GET_INITIAL_STATE', {
+                expect: confirmsInitialState,
+                coalesceKey: 'sync',
+                retries: 0,
+                timeoutMs: COMMAND_TIMEOUT_MS
+            });
+        } catch (error) {
+            return { check: { status: 'fail', detail: describeFailure(error) } };
+        } finally {
+            unsubscribe();
+        }
+        const latencyMs = performance.now() - started;
+
+        if (!message) {
+            return { check: { status: 'fail', detail: 'Answered in the legacy text format instead of an initial_state message', latencyMs } };
+        }
+        const missing = (['version', 'laser_state', 'laser_brightness'] as const).filter(field => message?.[field] === undefined);
+        return {
+            message,
+            check: missing.length > 0
+                ? { status: 'fail', detail: `initial_state is missing ${missing.join(', ')}`, latencyMs }
+                : { status: 'pass', detail: `Laser ${message.laser_state ? 'on' : 'off'} at ${message.laser_brightness}%`, latencyMs }
+        };
+    }
+
+    // Sends a command and checks the first status report after it
+    private async confirm(
+        command: string,
+        expect: AckMatcher,
+        expected: Partial<Pick<DeviceReport, 'laser_state' | 'laser_brightness'>>
+    ): Promise<Omit<SelfTestCheck, 'name'>> {
+        const status = this.nextStatus();
+        const started = performance.now();
+        try {
+            await this.device.request(command, { expect, retries: 0, timeoutMs: COMMAND_TIMEOUT_MS });
+        } catch (error) {
+            status.cancel();
+            return { status: 'fail', detail: describeFailure(error) };
+        }
+        const latencyMs = performance.now() - started;
+
+        const report = await status.message;
+        if (!report) {
+            return { status: 'fail', detail: `${command} was confirmed, but no status report followed`, latencyMs };
+        }
+        const wrong = (Object.keys(expected) as Array<keyof typeof expected>)
+            .filter(field => report[field] !== expected[field])
+            .map(field => `${field} ${report[field]} instead of ${expected[field]}`);
+        return wrong.length > 0
+            ? { status: 'fail', detail: `Status reported ${wrong.join(', ')}`, latencyMs }
+            : { status: 'pass', detail: `Status reported ${Object.entries(expected).map(([field, value]) => `${field} ${value}`).join(', ')}`, latencyMs };
+    }
+
+    // The next status report, or undefined if none arrives in time
+    private nextStatus(): { message: Promise<StatusMessage | undefined>; cancel: () => void } {
+        let finish: (message: StatusMessage | undefined) => void = () => undefined;
+        const message = new Promise<StatusMessage | undefined>(resolve => {
+            const timer = setTimeout(() => finish(undefined), COMMAND_TIMEOUT_MS);
+            const unsubscribe = this.device.on('status', received => finish(received));
+            finish = received => {
+                clearTimeout(timer);
+                unsubscribe();
+                resolve(received);
+            };
+        });
+        return { message, cancel: () => finish(undefined) };
+    }
+
+    private async switchOff(): Promise<void> {
+        if (!this.laserMayBeOn || !this.device.isConnected) return;
+        try {
+            await this.device.laserOff();
+        } catch (error) {
+            if (!(error instanceof CommandError && error.reason === 'superseded')) {
+                this.emit('error', error as Error);
+            }
+            // Unconfirmed: write it raw rather than leave the laser on
+            await this.device.send('LASER_OFF').catch(sendError => this.emit('error', sendError as Error));
+        }
+        this.laserMayBeOn = false;
+    }
+
+    private handleHeartbeat(): void {
+        if (!this.running) return;
+        this.heartbeats.push(performance.now());
+        if (this.heartbeats.length >= this.heartbeatsWanted) this.wake?.();
+    }
+
+    private waitUntil(deadline: number): Promise<void> {
+        const delay = deadline - performance.now();
+        if (delay <= 0 || this.abortReason || this.heartbeats.length >= this.heartbeatsWanted) return Promise.resolve();
+
+        return new Promise(resolve => {
+            const finish = (): void => {
+                clearTimeout(timer);
+                this.wake = null;
+                resolve();
+            };
+            const timer = setTimeout(finish, delay);
+            this.wake = finish;
+        });
+    }
+
+    private abort(reason: string): void {
+        if (!this.running || this.abortReason) return;
+        this.abortReason = reason;
+        this.wake?.();
+    }
+}
+
+function describeFailure(error: unknown): string {
+    if (error instanceof CommandError && error.reason === 'timeout') {
+        return `No confirmation within ${COMMAND_TIMEOUT_MS} ms`;
+    }
+    return (error as Error).message;
+}
@@ -0,0 +1,174 @@
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+export type CheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface SelfTestCheck {
+    name: string;
+    status: CheckStatus;
+    detail: string;
+    // Round trip from writing the command to the confirming report
+    latencyMs?: number;
+}
+
+export interface SelfTestOptions {
+    // Oldest firmware the app is known to work with, e.g. "1.2.0"
+    minFirmwareVersion: string;
+    // Brightness levels stepped through with the laser on
+    pwmSteps: number[];
+    // GET_INITIAL_STATE round trips on top of the command latencies
+    pings: number;
+    // Confirmations slower than this fail the latency check
+    maxLatencyMs: number;
+    // Heartbeat intervals to collect, and how long to wait for them
+    heartbeatIntervals: number;
+    heartbeatTimeoutMs: number;
+    // Standard deviation of the interval as a share of its mean
+    maxHeartbeatJitter: number;
+}
+
+export const DEFAULT_SELF_TEST_OPTIONS: SelfTestOptions = {
+    minFirmwareVersion: '1.0.0',
+    pwmSteps: [0, 25, 50, 75, 100],
+    pings: 5,
+    maxLatencyMs: 500,
+    heartbeatIntervals: 4,
+    heartbeatTimeoutMs: 20000,
+    maxHeartbeatJitter: 0.25
+};
+
+export interface SelfTestReport {
+    device: string;
+    firmwareVersion?: string;
+    startedAt: string;
+    finishedAt: string;
+    // Every check ran; false after a stop, emergency stop or lost link
+    completed: boolean;
+    passed: boolean;
+    options: SelfTestOptions;
+    checks: SelfTestCheck[];
+}
+
+const VERSION_PATTERN = /^\d+(\.\d+)*$/;
+
+export function validateSelfTestOptions(options: SelfTestOptions): string | undefined {
+    if (!VERSION_PATTERN.test(options.minFirmwareVersion.trim())) {
+        return 'Minimum firmware version must be numbers separated by dots, e.g. 1.2.0';
+    }
+    if (options.pwmSteps.length === 0
+        || options.pwmSteps.some(step => !Number.isInteger(step) || step < PWM_MIN || step > PWM_MAX)) {
+        return `Brightness steps must be whole numbers between ${PWM_MIN} and ${PWM_MAX}`;
+    }
+    return undefined;
+}
+
+// Compares dotted versions numerically ("1.10" > "1.9"); a leading "v" and
+// suffixes such as "-beta" are ignored. undefined when either is not a version.
+export function compareVersions(a: string, b: string): number | undefined {
+    const parse = (version: string): number[] | undefined => {
+        const match = version.trim().replace(/^v/i, '').match(/^\d+(\.\d+)*/);
+        return match ? match[0].split('.').map(Number) : undefined;
+    };
+    const left = parse(a);
+    const right = parse(b);
+    if (!left || !right) return undefined;
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) return Math.sign(difference);
+    }
+    return 0;
+}
+
+export function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+    const average = mean(values);
+    return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+export function exportSelfTestReport(report: SelfTestReport): string {
+    return JSON.stringify(report, null, 2);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = { pass: 'PASS', fail: 'FAIL', skip: 'SKIPPED' };
+
+// A standalone page that prints on one sheet, for the repair record
+export function selfTestReportHtml(report: SelfTestReport): string {
+    const rows = report.checks.map(check => `
+        <tr class="${check.status}">
+            <td>${escapeHtml(check.name)}</td>
+            <td class="status">${STATUS_LABELS[check.status]}</td>
+            <td>${escapeHtml(check.detail)}</td>
+            <td>${check.latencyMs !== undefined ? `${Math.round(check.latencyMs)} ms` : ''}</td>
+        </tr>`).join('');
+    const verdict = !report.completed ? 'INCOMPLETE' : report.passed ? 'PASSED' : 'FAILED';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Self-test report: ${escapeHtml(report.device)}</title>
+<style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; margin: 32px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .verdict { display: inline-block; margin: 12px 0; padding: 6px 14px; border-radius: 8px; font-weight: 700; }
+    .verdict.PASSED { background: #dcfce7; color: #166534; }
+    .verdict.FAILED, .verdict.INCOMPLETE { background: #fee2e2; color: #991b1b; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 13px; }
+    dt { color: #64748b; }
+    dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 13px; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    .status { font-weight: 700; }
+    .pass .status { color: #166534; }
+    .fail .status { color: #b91c1c; }
+    .skip .status { color: #64748b; }
+    @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Laser controller self-test</h1>
+<div class="verdict ${verdict}">${verdict}</div>
+<dl>
+    <dt>Device</dt><dd>${escapeHtml(report.device)}</dd>
+    <dt>Firmware</dt><dd>${escapeHtml(report.firmwareVersion ?? 'not reported')} (minimum ${escapeHtml(report.options.minFirmwareVersion)})</dd>
+    <dt>Started</dt><dd>${escapeHtml(new Date(report.startedAt).toLocaleString())}</dd>
+    <dt>Finished</dt><dd>${escapeHtml(new Date(report.finishedAt).toLocaleString())}</dd>
+</dl>
+<table>
+    <thead><tr><th>Check</th><th>Result</th><th>Details</th><th>Latency</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+const STORAGE_KEY = 'laserController.selfTest';
+
+export function loadSelfTestOptions(): SelfTestOptions {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const options = { ...DEFAULT_SELF_TEST_OPTIONS, ...JSON.parse(stored) as Partial<SelfTestOptions> };
+            if (!validateSelfTestOptions(options)) return options;
+        }
+    } catch (error) {
+        console.error('Failed to load self-test options:', error);
+    }
+    return DEFAULT_SELF_TEST_OPTIONS;
+}
+
+export function saveSelfTestOptions(options: SelfTestOptions): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch (error) {
+        console.error('Failed to save self-test options:', error);
+    }
+}
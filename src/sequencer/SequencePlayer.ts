@@ -0,0 +1,184 @@
+import { Emitter } from '../device/Emitter';
+import { CommandError } from '../device/CommandQueue';
+import type { LaserDevice } from '../device/LaserDevice';
+import { levelAt, sequenceDuration, type Sequence } from './sequence';
+
+export type PlayerState = 'idle' | 'playing' | 'paused';
+
+export interface PlayerProgress {
+    elapsedMs: number;
+    // Infinity for endless sequences
+    totalMs: number;
+    level: number;
+}
+
+export interface PlayerOptions {
+    // Minimum time between two SET_LASER_PWM writes
+    minIntervalMs: number;
+    // Send LASER_ON when starting and LASER_OFF when done
+    switchLaser: boolean;
+}
+
+export interface SequencePlayerEvents {
+    state: PlayerState;
+    progress: PlayerProgress;
+    // Playback ended by itself (true) or was stopped (false)
+    finished: boolean;
+    error: Error;
+}
+
+export const DEFAULT_PLAYER_OPTIONS: PlayerOptions = {
+    minIntervalMs: 100,
+    switchLaser: true
+};
+
+// Plays a Sequence on a device through SET_LASER_PWM. At most one PWM command
+// is in flight at a time and writes are spaced by minIntervalMs, so a slow
+// link skips intermediate levels instead of building a backlog.
+export class SequencePlayer extends Emitter<SequencePlayerEvents> {
+    private readonly device: LaserDevice;
+    private sequence: Sequence | null = null;
+    private options: PlayerOptions = DEFAULT_PLAYER_OPTIONS;
+    private state: PlayerState = 'idle';
+    private startedAt = 0;
+    private pausedElapsed = 0;
+    private lastSentLevel: number | null = null;
+    private lastSentAt = 0;
+    private inFlight = false;
+    // Set between prepare() and start()
+    private prepared = false;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private readonly cleanup: Array<() => void>;
+
+    constructor(device: LaserDevice) {
+        super();
+        this.device = device;
+        this.cleanup = [
+            device.on('emergency_stop', () => this.halt(false, false)),
+            device.on('disconnect', () => this.halt(false, false))
+        ];
+    }
+
+    get currentState(): PlayerState {
+        return this.state;
+    }
+
+    async play(sequence: Sequence, options: Partial<PlayerOptions> = {}): Promise<void> {
+        await this.prepare(sequence, options);
+        this.start();
+    }
+
+    // Loads the sequence and switches the laser on without starting the clock,
+    // so several players can be started on the same instant
+    async prepare(sequence: Sequence, options: Partial<PlayerOptions> = {}): Promise<void> {
+        this.halt(false, false);
+        this.sequence = sequence;
+        this.options = { ...DEFAULT_PLAYER_OPTIONS, ...options };
+        this.pausedElapsed = 0;
+        this.lastSentLevel = null;
+        this.prepared = true;
+
+        if (this.options.switchLaser) {
+            await this.device.setPwm(levelAt(sequence, 0));
+            this.lastSentLevel = levelAt(sequence, 0);
+            await this.device.laserOn();
+        }
+    }
+
+    // Starts a prepared sequence as if it began at `at` (a performance.now() time)
+    start(at: number = performance.now()): void {
+        if (!this.prepared) return;
+        this.prepared = false;
+        this.pausedElapsed = Math.max(0, performance.now() - at);
+        this.resume();
+    }
+
+    pause(): void {
+        if (this.state !== 'playing') return;
+        this.pausedElapsed = this.elapsed();
+        this.clearTimer();
+        this.setState('paused');
+    }
+
+    resume(): void {
+        if (!this.sequence || this.state === 'playing') return;
+        this.startedAt = performance.now() - this.pausedElapsed;
+        this.clearTimer();
+        this.timer = setInterval(() => this.tick(), Math.max(10, Math.min(50, this.options.minIntervalMs)));
+        this.setState('playing');
+        this.tick();
+    }
+
+    stop(): void {
+        this.halt(false, this.options.switchLaser);
+    }
+
+    dispose(): void {
+        this.halt(false, false);
+        this.cleanup.forEach(unsubscribe => unsubscribe());
+    }
+
+    private elapsed(): number {
+        return this.state === 'playing' ? performance.now() - this.startedAt : this.pausedElapsed;
+    }
+
+    private tick(): void {
+        const sequence = this.sequence;
+        if (!sequence || this.state !== 'playing') return;
+
+        const totalMs = sequenceDuration(sequence);
+        const elapsedMs = Math.min(this.elapsed(), totalMs);
+        const level = levelAt(sequence, elapsedMs);
+        this.emit('progress', { elapsedMs, totalMs, level });
+
+        if (elapsedMs >= totalMs) {
+            this.halt(true, this.options.switchLaser);
+            return;
+        }
+
+        const now = performance.now();
+        if (level === this.lastSentLevel || this.inFlight || now - this.lastSentAt < this.options.minIntervalMs) {
+            return;
+        }
+
+        this.inFlight = true;
+        this.lastSentAt = now;
+        this.lastSentLevel = level;
+        this.device.setPwm(level)
+            .catch(error => {
+                if (error instanceof CommandError && (error.reason === 'superseded' || error.reason === 'aborted')) return;
+                this.emit('error', error as Error);
+                // Same end as stop(), so a refused level does not leave the laser on
+                this.halt(false, this.options.switchLaser);
+            })
+            .finally(() => { this.inFlight = false; });
+    }
+
+    private halt(finished: boolean, switchOff: boolean): void {
+        // A prepared player has not started yet: drop it without reporting a finish
+        const wasPrepared = this.prepared;
+        this.prepared = false;
+        if (this.state === 'idle' && !wasPrepared) return;
+
+        if (this.state !== 'idle') {
+            this.clearTimer();
+            this.pausedElapsed = 0;
+            this.setState('idle');
+            this.emit('finished', finished);
+        }
+
+        if (switchOff && this.device.isConnected) {
+            this.device.laserOff().catch(error => this.emit('error', error as Error));
+        }
+    }
+
+    private clearTimer(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    private setState(state: PlayerState): void {
+        this.state = state;
+        this.emit('state', state);
+    }
+}
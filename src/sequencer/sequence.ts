@@ -0,0 +1,176 @@
+import { PWM_MAX, PWM_MIN } from '../device/protocol';
+
+export type WaveShape = 'sine' | 'triangle' | 'square';
+
+// Holds a fixed brightness
+export interface StepSegment {
+    kind: 'step';
+    level: number;
+    holdMs: number;
+}
+
+// Moves linearly between two brightness levels
+export interface RampSegment {
+    kind: 'ramp';
+    from: number;
+    to: number;
+    durationMs: number;
+}
+
+// Oscillates around `offset` by ±`amplitude`
+export interface WaveSegment {
+    kind: 'wave';
+    shape: WaveShape;
+    periodMs: number;
+    amplitude: number;
+    offset: number;
+    durationMs: number;
+}
+
+export type Segment = StepSegment | RampSegment | WaveSegment;
+
+export interface Sequence {
+    id: string;
+    name: string;
+    segments: Segment[];
+    // Number of times the segment list is played; 0 repeats until stopped
+    loops: number;
+}
+
+export function segmentDuration(segment: Segment): number {
+    return segment.kind === 'step' ? segment.holdMs : segment.durationMs;
+}
+
+// Duration of a single pass through the segments
+export function passDuration(sequence: Sequence): number {
+    return sequence.segments.reduce((total, segment) => total + segmentDuration(segment), 0);
+}
+
+// Total play time; Infinity for endless loops
+export function sequenceDuration(sequence: Sequence): number {
+    return sequence.loops === 0 ? Infinity : passDuration(sequence) * sequence.loops;
+}
+
+function clampLevel(level: number): number {
+    return Math.min(PWM_MAX, Math.max(PWM_MIN, Math.round(level)));
+}
+
+// Waveform value in [-1, 1] at phase p in [0, 1)
+function waveValue(shape: WaveShape, p: number): number {
+    switch (shape) {
+        case 'sine':
+            return Math.sin(2 * Math.PI * p);
+        case 'triangle':
+            return p < 0.25 ? 4 * p : p < 0.75 ? 2 - 4 * p : 4 * p - 4;
+        case 'square':
+            return p < 0.5 ? 1 : -1;
+    }
+}
+
+function segmentLevel(segment: Segment, t: number): number {
+    switch (segment.kind) {
+        case 'step':
+            return segment.level;
+        case 'ramp':
+            return segment.durationMs > 0
+                ? segment.from + (segment.to - segment.from) * (t / segment.durationMs)
+                : segment.to;
+        case 'wave': {
+            const phase = segment.periodMs > 0 ? (t / segment.periodMs) % 1 : 0;
+            return segment.offset + segment.amplitude * waveValue(segment.shape, phase);
+        }
+    }
+}
+
+// Brightness (integer PWM) at `elapsedMs` from the start of the sequence
+export function levelAt(sequence: Sequence, elapsedMs: number): number {
+    const pass = passDuration(sequence);
+    if (pass <= 0 || sequence.segments.length === 0) return PWM_MIN;
+
+    let t = elapsedMs % pass;
+    for (const segment of sequence.segments) {
+        const duration = segmentDuration(segment);
+        if (t < duration) return clampLevel(segmentLevel(segment, t));
+        t -= duration;
+    }
+    const last = sequence.segments[sequence.segments.length - 1];
+    return clampLevel(segmentLevel(last, segmentDuration(last)));
+}
+
+// Highest level the sequence can reach
+export function sequencePeak(sequence: Sequence): number {
+    let peak = PWM_MIN;
+    for (const segment of sequence.segments) {
+        switch (segment.kind) {
+            case 'step':
+                peak = Math.max(peak, segment.level);
+                break;
+            case 'ramp':
+                peak = Math.max(peak, segment.from, segment.to);
+                break;
+            case 'wave':
+                peak = Math.max(peak, segment.offset + Math.abs(segment.amplitude));
+                break;
+        }
+    }
+    return clampLevel(peak);
+}
+
+function isNumber(value: unknown, min = -Infinity): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min;
+}
+
+function validateSegment(value: unknown, index: number): Segment {
+    const segment = value as Record<string, unknown>;
+    const where = `Segment ${index + 1}`;
+    if (!segment || typeof segment !== 'object') throw new Error(`${where} is not an object`);
+
+    switch (segment.kind) {
+        case 'step':
+            if (!isNumber(segment.level, PWM_MIN) || !isNumber(segment.holdMs, 0)) {
+                throw new Error(`${where}: step needs a level and holdMs`);
+            }
+            return { kind: 'step', level: segment.level, holdMs: segment.holdMs };
+        case 'ramp':
+            if (!isNumber(segment.from, PWM_MIN) || !isNumber(segment.to, PWM_MIN) || !isNumber(segment.durationMs, 0)) {
+                throw new Error(`${where}: ramp needs from, to and durationMs`);
+            }
+            return { kind: 'ramp', from: segment.from, to: segment.to, durationMs: segment.durationMs };
+        case 'wave':
+            if (segment.shape !== 'sine' && segment.shape !== 'triangle' && segment.shape !== 'square') {
+                throw new Error(`${where}: unknown wave shape ${String(segment.shape)}`);
+            }
+            if (!isNumber(segment.periodMs, 1) || !isNumber(segment.amplitude, 0)
+                || !isNumber(segment.offset, PWM_MIN) || !isNumber(segment.durationMs, 0)) {
+                throw new Error(`${where}: wave needs periodMs, amplitude, offset and durationMs`);
+            }
+            return {
+                kind: 'wave',
+                shape: segment.shape,
+                periodMs: segment.periodMs,
+                amplitude: segment.amplitude,
+                offset: segment.offset,
+                durationMs: segment.durationMs
+            };
+        default:
+            throw new Error(`${where}: unknown kind ${String(segment.kind)}`);
+    }
+}
+
+// Validates untrusted JSON (e.g. an imported file) as a Sequence
+export function validateSequence(value: unknown): Sequence {
+    const sequence = value as Record<string, unknown>;
+    if (!sequence || typeof sequence !== 'object') throw new Error('Sequence is not an object');
+    if (typeof sequence.name !== 'string' || !sequence.name.trim()) throw new Error('Sequence needs a name');
+    if (!Array.isArray(sequence.segments)) throw new Error(`Sequence "${sequence.name}" has no segments`);
+    if (!Number.isInteger(sequence.loops) || (sequence.loops as number) < 0) {
+        throw new Error(`Sequence "${sequence.name}": loops must be 0 (endless) or more`);
+    }
+
+    return {
+        id: typeof sequence.id === 'string' && sequence.id ? sequence.id : crypto.randomUUID(),
+        name: sequence.name.trim(),
+        segments: sequence.segments.map(validateSegment),
+        loops: sequence.loops as number
+    };
+}
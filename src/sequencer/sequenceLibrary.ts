@@ -0,0 +1,61 @@
+import { validateSequence, type Sequence } from './sequence';
+
+const STORAGE_KEY = 'laserController.sequences';
+const FILE_VERSION = 1;
+
+export const EXAMPLE_SEQUENCES: Sequence[] = [
+    {
+        id: 'example-staircase',
+        name: 'Staircase',
+        loops: 1,
+        segments: [
+            { kind: 'step', level: 10, holdMs: 2000 },
+            { kind: 'step', level: 30, holdMs: 2000 },
+            { kind: 'step', level: 50, holdMs: 2000 },
+            { kind: 'ramp', from: 50, to: 0, durationMs: 3000 }
+        ]
+    },
+    {
+        id: 'example-breathing',
+        name: 'Breathing (sine)',
+        loops: 0,
+        segments: [
+            { kind: 'wave', shape: 'sine', periodMs: 4000, amplitude: 30, offset: 40, durationMs: 4000 }
+        ]
+    }
+];
+
+export function loadSequences(): Sequence[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return EXAMPLE_SEQUENCES;
+        const parsed: unknown = JSON.parse(stored);
+        return Array.isArray(parsed) ? parsed.map(validateSequence) : EXAMPLE_SEQUENCES;
+    } catch (error) {
+        console.error('Failed to load sequences:', error);
+        return EXAMPLE_SEQUENCES;
+    }
+}
+
+export function saveSequences(sequences: Sequence[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sequences));
+}
+
+export function exportSequences(sequences: Sequence[]): string {
+    return JSON.stringify({ version: FILE_VERSION, sequences }, null, 2);
+}
+
+// Accepts an exported file, a bare array of sequences or a single sequence
+export function importSequences(text: string): Sequence[] {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed.map(validateSequence);
+
+    const file = parsed as { version?: unknown; sequences?: unknown };
+    if (file && typeof file === 'object' && Array.isArray(file.sequences)) {
+        if (typeof file.version === 'number' && file.version > FILE_VERSION) {
+            throw new Error(`Unsupported sequence file version ${file.version}`);
+        }
+        return file.sequences.map(validateSequence);
+    }
+    return [validateSequence(parsed)];
+}
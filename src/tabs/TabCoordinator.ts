@@ -0,0 +1,121 @@
+import { Emitter } from '../device/Emitter';
+import type { TabMessage, TabMessageBody } from './messages';
+
+// pending until the lock manager has answered
+export type TabRole = 'pending' | 'owner' | 'follower';
+
+export interface TabCoordinatorEvents {
+    role: TabRole;
+    // From another tab; broadcasts, or addressed to this one
+    message: TabMessage;
+}
+
+const CHANNEL_NAME = 'laserController.tabs';
+const LOCK_NAME = 'laserController.owner';
+// A handover the requesting tab never completes is taken back
+const HANDOVER_TIMEOUT = 3000;
+
+// Decides which tab owns the serial connection. The owner holds a Web Lock
+// for as long as it lives; the others queue for it, so when the owner closes
+// the next tab in line takes over. A handover lets a chosen tab steal it.
+// Without Web Locks or BroadcastChannel every tab is its own owner.
+export class TabCoordinator extends Emitter<TabCoordinatorEvents> {
+    readonly id = crypto.randomUUID();
+    private channel: BroadcastChannel | null = null;
+    private currentRole: TabRole = 'pending';
+    // Resolving it releases the held lock
+    private release: (() => void) | null = null;
+    // Aborts the queued lock request
+    private waiting: AbortController | null = null;
+    private handoverTimer: ReturnType<typeof setTimeout> | null = null;
+    private disposed = false;
+
+    get role(): TabRole {
+        return this.currentRole;
+    }
+
+    start(): void {
+        if (typeof BroadcastChannel === 'undefined' || !navigator.locks) {
+            this.setRole('owner');
+            return;
+        }
+        this.channel = new BroadcastChannel(CHANNEL_NAME);
+        this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+            const message = event.data;
+            if (message.to === undefined || message.to === this.id) this.emit('message', message);
+        };
+
+        navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => {
+            if (lock) return this.hold();
+            this.setRole('follower');
+            this.queue();
+            return undefined;
+        }).catch(error => this.handleLost(error));
+    }
+
+    post(message: TabMessageBody, to?: string): void {
+        this.channel?.postMessage({ ...message, from: this.id, to });
+    }
+
+    // Called by the owner once its ports are closed; `to` steals the lock
+    // next. Ownership comes back if it does not within a few seconds.
+    handOver(to: string): void {
+        if (this.currentRole !== 'owner') return;
+        this.setRole('follower');
+        this.post({ kind: 'handover' }, to);
+        this.handoverTimer = setTimeout(() => {
+            this.handoverTimer = null;
+            if (this.release) this.setRole('owner');
+        }, HANDOVER_TIMEOUT);
+    }
+
+    // Takes the lock from the owner after it announced a handover
+    takeOver(): void {
+        this.waiting?.abort();
+        this.waiting = null;
+        navigator.locks.request(LOCK_NAME, { steal: true }, () => this.hold())
+            .catch(error => this.handleLost(error));
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.handoverTimer) clearTimeout(this.handoverTimer);
+        this.waiting?.abort();
+        this.release?.();
+        this.channel?.close();
+        this.channel = null;
+    }
+
+    private queue(): void {
+        const controller = new AbortController();
+        this.waiting = controller;
+        navigator.locks.request(LOCK_NAME, { signal: controller.signal }, () => {
+            this.waiting = null;
+            return this.hold();
+        }).catch(error => this.handleLost(error));
+    }
+
+    // Keeps the lock until released or stolen
+    private hold(): Promise<void> {
+        this.setRole('owner');
+        return new Promise(resolve => {
+            this.release = resolve;
+        });
+    }
+
+    // A stolen lock, or a queued request aborted for a takeover
+    private handleLost(error: unknown): void {
+        if (this.disposed || (error as Error).name !== 'AbortError' || !this.release) return;
+        this.release = null;
+        if (this.handoverTimer) clearTimeout(this.handoverTimer);
+        this.handoverTimer = null;
+        this.setRole('follower');
+        this.queue();
+    }
+
+    private setRole(role: TabRole): void {
+        if (role === this.currentRole) return;
+        this.currentRole = role;
+        this.emit('role', role);
+    }
+}
@@ -0,0 +1,33 @@
+import type { DeviceSnapshot } from '../device/DeviceSession';
+import type { ConsoleEntry } from '../types/console';
+
+// What the owning tab shows, for the other tabs to mirror
+export interface MirrorState {
+    // key is the stable device identity, as in DeviceSession
+    devices: Array<{ id: string; key: string; snapshot: DeviceSnapshot }>;
+    selectedId: string | null;
+    // Emergency stop latch of the owning tab
+    stopped: boolean;
+}
+
+// Actions a follower tab asks the owning tab to carry out. deviceId is the
+// device the follower was looking at; null means the owner's selection.
+export type RemoteCommand =
+    | { kind: 'laser'; deviceId: string | null; on: boolean }
+    | { kind: 'brightness'; deviceId: string | null; value: number }
+    | { kind: 'line'; deviceId: string | null; text: string }
+    | { kind: 'emergency_stop' }
+    | { kind: 'rearm' };
+
+export type TabMessageBody =
+    // A follower started and wants the current state and console history
+    | { kind: 'hello' }
+    | { kind: 'state'; state: MirrorState }
+    | { kind: 'console'; entries: ConsoleEntry[] }
+    | { kind: 'command'; command: RemoteCommand }
+    | { kind: 'handover_request' }
+    // The owner closed its ports; the addressed tab may take the lock
+    | { kind: 'handover' };
+
+// Sent over the BroadcastChannel; `to` addresses a single tab
+export type TabMessage = TabMessageBody & { from: string; to?: string };
@@ -0,0 +1,170 @@
+import { Emitter } from '../device/Emitter';
+import type { LaserDevice } from '../device/LaserDevice';
+import type { DeviceReport } from '../device/protocol';
+import { linearTrend } from './trend';
+
+export interface TelemetrySample {
+    // Wall-clock time the report arrived (ms since epoch)
+    time: number;
+    source: 'initial_state' | 'status' | 'heartbeat';
+    uptimeMs?: number;
+    freeHeap?: number;
+    laserOn?: boolean;
+    brightness?: number;
+}
+
+export interface RebootEvent {
+    time: number;
+    previousUptimeMs: number;
+    uptimeMs: number;
+}
+
+export interface HeapDeclineEvent {
+    time: number;
+    // Negative: bytes lost per minute
+    bytesPerMinute: number;
+    windowMs: number;
+    r2: number;
+}
+
+export interface TelemetryEvents {
+    sample: TelemetrySample;
+    reboot: RebootEvent;
+    heap_decline: HeapDeclineEvent;
+    // A previously reported decline has levelled off
+    heap_recovered: void;
+}
+
+export interface TelemetryOptions {
+    // Samples older than this are discarded
+    retentionMs: number;
+    // Span of samples the heap trend is fitted over
+    heapWindowMs: number;
+    heapMinSamples: number;
+    // Slope (bytes per minute) at or below which the heap counts as declining
+    heapSlopeThreshold: number;
+    // How well the samples must fit a line for the decline to count as steady
+    heapMinR2: number;
+}
+
+export const DEFAULT_TELEMETRY_OPTIONS: TelemetryOptions = {
+    retentionMs: 6 * 60 * 60 * 1000,
+    heapWindowMs: 10 * 60 * 1000,
+    heapMinSamples: 30,
+    heapSlopeThreshold: -256,
+    heapMinR2: 0.7
+};
+
+// Rolling time series of every state report, with reboot (uptime going
+// backwards) and steady heap decline detection
+export class TelemetryStore extends Emitter<TelemetryEvents> {
+    private readonly options: TelemetryOptions;
+    private readonly data: TelemetrySample[] = [];
+    private lastUptimeMs: number | undefined;
+    private sourceLabel: string | undefined;
+    private declining = false;
+    private reboot: RebootEvent | null = null;
+    // Heap samples from before the last reboot are left out of the trend
+    private runStartedAt = 0;
+
+    constructor(options: Partial<TelemetryOptions> = {}) {
+        super();
+        this.options = { ...DEFAULT_TELEMETRY_OPTIONS, ...options };
+    }
+
+    get samples(): readonly TelemetrySample[] {
+        return this.data;
+    }
+
+    get lastReboot(): RebootEvent | null {
+        return this.reboot;
+    }
+
+    // Feeds the store from a device; returns the unsubscribe function.
+    // Uptime continuity carries over reconnects to the same transport, so a
+    // board that reset while the link was down is still reported.
+    attach(device: LaserDevice): () => void {
+        if (device.transport.label !== this.sourceLabel) {
+            this.sourceLabel = device.transport.label;
+            this.lastUptimeMs = undefined;
+            this.declining = false;
+        }
+        const unsubscribers = [
+            device.on('initial_state', message => this.record('initial_state', message)),
+            device.on('status', message => this.record('status', message)),
+            device.on('heartbeat', message => this.record('heartbeat', message))
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }
+
+    // Samples newer than `windowMs` before now
+    since(windowMs: number, now = Date.now()): TelemetrySample[] {
+        const from = now - windowMs;
+        const start = this.data.findIndex(sample => sample.time >= from);
+        return start < 0 ? [] : this.data.slice(start);
+    }
+
+    clear(): void {
+        this.data.length = 0;
+        this.declining = false;
+        this.reboot = null;
+        this.runStartedAt = 0;
+    }
+
+    record(source: TelemetrySample['source'], report: DeviceReport, time = Date.now()): void {
+        const sample: TelemetrySample = {
+            time,
+            source,
+            uptimeMs: report.uptime_ms,
+            freeHeap: report.free_heap_bytes,
+            laserOn: report.laser_state,
+            brightness: report.laser_brightness
+        };
+
+        this.data.push(sample);
+        const expired = this.data.findIndex(entry => entry.time >= time - this.options.retentionMs);
+        if (expired > 0) this.data.splice(0, expired);
+        this.emit('sample', sample);
+
+        if (sample.uptimeMs !== undefined) {
+            this.checkReboot(sample.uptimeMs, time);
+        }
+        if (sample.freeHeap !== undefined) {
+            this.checkHeap(time);
+        }
+    }
+
+    private checkReboot(uptimeMs: number, time: number): void {
+        const previous = this.lastUptimeMs;
+        this.lastUptimeMs = uptimeMs;
+        if (previous === undefined || uptimeMs >= previous) return;
+
+        this.declining = false;
+        this.runStartedAt = time;
+        this.reboot = { time, previousUptimeMs: previous, uptimeMs };
+        this.emit('reboot', this.reboot);
+    }
+
+    private checkHeap(time: number): void {
+        const { heapWindowMs, heapMinSamples, heapSlopeThreshold, heapMinR2 } = this.options;
+        const points = this.since(heapWindowMs, time).flatMap(sample =>
+            sample.freeHeap === undefined || sample.time < this.runStartedAt
+                ? []
+                : [{ x: (sample.time - time) / 60000, y: sample.freeHeap }]);
+
+        // Only judge once the window is mostly covered
+        if (points.length < heapMinSamples || -points[0].x * 60000 < heapWindowMs * 0.8) return;
+
+        const trend = linearTrend(points);
+        if (!trend) return;
+
+        const steadyDecline = trend.slope <= heapSlopeThreshold && trend.r2 >= heapMinR2;
+        if (steadyDecline && !this.declining) {
+            this.declining = true;
+            this.emit('heap_decline', { time, bytesPerMinute: trend.slope, windowMs: heapWindowMs, r2: trend.r2 });
+        } else if (!steadyDecline && this.declining && trend.slope > heapSlopeThreshold / 2) {
+            this.declining = false;
+            this.emit('heap_recovered');
+        }
+    }
+}
@@ -0,0 +1,35 @@
+// Least-squares line through (x, y) points
+export interface Trend {
+    // Change of y per unit of x
+    slope: number;
+    // Coefficient of determination, 0 (no fit) to 1 (perfect line)
+    r2: number;
+}
+
+export function linearTrend(points: ReadonlyArray<{ x: number; y: number }>): Trend | undefined {
+    const n = points.length;
+    if (n < 2) return undefined;
+
+    let sumX = 0;
+    let sumY = 0;
+    for (const { x, y } of points) {
+        sumX += x;
+        sumY += y;
+    }
+    const meanX = sumX / n;
+    const meanY = sumY / n;
+
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (const { x, y } of points) {
+        sxx += (x - meanX) ** 2;
+        sxy += (x - meanX) * (y - meanY);
+        syy += (y - meanY) ** 2;
+    }
+    if (sxx === 0) return undefined;
+
+    const slope = sxy / sxx;
+    const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+    return { slope, r2 };
+}
@@ -0,0 +1,30 @@
+// Device a console entry belongs to, when there is one
+export interface ConsoleSource {
+    id: string;
+    name: string;
+}
+
+// Traffic on the link; app messages have no direction
+export type ConsoleDirection = 'sent' | 'received';
+
+export interface ConsoleDetails {
+    direction?: ConsoleDirection;
+    // `type` of a received JSON message, e.g. heartbeat
+    messageType?: string;
+}
+
+export interface ConsoleEntry extends ConsoleDetails {
+    // Increases with every entry; stable key for rendering
+    id: number;
+    timestamp: Date;
+    message: string;
+    type: 'info' | 'success' | 'warning' | 'error' | 'json';
+    source?: ConsoleSource;
+}
+
+export type LogMessage = (
+    message: string,
+    type?: ConsoleEntry['type'],
+    source?: ConsoleSource,
+    details?: ConsoleDetails
+) => void;
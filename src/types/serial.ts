@@ -0,0 +1,46 @@
+// Minimal Web Serial API typings (not yet part of lib.dom.d.ts)
+export interface SerialPort extends EventTarget {
+    open(options: SerialOptions): Promise<void>;
+    close(): Promise<void>;
+    readable?: ReadableStream<Uint8Array> | null;
+    writable?: WritableStream<Uint8Array> | null;
+    getInfo(): SerialPortInfo;
+}
+
+export interface SerialOptions {
+    baudRate: number;
+    dataBits?: number;
+    stopBits?: number;
+    parity?: 'none' | 'even' | 'odd';
+    flowControl?: 'none' | 'hardware';
+    // Read and write buffer size in bytes
+    bufferSize?: number;
+}
+
+export interface SerialPortInfo {
+    usbVendorId?: number;
+    usbProductId?: number;
+    // Set instead of the USB ids for Bluetooth RFCOMM ports
+    bluetoothServiceClassId?: number | string;
+}
+
+export interface SerialPortFilter {
+    usbVendorId?: number;
+    usbProductId?: number;
+}
+
+export interface SerialPortRequestOptions {
+    filters?: SerialPortFilter[];
+}
+
+export interface Serial extends EventTarget {
+    requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
+    // Ports this origin was already granted access to
+    getPorts(): Promise<SerialPort[]>;
+}
+
+declare global {
+    interface Navigator {
+        serial?: Serial;
+    }
+}
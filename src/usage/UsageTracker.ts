@@ -0,0 +1,124 @@
+import { Emitter } from '../device/Emitter';
+import type { LaserDevice } from '../device/LaserDevice';
+import { parsePwmCommand, type DeviceReport } from '../device/protocol';
+import type { UsageEvent } from './usage';
+
+export interface UsageTrackerEvents {
+    record: UsageEvent;
+}
+
+// While the laser is on, a checkpoint bounds what a crashed page can lose
+const CHECKPOINT_INTERVAL = 60000;
+// Brightness entries are kept to one per second; a sequence would otherwise
+// write ten per second
+const BRIGHTNESS_INTERVAL = 1000;
+
+// Turns a device's confirmed commands and state reports into usage ledger
+// entries. Only changes are recorded, so a command and the report that
+// confirms it produce a single entry.
+export class UsageTracker extends Emitter<UsageTrackerEvents> {
+    private readonly key: string;
+    private laserOn: boolean | null = null;
+    private brightness: number | null = null;
+    private lastBrightnessAt = 0;
+    private brightnessTimer: ReturnType<typeof setTimeout> | null = null;
+    private checkpointTimer: ReturnType<typeof setInterval> | null = null;
+    private readonly cleanup: Array<() => void>;
+
+    constructor(device: LaserDevice, key: string) {
+        super();
+        this.key = key;
+
+        const handleReport = (report: DeviceReport) => this.handleReport(report);
+        this.cleanup = [
+            device.on('acknowledged', ({ command }) => this.handleCommand(command)),
+            device.on('initial_state', handleReport),
+            device.on('status', handleReport),
+            device.on('heartbeat', handleReport),
+            device.on('disconnect', () => {
+                if (this.laserOn) this.setLaser(false, 'disconnect');
+                this.stopTimers();
+            })
+        ];
+    }
+
+    dispose(): void {
+        this.stopTimers();
+        this.cleanup.forEach(unsubscribe => unsubscribe());
+    }
+
+    private handleCommand(command: string): void {
+        const pwm = parsePwmCommand(command);
+        if (pwm !== undefined) {
+            this.setBrightness(pwm, 'user');
+        } else if (command === 'LASER_ON' || command === 'LASER_OFF') {
+            this.setLaser(command === 'LASER_ON', 'user');
+        }
+    }
+
+    private handleReport(report: DeviceReport): void {
+        // Brightness first, so an on entry carries the level it switched on at
+        if (report.laser_brightness !== undefined) {
+            this.setBrightness(report.laser_brightness, 'device');
+        }
+        if (report.laser_state !== undefined) {
+            this.setLaser(report.laser_state, 'device');
+        }
+    }
+
+    private setLaser(on: boolean, source: UsageEvent['source']): void {
+        if (on === this.laserOn) return;
+        this.laserOn = on;
+        this.cancelBrightness();
+        this.record(on ? 'on' : 'off', source);
+
+        if (on && !this.checkpointTimer) {
+            this.checkpointTimer = setInterval(() => this.record('checkpoint', 'tracker'), CHECKPOINT_INTERVAL);
+        } else if (!on) {
+            this.stopTimers();
+        }
+    }
+
+    private setBrightness(brightness: number, source: UsageEvent['source']): void {
+        if (brightness === this.brightness) return;
+        this.brightness = brightness;
+        // Until the laser state is known there is nothing to attach it to
+        if (this.laserOn === null) return;
+
+        this.cancelBrightness();
+        const wait = this.lastBrightnessAt + BRIGHTNESS_INTERVAL - Date.now();
+        if (wait <= 0) {
+            this.recordBrightness(source);
+        } else {
+            this.brightnessTimer = setTimeout(() => this.recordBrightness(source), wait);
+        }
+    }
+
+    private recordBrightness(source: UsageEvent['source']): void {
+        this.brightnessTimer = null;
+        this.lastBrightnessAt = Date.now();
+        this.record('brightness', source);
+    }
+
+    private cancelBrightness(): void {
+        if (this.brightnessTimer) clearTimeout(this.brightnessTimer);
+        this.brightnessTimer = null;
+    }
+
+    private stopTimers(): void {
+        this.cancelBrightness();
+        if (this.checkpointTimer) clearInterval(this.checkpointTimer);
+        this.checkpointTimer = null;
+    }
+
+    private record(kind: UsageEvent['kind'], source: UsageEvent['source']): void {
+        this.emit('record', {
+            device: this.key,
+            time: Date.now(),
+            kind,
+            laserOn: this.laserOn ?? false,
+            brightness: this.brightness ?? 0,
+            source
+        });
+    }
+}
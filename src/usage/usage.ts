@@ -0,0 +1,99 @@
+// Laser usage ledger: the on/off and brightness history of each diode,
+// kept for maintenance and safety audits.
+
+export type UsageKind = 'on' | 'off' | 'brightness' | 'checkpoint' | 'service';
+
+export interface UsageEvent {
+    // Assigned by IndexedDB
+    id?: number;
+    // Device identity, see deviceKey()
+    device: string;
+    time: number;
+    kind: UsageKind;
+    laserOn: boolean;
+    brightness: number;
+    // What caused the entry: a UI command the device confirmed, a state the
+    // device reported, or the link closing
+    source: 'user' | 'device' | 'disconnect' | 'tracker';
+}
+
+export interface UsageSummary {
+    onMs: number;
+    // On-time weighted by brightness: one hour at 50% counts as half an hour
+    energyHours: number;
+    // Off to on transitions
+    cycles: number;
+}
+
+export interface UsageRange {
+    from?: number;
+    to?: number;
+}
+
+const HOUR = 3600000;
+
+// Totals over `range`; spans crossing its edges are clipped. The last span
+// ends at `until` (now, for a device that is still on) or at the last event.
+export function summarizeUsage(events: readonly UsageEvent[], range: UsageRange = {}, until?: number): UsageSummary {
+    const from = range.from ?? -Infinity;
+    const to = range.to ?? Infinity;
+    const summary: UsageSummary = { onMs: 0, energyHours: 0, cycles: 0 };
+
+    events.forEach((event, index) => {
+        const wasOn = index > 0 && events[index - 1].laserOn;
+        if (event.kind === 'on' && !wasOn && event.time >= from && event.time <= to) {
+            summary.cycles++;
+        }
+        if (!event.laserOn) return;
+
+        const end = events[index + 1]?.time ?? until ?? event.time;
+        const spanMs = Math.max(0, Math.min(end, to) - Math.max(event.time, from));
+        summary.onMs += spanMs;
+        summary.energyHours += (spanMs / HOUR) * (event.brightness / 100);
+    });
+    return summary;
+}
+
+// Time of the last service entry, if the diode was ever serviced
+export function lastService(events: readonly UsageEvent[]): number | undefined {
+    for (let i = events.length - 1; i >= 0; i--) {
+        if (events[i].kind === 'service') return events[i].time;
+    }
+    return undefined;
+}
+
+export function formatHours(ms: number): string {
+    return `${(ms / HOUR).toFixed(2)} h`;
+}
+
+export function usageToCsv(events: readonly UsageEvent[]): string {
+    const rows = events.map(event => [
+        new Date(event.time).toISOString(),
+        event.device,
+        event.kind,
+        event.laserOn ? 'on' : 'off',
+        event.brightness,
+        event.source
+    ].join(','));
+    return ['time_iso,device,kind,laser,brightness,source', ...rows].join('\n') + '\n';
+}
+
+const SERVICE_INTERVAL_KEY = 'laserController.serviceIntervalHours';
+export const DEFAULT_SERVICE_INTERVAL_HOURS = 1000;
+
+export function loadServiceInterval(): number {
+    try {
+        const stored = Number(localStorage.getItem(SERVICE_INTERVAL_KEY));
+        return stored > 0 ? stored : DEFAULT_SERVICE_INTERVAL_HOURS;
+    } catch {
+        return DEFAULT_SERVICE_INTERVAL_HOURS;
+    }
+}
+
+export function saveServiceInterval(hours: number): void {
+    try {
+        localStorage.setItem(SERVICE_INTERVAL_KEY, String(hours));
+    } catch (error) {
+        console.error('Failed to save service interval:', error);
+    }
+}
@@ -0,0 +1,50 @@
+import type { UsageEvent } from './usage';
+
+const DB_NAME = 'laserController';
+const DB_VERSION = 1;
+const STORE = 'usage';
+const BY_DEVICE_TIME = 'device_time';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+}
+
+// IndexedDB store of usage events, indexed by device and time
+export class UsageDb {
+    private readonly db: IDBDatabase;
+
+    private constructor(db: IDBDatabase) {
+        this.db = db;
+    }
+
+    static open(): Promise<UsageDb> {
+        if (typeof indexedDB === 'undefined') {
+            return Promise.reject(new Error('IndexedDB is not available'));
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+            store.createIndex(BY_DEVICE_TIME, ['device', 'time']);
+        };
+        return promisify(request).then(db => new UsageDb(db));
+    }
+
+    async add(event: UsageEvent): Promise<number> {
+        const key = await promisify(this.db.transaction(STORE, 'readwrite').objectStore(STORE).add(event));
+        return Number(key);
+    }
+
+    // Every event of a device, oldest first
+    events(device: string): Promise<UsageEvent[]> {
+        const index = this.db.transaction(STORE).objectStore(STORE).index(BY_DEVICE_TIME);
+        const range = IDBKeyRange.bound([device, -Infinity], [device, Infinity]);
+        return promisify(index.getAll(range));
+    }
+
+    close(): void {
+        this.db.close();
+    }
+}
@@ -0,0 +1,11 @@
+// Debounce utility function
+export function debounce<A extends unknown[]>(
+    func: (...args: A) => void,
+    wait: number
+): (...args: A) => void {
+    let timeout: ReturnType<typeof setTimeout>;
+    return (...args: A) => {
+        clearTimeout(timeout);
+        timeout = setTimeout(() => func(...args), wait);
+    };
+}
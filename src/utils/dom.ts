@@ -0,0 +1,18 @@
+// Elements where keys like Space and the arrows keep their usual meaning
+const INTERACTIVE_TAGS = ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'];
+
+// Form controls, links and anything made focusable with tabindex
+export function isInteractive(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return INTERACTIVE_TAGS.includes(target.tagName) || target.isContentEditable || target.hasAttribute('tabindex');
+}
+
+// Input types that take typed characters or arrow keys as text
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'password', 'number', 'date', 'time', 'datetime-local', 'month', 'week'];
+
+// Fields where a key press is typing, so it must not double as a shortcut
+export function isTextEntry(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.includes(target.type);
+    return target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+}
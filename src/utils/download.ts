@@ -0,0 +1,14 @@
+// Saves text content as a file through a temporary download link
+export function downloadFile(filename: string, content: string, type = 'application/json'): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// File name friendly timestamp, e.g. 2024-05-01T12-30-00
+export function fileTimestamp(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 19).replace(/:/g, '-');
+}
@@ -0,0 +1,14 @@
+// Seconds as e.g. "1d 2h 3m 4s", leaving out leading zero units
+export function formatUptime(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+
+    let uptimeText = '';
+    if (days > 0) uptimeText += `${days}d `;
+    if (hours > 0 || days > 0) uptimeText += `${hours}h `;
+    if (minutes > 0 || hours > 0 || days > 0) uptimeText += `${minutes}m `;
+    uptimeText += `${secs}s`;
+    return uptimeText;
+}
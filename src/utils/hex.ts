@@ -0,0 +1,20 @@
+// Parses hex bytes written as "48 65 0A", "48650a" or "0x48,0x65"
+export function parseHex(text: string): Uint8Array {
+    const digits = text.replace(/0x/gi, '').replace(/[\s,]/g, '');
+    if (!/^[0-9a-f]*$/i.test(digits)) {
+        throw new Error('Hex input may only contain 0-9, A-F, spaces and commas');
+    }
+    if (digits.length === 0 || digits.length % 2 !== 0) {
+        throw new Error('Hex input must be a whole number of bytes');
+    }
+    const bytes = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+// "48 65 0A"
+export function formatHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Bundles the laserctl command-line tool for Node
+export default defineConfig({
+  build: {
+    ssr: 'cli/laserctl.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'laserctl.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})